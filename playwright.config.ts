@@ -1,33 +1,41 @@
 import { defineConfig, devices } from '@playwright/test';
+import config, { assertConfigLoaded } from './src/config.js';
+
+// An invalid config file or VIKING_* value fails the run here, not with defaults
+assertConfigLoaded();
 
 /**
  * Viking Pricing Page Monitor - Playwright Configuration
  *
  * Runs tests against discovered pricing URLs with parallel execution
- * and comprehensive reporting.
+ * and comprehensive reporting. Workers, retries, timeouts and viewport
+ * come from the resolved monitor config (src/config.ts), so
+ * viking-monitor.config.json and VIKING_* overrides apply here too.
  */
 export default defineConfig({
   testDir: './src/tests',
 
-  // Run tests in parallel with max 10 workers to avoid rate limiting
+  // Run tests in parallel, capped to avoid rate limiting
   fullyParallel: true,
-  workers: process.env.CI ? 10 : 5,
+  workers: config.maxConcurrentTests,
 
   // Fail the build on CI if you accidentally left test.only in the source code
   forbidOnly: !!process.env.CI,
 
-  // Retry on CI only
-  retries: process.env.CI ? 2 : 0,
+  // Retry on CI only (by default)
+  retries: config.playwright.retries,
 
   // Reporter configuration
+  // results-reporter merges every worker's pricing results into results.json/results.csv
   reporter: [
     ['html', { open: 'never' }],
     ['json', { outputFile: 'test-results/results.json' }],
     ['list'],
+    ['./src/utils/results-reporter.ts'],
   ],
 
-  // Global timeout: 2 hours for full test run (1500+ URLs)
-  globalTimeout: 120 * 60 * 1000,
+  // Global timeout for the full test run (1500+ URLs)
+  globalTimeout: config.playwright.globalTimeoutMinutes * 60 * 1000,
 
   // Shared settings for all projects
   use: {
@@ -43,17 +51,17 @@ export default defineConfig({
     // Video on failure (helps debug issues)
     video: 'retain-on-failure',
 
-    // Navigation timeout: 10 seconds as per requirements
-    navigationTimeout: 10000,
+    // Navigation timeout: the page load limit the checks enforce
+    navigationTimeout: config.pageLoadTimeout,
 
     // Action timeout
-    actionTimeout: 5000,
+    actionTimeout: config.playwright.actionTimeout,
 
     // Viewport
-    viewport: { width: 1280, height: 720 },
+    viewport: config.playwright.viewport,
 
     // User agent to identify our bot
-    userAgent: 'Viking-Pricing-Monitor/1.0 (Automated Testing)',
+    userAgent: config.playwright.userAgent,
   },
 
   // Test timeout per individual test (0 = no timeout, managed by globalTimeout)
@@ -61,14 +69,27 @@ export default defineConfig({
 
   // Expect timeout
   expect: {
-    timeout: 5000,
+    timeout: config.playwright.expectTimeout,
   },
 
   projects: [
     {
       name: 'chromium',
+      testIgnore: [/fixtures\.spec\.ts/, /unit\//],
+      // The device sets its own viewport; keep the configured one
+      use: { ...devices['Desktop Chrome'], viewport: config.playwright.viewport },
+    },
+    {
+      // Offline regression tests for the checks, against fixtures/curated
+      name: 'fixtures',
+      testMatch: /fixtures\.spec\.ts/,
       use: { ...devices['Desktop Chrome'] },
     },
+    {
+      // Fast discovery tests against the local sitemaps and a stub server
+      name: 'unit',
+      testDir: './src/tests/unit',
+    },
   ],
 
   // Output folder for test artifacts
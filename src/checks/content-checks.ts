@@ -0,0 +1,326 @@
+/**
+ * Content Checks - Checks on what the pricing page displays
+ *
+ * Each check wraps a function that inspects the loaded page using the
+ * selectors and copy of the page's CheckProfile; the PricingCheck objects
+ * at the bottom describe how they are registered.
+ */
+
+import { Page } from '@playwright/test';
+import { DomainConfig } from '../config.js';
+import { parsePrices, ParsedPrice } from '../utils/price-parser.js';
+import { findUnpricedDepartures, FareMatrix } from '../extraction/index.js';
+import { CheckProfile } from './profiles.js';
+import { CheckResult, PricingCheck } from './types.js';
+
+/**
+ * Check for error messages indicating no pricing data available
+ */
+async function checkForErrorMessages(page: Page, profile: CheckProfile): Promise<CheckResult> {
+  for (const selector of profile.unavailableSelectors) {
+    const unavailablePanel = page.locator(selector).first();
+    if (await unavailablePanel.count() > 0) {
+      const isVisible = await unavailablePanel.isVisible();
+      if (isVisible) {
+        const text = await unavailablePanel.textContent() || '';
+        return {
+          name: 'No error messages',
+          passed: false,
+          details: `Unavailable panel visible: "${text.trim().substring(0, 100)}"`,
+          selector,
+          matchedText: text.trim(),
+        };
+      }
+    }
+  }
+
+  for (const errorMsg of profile.errorPhrases) {
+    const locator = page.locator(`text="${errorMsg}"`).first();
+    if (await locator.count() > 0) {
+      try {
+        const isVisible = await locator.isVisible();
+        if (isVisible) {
+          return {
+            name: 'No error messages',
+            passed: false,
+            details: `Found visible: "${errorMsg}"`,
+            selector: `text="${errorMsg}"`,
+            matchedText: errorMsg,
+          };
+        }
+      } catch {
+        // Element might have been removed
+      }
+    }
+  }
+
+  return {
+    name: 'No error messages',
+    passed: true,
+    details: 'No visible error messages found',
+  };
+}
+
+/**
+ * Check for departure dates on the page
+ */
+async function checkDepartureDates(page: Page, profile: CheckProfile): Promise<CheckResult> {
+  const datePatterns = profile.datePatterns.map((source) => new RegExp(source, 'i'));
+
+  for (const selector of profile.dateSelectors) {
+    const dates = page.locator(selector);
+    const count = await dates.count();
+    if (count > 0) {
+      return {
+        name: 'Departure dates visible',
+        passed: true,
+        details: `Found ${count} date elements`,
+        selector,
+        matchedText: (await dates.first().textContent())?.trim(),
+      };
+    }
+  }
+
+  const pageText = await page.textContent('body') || '';
+  for (const pattern of datePatterns) {
+    const match = pageText.match(pattern);
+    if (match) {
+      return {
+        name: 'Departure dates visible',
+        passed: true,
+        details: `Found date: "${match[0]}"`,
+        matchedText: match[0],
+      };
+    }
+  }
+
+  return {
+    name: 'Departure dates visible',
+    passed: false,
+    details: 'No departure dates found',
+  };
+}
+
+/**
+ * Check for valid price values (not zero, not empty) in the site's currency
+ */
+async function checkPriceValues(
+  page: Page,
+  profile: CheckProfile,
+  domain?: DomainConfig
+): Promise<CheckResult> {
+  // First non-zero price seen in a currency other than the site's
+  let mismatched: ParsedPrice | undefined;
+
+  const findValidPrice = (text: string): ParsedPrice | undefined => {
+    for (const price of parsePrices(text, domain)) {
+      if (price.amount <= 0) continue;
+      if (!domain || price.currency === domain.currency) return price;
+      mismatched = mismatched || price;
+    }
+    return undefined;
+  };
+
+  for (const selector of profile.priceSelectors) {
+    const elements = page.locator(selector);
+    const count = await elements.count();
+
+    for (let i = 0; i < count; i++) {
+      const text = await elements.nth(i).textContent();
+      const price = text ? findValidPrice(text) : undefined;
+      if (price) {
+        return {
+          name: 'Valid prices present',
+          passed: true,
+          details: `Found price: ${price.raw}`,
+          currency: price.currency,
+          amount: price.amount,
+          selector,
+          matchedText: price.raw,
+        };
+      }
+    }
+  }
+
+  const pageText = await page.textContent('body') || '';
+  const price = findValidPrice(pageText);
+
+  if (price) {
+    return {
+      name: 'Valid prices present',
+      passed: true,
+      details: `Found price: ${price.raw}`,
+      currency: price.currency,
+      amount: price.amount,
+      matchedText: price.raw,
+    };
+  }
+
+  if (mismatched && domain) {
+    return {
+      name: 'Valid prices present',
+      passed: false,
+      details: `Currency mismatch: found ${mismatched.currency} (${mismatched.raw}), expected ${domain.currency}`,
+      currency: mismatched.currency,
+      matchedText: mismatched.raw,
+    };
+  }
+
+  return {
+    name: 'Valid prices present',
+    passed: false,
+    details: 'No valid prices found (all zero or empty)',
+  };
+}
+
+/**
+ * Check for stateroom/cabin category displays
+ */
+async function checkStateroomCategories(page: Page, profile: CheckProfile): Promise<CheckResult> {
+  for (const selector of profile.categorySelectors) {
+    const count = await page.locator(selector).count();
+    if (count > 0) {
+      return {
+        name: 'Stateroom categories displayed',
+        passed: true,
+        details: `Found ${count} category elements`,
+        selector,
+      };
+    }
+  }
+
+  const pageText = (await page.textContent('body') || '').toLowerCase();
+  for (const keyword of profile.categoryKeywords.map((k) => k.toLowerCase())) {
+    if (pageText.includes(keyword)) {
+      return {
+        name: 'Stateroom categories displayed',
+        passed: true,
+        details: `Found keyword: ${keyword}`,
+        matchedText: keyword,
+      };
+    }
+  }
+
+  return {
+    name: 'Stateroom categories displayed',
+    passed: false,
+    details: 'No stateroom categories found',
+  };
+}
+
+/**
+ * Check that every departure in the fare matrix lists at least one fare
+ */
+function checkFareGrid(matrix: FareMatrix): CheckResult {
+  if (matrix.departures.length === 0) {
+    return {
+      name: 'Fare grid complete',
+      passed: false,
+      details: 'No departure rows extracted',
+    };
+  }
+
+  const unpriced = findUnpricedDepartures(matrix);
+  if (unpriced.length > 0) {
+    return {
+      name: 'Fare grid complete',
+      passed: false,
+      details: `${unpriced.length}/${matrix.departures.length} departures without fares (${unpriced.slice(0, 3).map((d) => d.date).join(', ')})`,
+    };
+  }
+
+  return {
+    name: 'Fare grid complete',
+    passed: true,
+    details: `${matrix.departures.length} departures × ${matrix.categories.length} categories`,
+  };
+}
+
+/**
+ * Check for "Request Quote" or booking CTA button
+ */
+async function checkCTAButton(page: Page, profile: CheckProfile): Promise<CheckResult> {
+  const ctaSelectors = [
+    ...profile.ctaLabels.flatMap((label) => [`button:has-text("${label}")`, `a:has-text("${label}")`]),
+    ...profile.ctaSelectors,
+  ];
+
+  for (const selector of ctaSelectors) {
+    try {
+      const count = await page.locator(selector).count();
+      if (count > 0) {
+        const text = await page.locator(selector).first().textContent();
+        return {
+          name: 'Booking CTA exists',
+          passed: true,
+          details: `Found CTA: "${text?.trim()}"`,
+          selector,
+          matchedText: text?.trim(),
+        };
+      }
+    } catch {
+      continue;
+    }
+  }
+
+  return {
+    name: 'Booking CTA exists',
+    passed: false,
+    details: 'No booking CTA found',
+  };
+}
+
+export const errorMessagesCheck: PricingCheck = {
+  id: 'error-messages',
+  name: 'No error messages',
+  severity: 'critical',
+  requiresContent: true,
+  run: ({ page, profile }) => checkForErrorMessages(page, profile),
+  failureMessage: (result) => result.details || 'Error message displayed on page',
+};
+
+export const departureDatesCheck: PricingCheck = {
+  id: 'departure-dates',
+  name: 'Departure dates visible',
+  severity: 'critical',
+  requiresContent: true,
+  run: ({ page, profile }) => checkDepartureDates(page, profile),
+  failureMessage: () => 'No departure dates found',
+};
+
+export const pricesCheck: PricingCheck = {
+  id: 'prices',
+  name: 'Valid prices present',
+  severity: 'critical',
+  requiresContent: true,
+  run: ({ page, profile, domain }) => checkPriceValues(page, profile, domain),
+  // A currency on a failed price check means prices exist but in the wrong currency
+  failureMessage: (result) => (result.currency ? result.details! : 'No valid prices found'),
+};
+
+export const stateroomsCheck: PricingCheck = {
+  id: 'staterooms',
+  name: 'Stateroom categories displayed',
+  severity: 'warning',
+  requiresContent: true,
+  run: ({ page, profile }) => checkStateroomCategories(page, profile),
+  failureMessage: () => 'No stateroom categories found',
+};
+
+export const bookingCtaCheck: PricingCheck = {
+  id: 'booking-cta',
+  name: 'Booking CTA exists',
+  severity: 'warning',
+  requiresContent: true,
+  run: ({ page, profile }) => checkCTAButton(page, profile),
+  failureMessage: () => 'No booking CTA found',
+};
+
+export const fareGridCheck: PricingCheck = {
+  id: 'fare-grid',
+  name: 'Fare grid complete',
+  severity: 'warning',
+  requiresContent: true,
+  run: async ({ fareMatrix }) => checkFareGrid(fareMatrix || { departures: [], categories: [] }),
+  failureMessage: (result) => `Incomplete fare grid: ${result.details}`,
+};
@@ -0,0 +1,25 @@
+/**
+ * Checks Module Exports
+ */
+
+export {
+  type CheckSeverity,
+  type FareSource,
+  type CheckResult,
+  type CheckContext,
+  type PricingCheck,
+  type PricingPageResult,
+  type RedirectHop,
+} from './types.js';
+export { CheckRegistry, createDefaultRegistry, BUILTIN_CHECKS } from './registry.js';
+export { testPricingPage } from './pricing-page.js';
+export { describeRedirectProblem, isHomepageUrl } from './page-checks.js';
+export {
+  DEFAULT_PROFILE,
+  loadCheckProfiles,
+  resolveProfile,
+  type CheckProfile,
+  type CheckProfilesFile,
+  type ProfileRule,
+  type ResolvedProfile,
+} from './profiles.js';
@@ -0,0 +1,98 @@
+/**
+ * Page Checks - Checks on how the page loaded, independent of its content
+ */
+
+import config from '../config.js';
+import { PricingCheck } from './types.js';
+
+export const httpStatusCheck: PricingCheck = {
+  id: 'http-status',
+  name: 'HTTP Status 200',
+  severity: 'critical',
+  requiresContent: false,
+  async run({ httpStatus }) {
+    return {
+      name: 'HTTP Status 200',
+      passed: httpStatus === 200,
+      details: `Status: ${httpStatus}`,
+    };
+  },
+  failureMessage: (_result, { httpStatus }) => `HTTP ${httpStatus}`,
+};
+
+export const redirectCheck: PricingCheck = {
+  id: 'redirect',
+  name: 'Not redirected away from pricing',
+  severity: 'critical',
+  requiresContent: false,
+  async run({ urlInfo, finalUrl, redirectChain }) {
+    const problem = finalUrl !== urlInfo.url ? describeRedirectProblem(urlInfo.url, finalUrl) : undefined;
+    return {
+      name: 'Not redirected away from pricing',
+      passed: !problem,
+      details: problem || (redirectChain.length > 0 ? `${redirectChain.length} redirect(s) to ${finalUrl}` : 'No redirects'),
+    };
+  },
+};
+
+export const loadTimeCheck: PricingCheck = {
+  id: 'load-time',
+  name: 'Load time < 10s',
+  severity: 'warning',
+  requiresContent: false,
+  async run({ loadTimeMs }) {
+    return {
+      name: 'Load time < 10s',
+      passed: loadTimeMs < 10000,
+      details: `${loadTimeMs}ms`,
+    };
+  },
+  failureMessage: (_result, { loadTimeMs }) => `Slow load: ${loadTimeMs}ms`,
+};
+
+export const jsErrorsCheck: PricingCheck = {
+  id: 'js-errors',
+  name: 'No Viking JS errors',
+  severity: 'warning',
+  requiresContent: true,
+  async run({ jsErrors }) {
+    return {
+      name: 'No Viking JS errors',
+      passed: jsErrors.length === 0,
+      details: jsErrors.length > 0 ? `${jsErrors.length} errors` : 'Clean',
+    };
+  },
+  failureMessage: (_result, { jsErrors }) => `JS errors: ${jsErrors.join('; ')}`,
+};
+
+/**
+ * Why a redirect from a pricing page is a problem, if it is: it left the
+ * domain or locale, landed on a homepage, or on a page that is no longer
+ * a pricing page
+ */
+export function describeRedirectProblem(fromUrl: string, toUrl: string): string | undefined {
+  const from = new URL(fromUrl);
+  const to = new URL(toUrl);
+
+  if (from.hostname !== to.hostname) return `Redirected to another domain: ${toUrl}`;
+  if (localeOf(from) !== localeOf(to)) return `Redirected to another locale: ${toUrl}`;
+  if (isHomepageUrl(toUrl)) return `Redirected to homepage: ${toUrl}`;
+  if (!config.pricingPagePatterns.some((pattern) => pattern.test(toUrl))) {
+    return `Redirected away from pricing: ${toUrl}`;
+  }
+  return undefined;
+}
+
+/**
+ * A site root, optionally with a locale segment (/, /en-gb/)
+ */
+export function isHomepageUrl(url: string): boolean {
+  return /^\/([a-z]{2}(-[a-z]{2})?\/?)?$/i.test(new URL(url).pathname);
+}
+
+/**
+ * Locale path segment (/en-gb/...), if the URL has one
+ */
+function localeOf(url: URL): string | undefined {
+  return url.pathname.match(/^\/([a-z]{2}(-[a-z]{2})?)(\/|$)/i)?.[1].toLowerCase();
+}
@@ -0,0 +1,164 @@
+/**
+ * Pricing Page Runner - Loads a pricing page and runs the registered checks
+ *
+ * Check severity decides the outcome: a failed critical check fails the
+ * page and is reported as an error, a failed warning check is reported
+ * as a warning, a failed info check is only recorded.
+ */
+
+import type { Page, TestInfo } from '@playwright/test';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import config, { findDomainConfig } from '../config.js';
+import { DiscoveredUrl } from '../discovery/index.js';
+import { extractFareMatrix } from '../extraction/index.js';
+import { CheckRegistry, createDefaultRegistry } from './registry.js';
+import { resolveProfile } from './profiles.js';
+import { CheckContext, CheckResult, PricingPageResult, RedirectHop } from './types.js';
+
+let defaultRegistry: CheckRegistry | undefined;
+
+/**
+ * Test a single pricing page
+ */
+export async function testPricingPage(
+  page: Page,
+  urlInfo: DiscoveredUrl,
+  testInfo?: TestInfo,
+  registry: CheckRegistry = (defaultRegistry ??= createDefaultRegistry())
+): Promise<PricingPageResult> {
+  const startTime = Date.now();
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const checks: CheckResult[] = [];
+  let httpStatus = 0;
+  const redirectChain: RedirectHop[] = [];
+
+  // Collect JS errors
+  const pageJsErrors: string[] = [];
+  page.on('pageerror', (error) => {
+    if (error.message.includes('viking')) {
+      pageJsErrors.push(error.message);
+    }
+  });
+
+  page.on('console', (msg) => {
+    if (msg.type() === 'error') {
+      const text = msg.text();
+      if (text.includes('viking') && !text.includes('third-party')) {
+        pageJsErrors.push(`Console error: ${text}`);
+      }
+    }
+  });
+
+  try {
+    const response = await page.goto(urlInfo.url, {
+      waitUntil: 'domcontentloaded',
+      timeout: config.pageLoadTimeout,
+    });
+
+    httpStatus = response?.status() || 0;
+
+    // Server redirects, oldest first
+    for (let request = response?.request().redirectedFrom(); request; request = request.redirectedFrom()) {
+      const redirect = await request.response();
+      redirectChain.unshift({ url: request.url(), status: redirect?.status() || 0 });
+    }
+
+    const context: CheckContext = {
+      page,
+      urlInfo,
+      domain: findDomainConfig(urlInfo.domain),
+      profile: resolveProfile(urlInfo.url, urlInfo.domain),
+      httpStatus,
+      finalUrl: response?.url() || urlInfo.url,
+      redirectChain,
+      loadTimeMs: Date.now() - startTime,
+      jsErrors: pageJsErrors,
+    };
+
+    // Only run content checks if page loaded successfully
+    if (httpStatus === 200) {
+      await page.waitForLoadState('networkidle').catch(() => {});
+      context.fareMatrix = await extractFareMatrix(page, context.domain);
+    }
+
+    // Include client-side redirects that happened while the page settled
+    context.finalUrl = page.url();
+
+    for (const check of registry.forPage(urlInfo.url, urlInfo.domain)) {
+      if (check.requiresContent && httpStatus !== 200) continue;
+
+      const result: CheckResult = {
+        ...(await check.run(context)),
+        id: check.id,
+        severity: check.severity,
+      };
+      checks.push(result);
+
+      if (!result.passed) {
+        const message = check.failureMessage?.(result, context) || result.details || check.name;
+        if (check.severity === 'critical') errors.push(message);
+        if (check.severity === 'warning') warnings.push(message);
+      }
+    }
+
+    // Take screenshot if any checks failed
+    const hasFailures = checks.some((c) => !c.passed);
+    let screenshotPath: string | undefined;
+
+    if (hasFailures) {
+      const screenshotName = urlInfo.url
+        .replace(/https?:\/\//, '')
+        .replace(/[^a-zA-Z0-9]/g, '_')
+        .slice(0, 100);
+
+      screenshotPath = path.join(config.output.screenshotsDir, `${screenshotName}.png`);
+      await fsp.mkdir(config.output.screenshotsDir, { recursive: true });
+      await page.screenshot({ path: screenshotPath, fullPage: true });
+
+      // Attach screenshot to test report
+      await testInfo?.attach('screenshot', { path: screenshotPath });
+    }
+
+    // Lowest fare: from the fare grid, else the price the price check found.
+    // The source is recorded, as run-to-run deltas only compare like with like.
+    const priceCheck = checks.find((c) => c.id === 'prices' && c.passed && c.amount !== undefined);
+    const lowestFare: PricingPageResult['lowestFare'] = context.fareMatrix?.lowestFare
+      ? { ...context.fareMatrix.lowestFare, source: 'fare-grid' }
+      : priceCheck
+        ? { amount: priceCheck.amount!, currency: priceCheck.currency!, source: 'price-check' }
+        : undefined;
+
+    return {
+      url: urlInfo.url,
+      domain: urlInfo.domain,
+      passed: !checks.some((c) => c.severity === 'critical' && !c.passed),
+      loadTimeMs: Date.now() - startTime,
+      httpStatus,
+      ...(context.finalUrl !== urlInfo.url && { finalUrl: context.finalUrl, redirectChain }),
+      checks,
+      errors,
+      warnings,
+      screenshotPath,
+      fareMatrix: context.fareMatrix,
+      lowestFare,
+      testedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    errors.push(errorMsg);
+
+    return {
+      url: urlInfo.url,
+      domain: urlInfo.domain,
+      passed: false,
+      loadTimeMs: Date.now() - startTime,
+      httpStatus,
+      checks: [{ id: 'page-load', name: 'Page load', passed: false, severity: 'critical', details: errorMsg }],
+      errors,
+      warnings,
+      testedAt: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Check Profiles - Selectors and copy the content checks look for
+ *
+ * The built-in default profile holds generic rules. check-profiles.json
+ * (or a .yaml/.yml file named by config.checkProfilesFile) adds profiles for specific domains and URL patterns (river vs. ocean
+ * templates, UK/AU copy); every profile matching the page is applied on
+ * top of the default in file order, and each field it sets replaces the
+ * previous value.
+ */
+
+import * as fs from 'fs';
+import yaml from 'js-yaml';
+import config from '../config.js';
+
+export interface CheckProfile {
+  /** Panels whose visibility means pricing is unavailable */
+  unavailableSelectors: string[];
+  /** Visible text meaning no sailings or prices are available */
+  errorPhrases: string[];
+  dateSelectors: string[];
+  /** Regular expression sources, matched case-insensitively */
+  datePatterns: string[];
+  priceSelectors: string[];
+  categorySelectors: string[];
+  categoryKeywords: string[];
+  /** Button/link labels accepted as a booking CTA */
+  ctaLabels: string[];
+  /** Extra CTA selectors, tried after the labels */
+  ctaSelectors: string[];
+}
+
+export interface ProfileRule extends Partial<CheckProfile> {
+  name: string;
+  /** Hostnames the profile applies to */
+  domains?: string[];
+  /** URL regular expression sources the profile applies to */
+  urlPatterns?: string[];
+}
+
+export interface CheckProfilesFile {
+  /** Overrides for the built-in default profile */
+  default?: Partial<CheckProfile>;
+  profiles: ProfileRule[];
+}
+
+/**
+ * Resolved profile for a page, with the names of the rules that shaped it
+ */
+export interface ResolvedProfile extends CheckProfile {
+  appliedProfiles: string[];
+}
+
+export const DEFAULT_PROFILE: CheckProfile = {
+  unavailableSelectors: ['#pricing-unavailable'],
+  errorPhrases: [
+    'Based on your selections there are no available sailings',
+    'no available sailings',
+    'Please adjust your filters to see all availability',
+    'No sailings available',
+    'No departures available',
+    'Currently unavailable',
+    'No prices available',
+    'Pricing not available',
+  ],
+  dateSelectors: [
+    '[data-testid*="date"]',
+    '[class*="departure"]',
+    '[class*="date"]',
+    '.sailing-date',
+    '.departure-date',
+    'time',
+    '[datetime]',
+  ],
+  datePatterns: [
+    '\\b(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\\s+\\d{1,2}\\b',
+    '\\b\\d{1,2}\\s+(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\\b',
+    '\\b(January|February|March|April|May|June|July|August|September|October|November|December)\\s+\\d{1,2}\\b',
+    '\\d{1,2}\\/\\d{1,2}\\/\\d{2,4}',
+    '\\d{4}-\\d{2}-\\d{2}',
+  ],
+  priceSelectors: [
+    '[data-testid*="price"]',
+    '[data-testid*="fare"]',
+    '[class*="price"]',
+    '[class*="fare"]',
+    '.price',
+    '.cost',
+    '.fare',
+    '.rate',
+  ],
+  categorySelectors: [
+    '[class*="stateroom"]',
+    '[class*="cabin"]',
+    '[class*="category"]',
+    '[class*="accommodation"]',
+    '[class*="availability"]',
+    '[data-testid*="stateroom"]',
+    '[data-testid*="cabin"]',
+  ],
+  categoryKeywords: [
+    'suite', 'veranda', 'french balcony', 'nordic balcony', 'balcony',
+    'standard', 'penthouse', 'explorer', 'deluxe', 'category', 'stateroom', 'cabin',
+  ],
+  ctaLabels: ['Price', 'Build', 'Request Quote', 'Request a Quote', 'Book', 'Reserve', 'More Info'],
+  ctaSelectors: [
+    '[data-testid*="cta"]', '[class*="cta"]',
+    '[class*="book-now"]', '[class*="request-quote"]', '[class*="price-build"]',
+  ],
+};
+
+const PROFILE_FIELDS = Object.keys(DEFAULT_PROFILE) as (keyof CheckProfile)[];
+
+let cachedProfiles: CheckProfilesFile | undefined;
+
+/**
+ * Load and validate a profiles file, JSON or YAML by its extension. A
+ * missing file means no extra profiles.
+ */
+export function loadCheckProfiles(filePath: string = config.checkProfilesFile): CheckProfilesFile {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return { profiles: [] };
+  }
+
+  const isYaml = /\.ya?ml$/i.test(filePath);
+  let parsed: unknown;
+  try {
+    parsed = isYaml ? yaml.load(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Check profiles file ${filePath} is not valid ${isYaml ? 'YAML' : 'JSON'}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  return validateProfiles(parsed, filePath);
+}
+
+/**
+ * Resolve the profile for a page: default, then every matching rule in order
+ */
+export function resolveProfile(
+  url: string,
+  hostname: string,
+  profiles: CheckProfilesFile = (cachedProfiles ??= loadCheckProfiles())
+): ResolvedProfile {
+  const resolved: ResolvedProfile = { ...DEFAULT_PROFILE, ...profiles.default, appliedProfiles: [] };
+
+  for (const rule of profiles.profiles) {
+    const domainMatches = !rule.domains || rule.domains.includes(hostname);
+    const urlMatches = !rule.urlPatterns || rule.urlPatterns.some((p) => new RegExp(p, 'i').test(url));
+    if (!domainMatches || !urlMatches) continue;
+
+    for (const field of PROFILE_FIELDS) {
+      if (rule[field]) resolved[field] = rule[field]!;
+    }
+    resolved.appliedProfiles.push(rule.name);
+  }
+
+  return resolved;
+}
+
+/**
+ * Check the shape of a parsed profiles file, naming the offending entry on error
+ */
+function validateProfiles(parsed: unknown, filePath: string): CheckProfilesFile {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid check profiles file ${filePath}: ${message}`);
+  };
+
+  if (!parsed || typeof parsed !== 'object') fail('expected an object');
+  const file = parsed as Partial<CheckProfilesFile>;
+
+  if (!Array.isArray(file.profiles)) fail('"profiles" must be an array');
+
+  const checkFields = (entry: Record<string, unknown>, where: string, matchFields: string[] = []) => {
+    for (const [key, value] of Object.entries(entry)) {
+      if (key === 'name' && matchFields.length > 0) continue;
+      if (!PROFILE_FIELDS.includes(key as keyof CheckProfile) && !matchFields.includes(key)) {
+        fail(`${where} has unknown field "${key}" (expected one of ${[...matchFields, ...PROFILE_FIELDS].join(', ')})`);
+      }
+      if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+        fail(`${where}.${key} must be an array of strings`);
+      }
+    }
+  };
+
+  if (file.default !== undefined) {
+    checkFields(file.default as Record<string, unknown>, 'default');
+  }
+
+  file.profiles!.forEach((rule, i) => {
+    const where = `profiles[${i}]`;
+    if (!rule || typeof rule.name !== 'string') fail(`${where} needs a "name"`);
+    if (!rule.domains && !rule.urlPatterns) fail(`${where} ("${rule.name}") needs "domains" or "urlPatterns"`);
+    checkFields(rule as unknown as Record<string, unknown>, where, ['domains', 'urlPatterns']);
+
+    for (const pattern of [...(rule.urlPatterns || []), ...(rule.datePatterns || [])]) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        fail(`${where} ("${rule.name}") has an invalid regular expression: ${pattern}`);
+      }
+    }
+  });
+
+  return file as CheckProfilesFile;
+}
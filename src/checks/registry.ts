@@ -0,0 +1,179 @@
+/**
+ * Check Registry - Decides which checks run on a page and how they count
+ *
+ * Handles:
+ * - Registering the built-in checks and checks from extra modules
+ * - Disabling checks and overriding severity/applicability from config
+ * - Selecting the checks that apply to a given URL and domain
+ */
+
+import * as path from 'path';
+import config, { VikingConfig } from '../config.js';
+import { CheckSeverity, PricingCheck } from './types.js';
+import { httpStatusCheck, redirectCheck, loadTimeCheck, jsErrorsCheck } from './page-checks.js';
+import {
+  errorMessagesCheck,
+  departureDatesCheck,
+  pricesCheck,
+  stateroomsCheck,
+  bookingCtaCheck,
+  fareGridCheck,
+} from './content-checks.js';
+
+const CHECK_SEVERITIES: CheckSeverity[] = ['critical', 'warning', 'info'];
+
+/**
+ * Built-in checks, in the order they run
+ */
+export const BUILTIN_CHECKS: PricingCheck[] = [
+  httpStatusCheck,
+  redirectCheck,
+  loadTimeCheck,
+  errorMessagesCheck,
+  departureDatesCheck,
+  pricesCheck,
+  stateroomsCheck,
+  bookingCtaCheck,
+  fareGridCheck,
+  jsErrorsCheck,
+];
+
+export class CheckRegistry {
+  private checks: Map<string, PricingCheck> = new Map();
+
+  /**
+   * Add a check; ids must be unique
+   */
+  register(check: PricingCheck): this {
+    if (this.checks.has(check.id)) {
+      throw new Error(`Check "${check.id}" is already registered`);
+    }
+    this.checks.set(check.id, check);
+    return this;
+  }
+
+  /**
+   * Remove a check, e.g. when disabled from config
+   */
+  unregister(id: string): boolean {
+    return this.checks.delete(id);
+  }
+
+  get(id: string): PricingCheck | undefined {
+    return this.checks.get(id);
+  }
+
+  /**
+   * All registered checks, in registration order
+   */
+  list(): PricingCheck[] {
+    return Array.from(this.checks.values());
+  }
+
+  /**
+   * Checks that apply to a URL on the given hostname
+   */
+  forPage(url: string, hostname: string): PricingCheck[] {
+    return this.list().filter(
+      (check) =>
+        (!check.domains || check.domains.includes(hostname)) &&
+        (!check.urlPatterns || check.urlPatterns.some((pattern) => pattern.test(url)))
+    );
+  }
+
+  /**
+   * Apply the disabled list and per-check overrides from config
+   */
+  applyConfig(checksConfig: VikingConfig['checks']): this {
+    for (const id of checksConfig.disabled) {
+      this.unregister(id);
+    }
+
+    for (const [id, override] of Object.entries(checksConfig.overrides)) {
+      const check = this.checks.get(id);
+      if (!check) {
+        console.warn(`⚠️  Override for unknown check "${id}" ignored`);
+        continue;
+      }
+      this.checks.set(id, { ...check, ...override });
+    }
+
+    return this;
+  }
+}
+
+/**
+ * Build the registry used by the pricing spec: built-ins, extra modules,
+ * then config overrides
+ */
+export function createDefaultRegistry(checksConfig: VikingConfig['checks'] = config.checks): CheckRegistry {
+  const registry = new CheckRegistry();
+
+  for (const check of BUILTIN_CHECKS) {
+    registry.register(check);
+  }
+
+  for (const modulePath of checksConfig.modules) {
+    for (const check of loadCheckModule(modulePath)) {
+      registry.register(check);
+    }
+  }
+
+  return registry.applyConfig(checksConfig);
+}
+
+/**
+ * Load checks from a module whose default export is a check or an array of checks
+ */
+function loadCheckModule(modulePath: string): PricingCheck[] {
+  const loaded: unknown = require(path.resolve(modulePath));
+  const exported = isObject(loaded) && 'default' in loaded ? loaded.default : loaded;
+  const checks: unknown[] = Array.isArray(exported) ? exported : [exported];
+
+  return checks.map((check, i) => {
+    const problem = checkShapeProblem(check);
+    if (problem) {
+      const which = Array.isArray(exported) ? ` (check ${i + 1})` : '';
+      throw new Error(`Check module ${modulePath} must export a PricingCheck or PricingCheck[]${which}: ${problem}`);
+    }
+    return check as PricingCheck;
+  });
+}
+
+/**
+ * What keeps a value from being a PricingCheck, or null if nothing does
+ */
+function checkShapeProblem(value: unknown): string | null {
+  if (!isObject(value)) {
+    return `got ${value === null ? 'null' : typeof value}`;
+  }
+  if (typeof value.id !== 'string' || value.id === '') {
+    return 'id must be a non-empty string';
+  }
+  if (typeof value.name !== 'string') {
+    return `"${value.id}": name must be a string`;
+  }
+  if (!CHECK_SEVERITIES.includes(value.severity as CheckSeverity)) {
+    return `"${value.id}": severity must be one of ${CHECK_SEVERITIES.join(', ')}`;
+  }
+  if (typeof value.requiresContent !== 'boolean') {
+    return `"${value.id}": requiresContent must be a boolean`;
+  }
+  if (typeof value.run !== 'function') {
+    return `"${value.id}": run must be a function`;
+  }
+  if (value.failureMessage !== undefined && typeof value.failureMessage !== 'function') {
+    return `"${value.id}": failureMessage must be a function`;
+  }
+  if (value.domains !== undefined && !(Array.isArray(value.domains) && value.domains.every((d) => typeof d === 'string'))) {
+    return `"${value.id}": domains must be an array of hostnames`;
+  }
+  if (value.urlPatterns !== undefined && !(Array.isArray(value.urlPatterns) && value.urlPatterns.every((p) => p instanceof RegExp))) {
+    return `"${value.id}": urlPatterns must be an array of RegExp`;
+  }
+  return null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
@@ -0,0 +1,173 @@
+/**
+ * Run Check URL - The `viking-monitor check-url` command
+ *
+ * Diagnoses one pricing page: runs the checks the pricing spec runs, in a
+ * browser launched here rather than by Playwright Test, and prints every
+ * check with the selector and text it matched. The URL does not have to
+ * be in the manifest.
+ *
+ * Saves a full-page screenshot, the rendered HTML, a Playwright trace and
+ * the result as JSON to config.output.diagnosticsDir, passed or not. The
+ * screenshot, HTML and trace are saved even when the check run throws.
+ *
+ * Usage:
+ *   npm run monitor -- check-url https://www.vikingcruises.com/oceans/cruise-destinations/caribbean/western-caribbean/pricing.html
+ *   npm run monitor -- check-url <url> --headed
+ *   npm run monitor -- check-url <url> --locale=en-GB --viewport=390x844
+ */
+
+import { chromium, devices } from '@playwright/test';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import config from '../config.js';
+import { ManifestManager, parseUrlMetadata, type DiscoveredUrl } from '../discovery/index.js';
+import { testPricingPage } from './pricing-page.js';
+import type { CheckResult, PricingPageResult } from './types.js';
+
+export interface CheckUrlOptions {
+  /** Show the browser window */
+  headed?: boolean;
+  /** Browser locale, e.g. en-GB (Accept-Language, navigator.language) */
+  locale?: string;
+  viewport?: { width: number; height: number };
+  /** Where to save the artifacts (default: a new directory in config.output.diagnosticsDir) */
+  outputDir?: string;
+}
+
+export interface CheckUrlArtifacts {
+  screenshot: string;
+  html: string;
+  trace: string;
+  result: string;
+}
+
+const SEVERITY_MARKERS: Record<string, string> = {
+  critical: '❌',
+  warning: '⚠️ ',
+  info: 'ℹ️ ',
+};
+
+export async function runCheckUrl(url: string, options: CheckUrlOptions = {}): Promise<PricingPageResult> {
+  const urlInfo = await discoveredUrlFor(url);
+  const outputDir = options.outputDir || path.join(config.output.diagnosticsDir, diagnosisName(url));
+  const artifacts: CheckUrlArtifacts = {
+    screenshot: path.join(outputDir, 'screenshot.png'),
+    html: path.join(outputDir, 'page.html'),
+    trace: path.join(outputDir, 'trace.zip'),
+    result: path.join(outputDir, 'result.json'),
+  };
+
+  const viewport = options.viewport || config.playwright.viewport;
+  console.log(`🔍 Checking ${urlInfo.url}`);
+  console.log(`   ${viewport.width}x${viewport.height}${options.locale ? `, locale ${options.locale}` : ''}\n`);
+
+  await fs.mkdir(outputDir, { recursive: true });
+  const browser = await chromium.launch({ headless: !options.headed });
+  try {
+    const context = await browser.newContext({
+      ...devices['Desktop Chrome'],
+      viewport,
+      ...(options.locale && { locale: options.locale }),
+    });
+    await context.tracing.start({ screenshots: true, snapshots: true });
+    const page = await context.newPage();
+    page.setDefaultTimeout(config.playwright.actionTimeout);
+
+    let result: PricingPageResult | undefined;
+    try {
+      result = await testPricingPage(page, urlInfo);
+    } finally {
+      // The page is whatever the browser ended up showing, even after a failed
+      // load or a check that threw
+      await page.screenshot({ path: artifacts.screenshot, fullPage: true }).catch(() => {});
+      await fs.writeFile(artifacts.html, await page.content().catch(() => ''), 'utf-8');
+      await context.tracing.stop({ path: artifacts.trace });
+      if (!result) {
+        printArtifacts({ ...artifacts, result: undefined });
+      }
+    }
+    await fs.writeFile(artifacts.result, JSON.stringify(result, null, 2), 'utf-8');
+
+    printResult(result);
+    printArtifacts(artifacts);
+    return result;
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * The manifest entry for the URL, so the page is tested as the spec would;
+ * a URL the manifest doesn't have is tested as a sitemap URL
+ */
+async function discoveredUrlFor(url: string): Promise<DiscoveredUrl> {
+  const manifestManager = new ManifestManager();
+  if (await manifestManager.manifestExists()) {
+    const entry = (await manifestManager.loadManifest()).urls.find((u) => u.url === url);
+    if (entry) return entry;
+  }
+
+  return {
+    url,
+    source: 'sitemap',
+    domain: new URL(url).hostname,
+    discoveredAt: new Date().toISOString(),
+    metadata: parseUrlMetadata(url),
+  };
+}
+
+/**
+ * Directory name for one diagnosis: the page and when it was checked
+ */
+function diagnosisName(url: string): string {
+  const { hostname, pathname } = new URL(url);
+  const page = `${hostname.replace(/^www\./, '')}${pathname.replace(/\/pricing(\.html)?$/, '')}`
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .slice(0, 80);
+  const time = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  return `${page}-${time}`;
+}
+
+function printResult(result: PricingPageResult): void {
+  const redirect = result.finalUrl ? ` → ${result.finalUrl}` : '';
+  console.log(`   HTTP ${result.httpStatus || 'no response'} in ${result.loadTimeMs}ms${redirect}`);
+  for (const hop of result.redirectChain || []) {
+    console.log(`      ${hop.status} ${hop.url}`);
+  }
+  console.log('');
+
+  for (const check of result.checks) {
+    console.log(`   ${markerFor(check)} ${check.name} [${check.severity || 'critical'}]${check.details ? `: ${check.details}` : ''}`);
+    if (check.selector) {
+      console.log(`        selector: ${check.selector}`);
+    }
+    if (check.matchedText) {
+      console.log(`        matched:  "${check.matchedText.replace(/\s+/g, ' ').slice(0, 120)}"`);
+    }
+  }
+
+  console.log(`\n${result.passed ? '✅ PASSED' : '❌ FAILED (critical checks failed)'}`);
+  for (const error of result.errors) {
+    console.log(`   Error: ${error}`);
+  }
+  for (const warning of result.warnings) {
+    console.log(`   Warning: ${warning}`);
+  }
+}
+
+/**
+ * List the saved artifacts; there is no result when the check run threw
+ */
+function printArtifacts(artifacts: Omit<CheckUrlArtifacts, 'result'> & { result?: string }): void {
+  console.log('\n📁 Saved:');
+  console.log(`   Screenshot: ${artifacts.screenshot}`);
+  console.log(`   HTML:       ${artifacts.html}`);
+  if (artifacts.result) {
+    console.log(`   Result:     ${artifacts.result}`);
+  }
+  console.log(`   Trace:      ${artifacts.trace} (npx playwright show-trace ${artifacts.trace})`);
+}
+
+function markerFor(check: CheckResult): string {
+  return check.passed ? '✅' : SEVERITY_MARKERS[check.severity || 'critical'];
+}
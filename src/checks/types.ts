@@ -0,0 +1,102 @@
+/**
+ * Check Types - Contracts shared by the pricing page checks
+ */
+
+import type { Page } from '@playwright/test';
+import type { CurrencyCode, DomainConfig } from '../config.js';
+import type { DiscoveredUrl } from '../discovery/index.js';
+import type { FareMatrix } from '../extraction/index.js';
+import type { ResolvedProfile } from './profiles.js';
+
+/**
+ * critical: a failure fails the page and is reported as an error
+ * warning:  a failure is reported as a warning only
+ * info:     recorded in the results, never reported
+ */
+export type CheckSeverity = 'critical' | 'warning' | 'info';
+
+/** Where a page's lowest fare was read: the fare grid, or the price check's price */
+export type FareSource = 'fare-grid' | 'price-check';
+
+export interface CheckResult {
+  /** Registry id of the check that produced this result */
+  id?: string;
+  name: string;
+  passed: boolean;
+  severity?: CheckSeverity;
+  details?: string;
+  /** Currency detected by the price check */
+  currency?: CurrencyCode;
+  /** Price found by the price check */
+  amount?: number;
+  /** Selector of the element the check matched, when it matched one */
+  selector?: string;
+  /** Text the check matched on the page: the price, date, phrase or label */
+  matchedText?: string;
+}
+
+/**
+ * One redirect on the way to the page that was finally loaded
+ */
+export interface RedirectHop {
+  /** URL that answered with a redirect */
+  url: string;
+  status: number;
+}
+
+/**
+ * Everything a check may need to know about the page under test
+ */
+export interface CheckContext {
+  page: Page;
+  urlInfo: DiscoveredUrl;
+  /** Configured domain for the page, if it is one we know */
+  domain?: DomainConfig;
+  /** Selectors and copy for this page's domain and template */
+  profile: ResolvedProfile;
+  httpStatus: number;
+  /** URL the browser ended up on (after server and client-side redirects) */
+  finalUrl: string;
+  /** Server redirects followed from urlInfo.url, in order */
+  redirectChain: RedirectHop[];
+  loadTimeMs: number;
+  /** JS errors from viking domains, collected while the page was open */
+  jsErrors: string[];
+  /** Fare grid scraped from the page (content checks only) */
+  fareMatrix?: FareMatrix;
+}
+
+export interface PricingCheck {
+  /** Stable identifier used in config overrides, e.g. "prices" */
+  id: string;
+  /** Display name written to results, e.g. "Valid prices present" */
+  name: string;
+  severity: CheckSeverity;
+  /** Run only after the page returned HTTP 200 */
+  requiresContent: boolean;
+  /** Hostnames the check applies to (all when omitted) */
+  domains?: string[];
+  /** URL patterns the check applies to (all when omitted) */
+  urlPatterns?: RegExp[];
+  run(context: CheckContext): Promise<CheckResult>;
+  /** Message reported as error/warning when the check fails (defaults to details) */
+  failureMessage?(result: CheckResult, context: CheckContext): string;
+}
+
+export interface PricingPageResult {
+  url: string;
+  domain: string;
+  passed: boolean;
+  loadTimeMs: number;
+  httpStatus: number;
+  /** Set when the page redirected, or ended up on another URL */
+  finalUrl?: string;
+  redirectChain?: RedirectHop[];
+  checks: CheckResult[];
+  errors: string[];
+  warnings: string[];
+  screenshotPath?: string;
+  fareMatrix?: FareMatrix;
+  lowestFare?: { amount: number; currency: CurrencyCode; source: FareSource };
+  testedAt: string;
+}
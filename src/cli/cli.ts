@@ -0,0 +1,509 @@
+/**
+ * Monitor CLI - The viking-monitor command
+ *
+ * Handles:
+ * - One subcommand per task (discover, preflight, check, check-url,
+ *   report, notify, diff, merge-results, config), so CI and people at a
+ *   terminal run the same code
+ * - Argument parsing and validation, with --help for the CLI and for
+ *   each command
+ * - Exit codes: 0 success, 1 failures found (failed pages, a critical
+ *   check failing in check-url) or the command failed, 2 bad usage
+ *
+ * Every command accepts --config and --set (with = or a separate value).
+ * They are applied to the config once the command line is parsed, so an
+ * invalid value is bad usage like any other.
+ */
+
+import { parseArgs } from 'util';
+import config, { assertConfigLoaded, reloadConfig, selectionFromEnv } from '../config.js';
+import { serializeConfig } from '../config-loader.js';
+import { runCheckUrl } from '../checks/run-check-url.js';
+import { runDiscovery } from '../discovery/run-discovery.js';
+import { runDiff } from '../history/run-diff.js';
+import { runPreflight } from '../preflight/run-preflight.js';
+import { runMerge } from '../selection/run-merge-results.js';
+import { runSelectedTests, SELECTION_FLAGS, type SelectionFlag } from '../selection/run-select.js';
+import { Reporter } from '../utils/reporter.js';
+
+export const CLI_NAME = 'viking-monitor';
+
+export const EXIT_CODES = {
+  ok: 0,
+  failed: 1,
+  usage: 2,
+} as const;
+
+interface CommandOption {
+  type: 'string' | 'boolean';
+  multiple?: boolean;
+  short?: string;
+  /** Placeholder shown in the help, e.g. --max-pages=<n> */
+  value?: string;
+  description: string;
+}
+
+type OptionValues = Record<string, string | boolean | (string | boolean)[] | undefined>;
+
+interface CommandInput {
+  options: OptionValues;
+  /** Positional arguments */
+  args: string[];
+  /** Arguments after `--` */
+  passThrough: string[];
+}
+
+interface Command {
+  description: string;
+  /** Positional arguments shown in the help, e.g. <url> */
+  args?: string;
+  /** What arguments after `--` are for; commands without it reject them */
+  passThrough?: string;
+  options: Record<string, CommandOption>;
+  examples: string[];
+  run(input: CommandInput): Promise<number>;
+}
+
+/**
+ * Bad arguments: reported with the command's help, exit code 2
+ */
+class UsageError extends Error {}
+
+const GLOBAL_OPTIONS: Record<string, CommandOption> = {
+  config: { type: 'string', value: '<path>', description: 'Config file (default: viking-monitor.config.json/.yaml)' },
+  set: { type: 'string', multiple: true, value: '<path=value>', description: 'Override one config field (repeatable)' },
+  help: { type: 'boolean', short: 'h', description: 'Show this help' },
+};
+
+const RESULTS_OPTION: CommandOption = {
+  type: 'string',
+  value: '<path>',
+  description: `Results file (default: ${config.output.resultsJson})`,
+};
+
+/** Notification channel fields holding credentials, masked by the config command */
+const SECRET_FIELDS = ['webhookUrl', 'botToken', 'url', 'password', 'routingKey'];
+
+const COMMANDS: Record<string, Command> = {
+  discover: {
+    description: 'Find the pricing URLs in the sitemaps (and optionally by crawling links) and write the manifest',
+    options: {
+      'include-link-crawl': { type: 'boolean', description: 'Also crawl links from every enabled domain' },
+      'max-pages': { type: 'string', value: '<n>', description: 'Pages the link crawl may visit (default: 100)' },
+      concurrency: { type: 'string', value: '<n>', description: `Pages crawled at once (default: ${config.linkCrawl.concurrency})` },
+      'max-pages-per-seed': {
+        type: 'string',
+        value: '<n>',
+        description: `Pages the crawl may visit from one seed (default: ${config.linkCrawl.maxPagesPerSeed})`,
+      },
+      'fresh-crawl': { type: 'boolean', description: 'Start the crawl over instead of resuming a saved one' },
+      'fail-on-domain-loss': { type: 'boolean', description: 'Fail when a domain loses too many URLs' },
+      'warn-on-domain-loss': { type: 'boolean', description: 'Only warn when a domain loses too many URLs' },
+    },
+    examples: ['discover', 'discover --include-link-crawl --max-pages=300 --concurrency=6'],
+    async run({ options }) {
+      if (options['fail-on-domain-loss'] && options['warn-on-domain-loss']) {
+        throw new UsageError('Use either --fail-on-domain-loss or --warn-on-domain-loss, not both');
+      }
+
+      await runDiscovery({
+        includeLinkCrawl: flag(options, 'include-link-crawl'),
+        maxLinkCrawlPages: positiveInt(options, 'max-pages', 100),
+        linkCrawlConcurrency: positiveInt(options, 'concurrency', config.linkCrawl.concurrency),
+        maxLinkCrawlPagesPerSeed: positiveInt(options, 'max-pages-per-seed', config.linkCrawl.maxPagesPerSeed),
+        resumeLinkCrawl: !flag(options, 'fresh-crawl'),
+        failOnDomainLoss: flag(options, 'fail-on-domain-loss') || (!flag(options, 'warn-on-domain-loss') && config.manifestDiff.failOnDomainLoss),
+      });
+      return EXIT_CODES.ok;
+    },
+  },
+
+  preflight: {
+    description: 'Check every manifest URL over HTTP and write the pre-flight report',
+    options: {},
+    examples: ['preflight'],
+    async run() {
+      await runPreflight();
+      return EXIT_CODES.ok;
+    },
+  },
+
+  check: {
+    description: 'Run the pricing page tests on the manifest, or on the URLs selected by the filters',
+    passThrough: 'playwright test arguments, e.g. -- --workers=4 --headed',
+    options: {
+      domain: { type: 'string', value: '<hosts>', description: 'Only these domains (comma-separated)' },
+      url: { type: 'string', value: '<regexp>', description: 'Only URLs matching the pattern' },
+      source: { type: 'string', value: '<sitemap|crawl>', description: 'Only URLs discovered this way' },
+      'cruise-type': { type: 'string', value: '<types>', description: 'Only ocean, river and/or expedition pages' },
+      failed: { type: 'boolean', description: 'Only the URLs that failed in the last recorded run' },
+      sample: { type: 'string', value: '<n>', description: 'A seeded random sample of n URLs' },
+      seed: { type: 'string', value: '<seed>', description: 'Sample seed (default: today)' },
+      shard: { type: 'string', value: '<i/n>', description: "One CI machine's share of the URLs" },
+      preflight: { type: 'boolean', description: 'Run the pre-flight first, so dead URLs skip the browser' },
+    },
+    examples: ['check', 'check --domain=vikingcruises.co.uk --cruise-type=ocean', 'check --shard=2/4 -- --workers=4'],
+    async run({ options, passThrough }) {
+      const filters: Partial<Record<SelectionFlag, string>> = {};
+      for (const name of Object.keys(SELECTION_FLAGS) as SelectionFlag[]) {
+        filters[name] = text(options, name);
+      }
+
+      // Reject bad filters here rather than in every Playwright worker
+      try {
+        selectionFromEnv(
+          Object.fromEntries(Object.entries(filters).map(([name, value]) => [SELECTION_FLAGS[name as SelectionFlag], value]))
+        );
+      } catch (error) {
+        const message = Object.entries(SELECTION_FLAGS).reduce(
+          (text, [name, variable]) => text.replace(variable, `--${name}`),
+          (error as Error).message
+        );
+        throw new UsageError(message);
+      }
+
+      if (flag(options, 'preflight')) {
+        await runPreflight();
+        console.log('');
+      }
+
+      const status = runSelectedTests({
+        filters,
+        failed: flag(options, 'failed'),
+        configFile: text(options, 'config'),
+        overrides: texts(options, 'set'),
+        playwrightArgs: passThrough,
+      });
+      return status === 0 ? EXIT_CODES.ok : EXIT_CODES.failed;
+    },
+  },
+
+  'check-url': {
+    description: 'Diagnose one pricing page: run the full check set, print what every check matched, save screenshot, HTML and trace',
+    args: '<url>',
+    options: {
+      headed: { type: 'boolean', description: 'Show the browser window' },
+      locale: { type: 'string', value: '<locale>', description: 'Browser locale, e.g. en-GB' },
+      viewport: {
+        type: 'string',
+        value: '<WxH>',
+        description: `Viewport size (default: ${config.playwright.viewport.width}x${config.playwright.viewport.height})`,
+      },
+      out: { type: 'string', value: '<dir>', description: `Where to save the artifacts (default: a new directory in ${config.output.diagnosticsDir}/)` },
+    },
+    examples: [
+      'check-url https://www.vikingcruises.com/oceans/cruise-destinations/caribbean/western-caribbean/pricing.html',
+      'check-url https://www.vikingcruises.co.uk/oceans/cruise-destinations/iceland/iceland-circumnavigation/pricing.html --headed',
+      'check-url https://www.vikingrivercruises.com/cruise-destinations/europe/rhine-getaway/pricing.html --locale=de-DE --viewport=390x844',
+    ],
+    async run({ options, args }) {
+      const [url] = expectArgs(args, 1, 1, 'Pass the URL to check');
+      if (!/^https?:\/\/[^/]/.test(url)) {
+        throw new UsageError(`Not an http(s) URL: ${url}`);
+      }
+
+      const locale = text(options, 'locale');
+      if (locale !== undefined && !/^[a-z]{2}(-[A-Za-z]{2})?$/.test(locale)) {
+        throw new UsageError(`--locale must look like en-GB (got "${locale}")`);
+      }
+
+      const result = await runCheckUrl(url, {
+        headed: flag(options, 'headed'),
+        locale,
+        viewport: viewportSize(options, 'viewport'),
+        outputDir: text(options, 'out'),
+      });
+      return result.passed ? EXIT_CODES.ok : EXIT_CODES.failed;
+    },
+  },
+
+  report: {
+    description: 'Print the summary of the last test run',
+    options: {
+      format: { type: 'string', value: '<text|markdown|json>', description: 'Output format (default: text)' },
+      results: RESULTS_OPTION,
+    },
+    examples: ['report', 'report --format=markdown >> "$GITHUB_STEP_SUMMARY"'],
+    async run({ options }) {
+      const format = oneOf(options, 'format', ['text', 'markdown', 'json'], 'text');
+      const reporter = new Reporter();
+      const summary = await reporter.readJsonReport(text(options, 'results'));
+
+      if (format === 'json') {
+        console.log(JSON.stringify(summary, null, 2));
+      } else if (format === 'markdown') {
+        process.stdout.write(reporter.formatMarkdownSummary(summary));
+      } else {
+        reporter.printSummary(summary);
+      }
+      return EXIT_CODES.ok;
+    },
+  },
+
+  notify: {
+    description: 'Send the summary of the last test run to the configured channels (Slack, Teams, webhook, email, PagerDuty)',
+    options: {
+      results: RESULTS_OPTION,
+      channel: {
+        type: 'string',
+        multiple: true,
+        value: '<name>',
+        description: 'Notify only this channel, e.g. slack or pagerduty (repeatable; default: every configured channel)',
+      },
+      quiet: { type: 'boolean', description: 'Stay quiet when nothing changed since the previous run' },
+      'dry-run': { type: 'boolean', description: 'Print the payloads instead of sending them' },
+    },
+    examples: ['notify', 'notify --quiet', 'notify --channel=teams --dry-run'],
+    async run({ options }) {
+      const reporter = new Reporter();
+      const channels = texts(options, 'channel');
+      const unknown = channels.filter((c) => !reporter.channelNames().includes(c));
+      if (unknown.length > 0) {
+        throw new UsageError(`Unknown channel "${unknown[0]}" (expected one of ${reporter.channelNames().join(', ')})`);
+      }
+
+      const summary = await reporter.readJsonReport(text(options, 'results'));
+      const sent = await reporter.notify(summary, {
+        quiet: flag(options, 'quiet') || undefined,
+        dryRun: flag(options, 'dry-run'),
+        ...(channels.length > 0 && { channels }),
+      });
+      return sent ? EXIT_CODES.ok : EXIT_CODES.failed;
+    },
+  },
+
+  diff: {
+    description: 'Show newly failing, recovered and persistently failing URLs vs. the previous run',
+    options: {
+      json: { type: 'boolean', description: 'Print the raw diff as JSON' },
+    },
+    examples: ['diff', 'diff --json'],
+    async run({ options }) {
+      await runDiff(flag(options, 'json'));
+      return EXIT_CODES.ok;
+    },
+  },
+
+  'merge-results': {
+    description: 'Merge the results.json of every shard of a run and record the run in the history',
+    args: '<results.json>...',
+    options: {
+      'allow-partial': { type: 'boolean', description: 'Merge even when shards are missing' },
+    },
+    examples: ['merge-results shard-1/results.json shard-2/results.json'],
+    async run({ options, args }) {
+      await runMerge(expectArgs(args, 1, Infinity, 'Pass the results.json of every shard'), flag(options, 'allow-partial'));
+      return EXIT_CODES.ok;
+    },
+  },
+
+  config: {
+    description: 'Print the resolved configuration (defaults, config file and overrides applied)',
+    options: {},
+    examples: ['config', 'config --config=ci.config.yaml --set=http.maxRetries=5'],
+    async run() {
+      console.log(JSON.stringify(withoutSecrets(serializeConfig(config)), null, 2));
+      return EXIT_CODES.ok;
+    },
+  },
+};
+
+/**
+ * Run a command line (without the node and script arguments); resolves
+ * to the exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+
+  if (name === undefined) {
+    console.error(cliHelp());
+    return EXIT_CODES.usage;
+  }
+  if (name === '--help' || name === '-h' || name === 'help') {
+    const topic = name === 'help' ? rest[0] : undefined;
+    console.log(topic && COMMANDS[topic] ? commandHelp(topic) : cliHelp());
+    return EXIT_CODES.ok;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    console.error(`❌ Unknown command "${name}"\n\n${cliHelp()}`);
+    return EXIT_CODES.usage;
+  }
+
+  try {
+    const input = parseCommandArgs(command, rest);
+    if (input.options.help) {
+      console.log(commandHelp(name));
+      return EXIT_CODES.ok;
+    }
+    applyConfigOptions(input.options);
+    return await command.run(input);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}\n\n${commandHelp(name)}`);
+      return EXIT_CODES.usage;
+    }
+    console.error(`\n❌ ${name} failed:`, error instanceof Error ? error.message : error);
+    return EXIT_CODES.failed;
+  }
+}
+
+function parseCommandArgs(command: Command, argv: string[]): CommandInput {
+  const separator = argv.indexOf('--');
+  const passThrough = separator >= 0 ? argv.slice(separator + 1) : [];
+  if (passThrough.length > 0 && !command.passThrough) {
+    throw new UsageError(`Unexpected arguments after --: ${passThrough.join(' ')}`);
+  }
+
+  const options = { ...command.options, ...GLOBAL_OPTIONS };
+  try {
+    const { values, positionals } = parseArgs({
+      args: separator >= 0 ? argv.slice(0, separator) : argv,
+      options: Object.fromEntries(
+        Object.entries(options).map(([name, { type, multiple, short }]) => [
+          name,
+          { type, ...(multiple && { multiple }), ...(short && { short }) },
+        ])
+      ),
+      allowPositionals: true,
+      strict: true,
+    });
+
+    if (positionals.length > 0 && !command.args) {
+      throw new UsageError(`Unexpected argument: ${positionals[0]}`);
+    }
+    return { options: values, args: positionals, passThrough };
+  } catch (error) {
+    // parseArgs rejects unknown options and missing values with a TypeError
+    throw error instanceof TypeError ? new UsageError(error.message) : error;
+  }
+}
+
+/**
+ * Apply --config and --set to the config. Errors in them, or in the config
+ * file or env the config loaded with, are bad usage.
+ */
+function applyConfigOptions(options: OptionValues): void {
+  const configFile = text(options, 'config');
+  const overrides = texts(options, 'set');
+
+  try {
+    if (configFile || overrides.length > 0) {
+      reloadConfig({ configFile, overrides });
+    } else {
+      assertConfigLoaded();
+    }
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function cliHelp(): string {
+  const width = Math.max(...Object.keys(COMMANDS).map((name) => name.length)) + 2;
+  return [
+    `Usage: ${CLI_NAME} <command> [options]`,
+    '',
+    'Commands:',
+    ...Object.entries(COMMANDS).map(([name, command]) => `  ${name.padEnd(width)}${command.description}`),
+    '',
+    `Run \`${CLI_NAME} <command> --help\` for the options of a command.`,
+    '',
+    'Exit codes: 0 success, 1 failures found or the command failed, 2 bad usage',
+  ].join('\n');
+}
+
+function commandHelp(name: string): string {
+  const command = COMMANDS[name];
+  const flags = Object.entries({ ...command.options, ...GLOBAL_OPTIONS }).map(([option, spec]) => [
+    `${spec.short ? `-${spec.short}, ` : ''}--${option}${spec.value ? `=${spec.value}` : ''}`,
+    spec.description,
+  ]);
+  const width = Math.max(...flags.map(([usage]) => usage.length)) + 2;
+  const usage = [CLI_NAME, name, command.args, '[options]', command.passThrough && '[-- args]'].filter(Boolean).join(' ');
+
+  return [
+    `Usage: ${usage}`,
+    '',
+    command.description,
+    '',
+    'Options:',
+    ...flags.map(([flagUsage, description]) => `  ${flagUsage.padEnd(width)}${description}`),
+    ...(command.passThrough ? ['', `After --: ${command.passThrough}`] : []),
+    '',
+    'Examples:',
+    ...command.examples.map((example) => `  ${CLI_NAME} ${example}`),
+  ].join('\n');
+}
+
+function flag(options: OptionValues, name: string): boolean {
+  return options[name] === true;
+}
+
+function text(options: OptionValues, name: string): string | undefined {
+  const value = options[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function texts(options: OptionValues, name: string): string[] {
+  const value = options[name];
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function positiveInt(options: OptionValues, name: string, fallback: number): number {
+  const value = text(options, name);
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new UsageError(`--${name} must be a positive integer (got "${value}")`);
+  }
+  return parsed;
+}
+
+function viewportSize(options: OptionValues, name: string): { width: number; height: number } | undefined {
+  const value = text(options, name);
+  if (value === undefined) return undefined;
+
+  const match = value.match(/^(\d+)x(\d+)$/);
+  if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) {
+    throw new UsageError(`--${name} must look like 1280x720 (got "${value}")`);
+  }
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
+
+function oneOf<T extends string>(options: OptionValues, name: string, allowed: readonly T[], fallback: T): T {
+  const value = text(options, name) ?? fallback;
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of ${allowed.join(', ')} (got "${value}")`);
+  }
+  return value as T;
+}
+
+function expectArgs(args: string[], min: number, max: number, message: string): string[] {
+  if (args.length < min) {
+    throw new UsageError(message);
+  }
+  if (args.length > max) {
+    throw new UsageError(`Unexpected argument: ${args[max]}`);
+  }
+  return args;
+}
+
+/**
+ * The serialized config with the notification credentials masked
+ */
+function withoutSecrets(serialized: unknown): unknown {
+  const notifications = (serialized as { notifications?: Record<string, unknown> }).notifications || {};
+  for (const channel of Object.values(notifications)) {
+    if (typeof channel !== 'object' || channel === null || Array.isArray(channel)) continue;
+    const fields = channel as Record<string, unknown>;
+    for (const field of SECRET_FIELDS) {
+      if (typeof fields[field] === 'string') fields[field] = '<redacted>';
+    }
+    if (fields.headers && typeof fields.headers === 'object') {
+      fields.headers = Object.fromEntries(Object.keys(fields.headers).map((name) => [name, '<redacted>']));
+    }
+  }
+  return serialized;
+}
@@ -0,0 +1,5 @@
+/**
+ * CLI Module Exports
+ */
+
+export { runCli, CLI_NAME, EXIT_CODES } from './cli.js';
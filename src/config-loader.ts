@@ -0,0 +1,583 @@
+/**
+ * Config Loader - Runtime overrides for the defaults in config.ts
+ *
+ * Handles:
+ * - viking-monitor.config.json / .yaml / .yml in the working directory,
+ *   or the file named by VIKING_CONFIG / the CLI's --config=path
+ * - Environment overrides: VIKING_ + the field path in SCREAMING_SNAKE_CASE,
+ *   with __ between levels (VIKING_HTTP__MAX_RETRIES=5)
+ * - CLI overrides: --set=path=value, with dots between levels
+ *   (--set=http.maxRetries=5, --set=domains.3.enabled=false)
+ *
+ * The loader never reads process.argv: every process importing config.ts
+ * (the Playwright runner and its workers too) would otherwise take its own
+ * arguments for monitor options. The CLI passes --config and --set in.
+ * - Validation against CONFIG_SCHEMA, naming the field and source on error
+ * - RegExp fields written as "/source/flags" strings (or a bare source)
+ *
+ * Later sources win: defaults, then the file, then env, then --set.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import type { VikingConfig } from './config.js';
+
+export type FieldSchema = (
+  | { type: 'number'; integer?: boolean; min?: number }
+  | { type: 'boolean' }
+  | { type: 'string'; enum?: readonly string[] }
+  | { type: 'regexp' }
+  | { type: 'array'; items: FieldSchema }
+  | { type: 'object'; fields: Record<string, FieldSchema> }
+  | { type: 'record'; values: FieldSchema }
+) & {
+  /** May be left out (undefined) */
+  optional?: boolean;
+};
+
+/** Default config file names, tried in order */
+export const CONFIG_FILES = ['viking-monitor.config.json', 'viking-monitor.config.yaml', 'viking-monitor.config.yml'];
+
+const ENV_PREFIX = 'VIKING_';
+
+const integer = (min = 0): FieldSchema => ({ type: 'number', integer: true, min });
+const string: FieldSchema = { type: 'string' };
+const strings: FieldSchema = { type: 'array', items: string };
+const boolean: FieldSchema = { type: 'boolean' };
+const optional = (schema: FieldSchema): FieldSchema => ({ ...schema, optional: true });
+const object = (fields: Record<string, FieldSchema>): FieldSchema => ({ type: 'object', fields });
+
+const severity: FieldSchema = { type: 'string', enum: ['critical', 'warning', 'info'] };
+
+/** A notification channel: its own fields plus the threshold, routes and quiet mode */
+const channel = (fields: Record<string, FieldSchema>): FieldSchema =>
+  object({
+    ...fields,
+    minSeverity: severity,
+    routes: {
+      type: 'array',
+      items: object({ domains: optional(strings), categories: optional(strings), minFailures: integer(1) }),
+    },
+    quietWhenUnchanged: boolean,
+  });
+
+export const CONFIG_SCHEMA: FieldSchema & { fields: Record<keyof VikingConfig, FieldSchema> } = {
+  type: 'object',
+  fields: {
+    domains: {
+      type: 'array',
+      items: object({
+        name: string,
+        baseUrl: string,
+        enabled: boolean,
+        currency: { type: 'string', enum: ['USD', 'GBP', 'AUD', 'CAD', 'EUR'] },
+        sitemapPrefix: optional(string),
+        crawlSeedPaths: optional(strings),
+        notes: optional(string),
+      }),
+    },
+    pricingPagePatterns: { type: 'array', items: { type: 'regexp' } },
+    localSitemapDir: string,
+    useLocalSitemaps: boolean,
+    sitemapUrls: strings,
+    sitemapMaxDepth: integer(),
+    crawlSeedPaths: strings,
+    linkCrawl: object({
+      concurrency: integer(1),
+      maxPagesPerSeed: integer(1),
+      stateFile: string,
+    }),
+    robots: object({
+      discoverSitemaps: boolean,
+      respectRules: boolean,
+      userAgent: string,
+    }),
+    maxConcurrentDiscovery: integer(1),
+    maxConcurrentTests: integer(1),
+    requestTimeout: integer(1),
+    http: object({
+      maxRetries: integer(),
+      baseDelayMs: integer(),
+      maxDelayMs: integer(),
+      maxRetryAfterMs: integer(),
+      retryStatuses: { type: 'array', items: integer(100) },
+      maxConcurrentPerHost: integer(1),
+      maxRequestsPerSecondPerHost: { type: 'number', min: 0.01 },
+    }),
+    pageLoadTimeout: integer(1),
+    playwright: object({
+      retries: integer(),
+      actionTimeout: integer(),
+      expectTimeout: integer(),
+      globalTimeoutMinutes: integer(),
+      viewport: object({ width: integer(1), height: integer(1) }),
+      userAgent: string,
+    }),
+    output: object({
+      manifestFile: string,
+      resultsJson: string,
+      resultsCsv: string,
+      screenshotsDir: string,
+      historyDir: string,
+      manifestDiffFile: string,
+      preflightFile: string,
+      reconciliationFile: string,
+      diagnosticsDir: string,
+    }),
+    preflight: object({
+      maxRedirects: integer(),
+      maxAgeHours: { type: 'number', min: 0 },
+    }),
+    manifestDiff: object({
+      maxDomainLossPercent: { type: 'number', min: 0 },
+      failOnDomainLoss: boolean,
+    }),
+    historyMaxRuns: integer(1),
+    priceAlerts: object({
+      percentThreshold: { type: 'number', min: 0 },
+      absoluteThreshold: { type: 'number', min: 0 },
+    }),
+    checks: object({
+      disabled: strings,
+      overrides: {
+        type: 'record',
+        values: object({
+          severity: optional(severity),
+          domains: optional(strings),
+          urlPatterns: optional({ type: 'array', items: { type: 'regexp' } }),
+        }),
+      },
+      modules: strings,
+    }),
+    checkProfilesFile: string,
+    fixtures: object({
+      mode: { type: 'string', enum: ['off', 'record', 'replay'] },
+      dir: string,
+      curatedDir: string,
+    }),
+    selection: object({
+      domains: strings,
+      urlPattern: optional({ type: 'regexp' }),
+      sources: { type: 'array', items: { type: 'string', enum: ['sitemap', 'crawl'] } },
+      cruiseTypes: { type: 'array', items: { type: 'string', enum: ['ocean', 'river', 'expedition'] } },
+      failedInLastRun: boolean,
+      sampleSize: optional(integer(1)),
+      sampleSeed: string,
+      shard: optional(object({ index: integer(1), total: integer(1) })),
+    }),
+    notifications: object({
+      artifactsUrl: optional(string),
+      screenshotsBaseUrl: optional(string),
+      slack: channel({
+        webhookUrl: optional(string),
+        botToken: optional(string),
+        channel: optional(string),
+        apiUrl: string,
+        maxFailuresInMessage: integer(1),
+      }),
+      teams: channel({
+        webhookUrl: optional(string),
+        maxFailuresInMessage: integer(1),
+      }),
+      webhook: channel({
+        url: optional(string),
+        headers: { type: 'record', values: string },
+      }),
+      email: channel({
+        smtpHost: optional(string),
+        smtpPort: integer(1),
+        secure: boolean,
+        username: optional(string),
+        password: optional(string),
+        from: string,
+        to: strings,
+        subjectPrefix: string,
+      }),
+      pagerduty: channel({
+        routingKey: optional(string),
+        eventsUrl: string,
+        dedupKey: string,
+        autoResolve: boolean,
+      }),
+      modules: strings,
+    }),
+  },
+};
+
+/** An object or list inside the config, walked by field path */
+type ConfigNode = Record<string, unknown>;
+
+export interface ConfigSources {
+  env?: NodeJS.ProcessEnv;
+  /** Config file given on the command line (--config), ahead of VIKING_CONFIG */
+  configFile?: string;
+  /** path=value overrides given on the command line (--set) */
+  overrides?: string[];
+  /** Directory the default config files are looked up in */
+  cwd?: string;
+}
+
+/**
+ * Apply the config file, env and --set overrides to a copy of the defaults
+ */
+export function resolveConfig(defaults: VikingConfig, sources: ConfigSources = {}): VikingConfig {
+  const { env = process.env, configFile, overrides = [], cwd = process.cwd() } = sources;
+  const resolved = cloneConfig(defaults);
+
+  const filePath = configFilePath(env, configFile, cwd);
+  if (filePath) {
+    mergeFile(resolved, readConfigFile(filePath), filePath);
+  }
+
+  for (const [name, value] of Object.entries(env)) {
+    if (value === undefined || !name.startsWith(ENV_PREFIX)) continue;
+    const fieldPath = envNameToPath(name);
+    // Not every VIKING_ variable is a config field (VIKING_FILTER_*, VIKING_CONFIG)
+    if (!fieldPath) continue;
+    applyOverride(resolved, fieldPath, value, `environment variable ${name}`);
+  }
+
+  for (const override of overrides) {
+    const match = override.match(/^([^=]+)=(.*)$/s);
+    if (!match) {
+      throw new Error(`Invalid --set=${override}: expected --set=path=value`);
+    }
+    applyOverride(resolved, match[1].split('.'), match[2], `--set=${match[1]}`);
+  }
+
+  validate(resolved, CONFIG_SCHEMA, '', 'resolved config');
+  return resolved;
+}
+
+/**
+ * Plain JSON form of a config, with RegExps as "/source/flags" strings
+ */
+export function serializeConfig(config: VikingConfig): unknown {
+  return JSON.parse(JSON.stringify(config, (_key, value) => (value instanceof RegExp ? value.toString() : value)));
+}
+
+/**
+ * Environment variable that overrides a field, e.g. VIKING_HTTP__MAX_RETRIES
+ */
+export function envNameForPath(fieldPath: string[]): string {
+  return ENV_PREFIX + fieldPath.map((segment) => segment.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/-/g, '_').toUpperCase()).join('__');
+}
+
+/**
+ * The config file to load: --config, VIKING_CONFIG, or the first default
+ * file present. An explicitly named file must exist.
+ */
+function configFilePath(env: NodeJS.ProcessEnv, configFile: string | undefined, cwd: string): string | undefined {
+  const explicit = configFile || env.VIKING_CONFIG;
+  if (explicit) {
+    const filePath = path.resolve(cwd, explicit);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Config file ${explicit} does not exist`);
+    }
+    return filePath;
+  }
+
+  return CONFIG_FILES.map((name) => path.join(cwd, name)).find((filePath) => fs.existsSync(filePath));
+}
+
+function readConfigFile(filePath: string): unknown {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  try {
+    return /\.ya?ml$/i.test(filePath) ? yaml.load(content) : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Config file ${filePath} could not be parsed: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Merge a parsed config file into the config: objects field by field,
+ * everything else (including arrays) replaced. "domains" may also be an
+ * object keyed by hostname, changing only the listed domains.
+ */
+function mergeFile(target: VikingConfig, file: unknown, filePath: string): void {
+  const where = `config file ${filePath}`;
+  if (file === null || file === undefined) return;
+  if (!isPlainObject(file)) {
+    throw new Error(`Invalid ${where}: expected an object at the top level`);
+  }
+
+  const { domains, ...rest } = file;
+  if (isPlainObject(domains)) {
+    for (const [hostname, changes] of Object.entries(domains)) {
+      const index = target.domains.findIndex((d) => sameHost(d.baseUrl, hostname));
+      if (index < 0) {
+        throw new Error(
+          `Invalid ${where}: domains.${hostname} is not a configured domain ` +
+            `(expected one of ${target.domains.map((d) => new URL(d.baseUrl).hostname).join(', ')})`
+        );
+      }
+      mergeValue(target.domains as unknown as ConfigNode, String(index), changes, CONFIG_SCHEMA.fields.domains, ['domains', hostname], where);
+    }
+  } else if (domains !== undefined) {
+    mergeValue(target as unknown as ConfigNode, 'domains', domains, CONFIG_SCHEMA, ['domains'], where);
+  }
+
+  for (const [key, value] of Object.entries(rest)) {
+    mergeValue(target as unknown as ConfigNode, key, value, CONFIG_SCHEMA, [key], where);
+  }
+}
+
+function mergeValue(
+  parent: ConfigNode,
+  key: string,
+  value: unknown,
+  parentSchema: FieldSchema,
+  fieldPath: string[],
+  where: string
+): void {
+  const schema = childSchema(parentSchema, key);
+  if (!schema) {
+    throw new Error(`Invalid ${where}: unknown field "${fieldPath.join('.')}"${expectedFields(parentSchema)}`);
+  }
+
+  if ((schema.type === 'object' || schema.type === 'record') && isPlainObject(value) && isPlainObject(parent[key])) {
+    for (const [childKey, childValue] of Object.entries(value)) {
+      mergeValue(parent[key] as ConfigNode, childKey, childValue, schema, [...fieldPath, childKey], where);
+    }
+    return;
+  }
+
+  parent[key] = coerceRegExps(value, schema, fieldPath.join('.'), where);
+  validate(parent[key], schema, fieldPath.join('.'), where);
+}
+
+/**
+ * Set one field from an env or --set string value
+ */
+function applyOverride(target: VikingConfig, fieldPath: string[], raw: string, where: string): void {
+  let parent = target as unknown as ConfigNode;
+  let schema: FieldSchema = CONFIG_SCHEMA;
+
+  for (let i = 0; i < fieldPath.length - 1; i++) {
+    schema = requireChildSchema(schema, fieldPath.slice(0, i + 1), where);
+    const segment = fieldPath[i];
+    // Optional objects and record entries are created; list items are not
+    if (parent[segment] === undefined && !Array.isArray(parent) && (schema.type === 'object' || schema.type === 'record')) {
+      parent[segment] = {};
+    }
+    if (parent[segment] === undefined) {
+      throw new Error(`Invalid ${where}: ${fieldPath.slice(0, i + 1).join('.')} does not exist`);
+    }
+    parent = parent[segment] as ConfigNode;
+  }
+
+  const fieldSchema = requireChildSchema(schema, fieldPath, where);
+  const key = fieldPath[fieldPath.length - 1];
+  if (Array.isArray(parent) && Number(key) > parent.length) {
+    throw new Error(`Invalid ${where}: ${fieldPath.join('.')} is past the end of the list (${parent.length} entries)`);
+  }
+
+  parent[key] = parseOverride(raw, fieldSchema, fieldPath.join('.'), where);
+  validate(parent[key], fieldSchema, fieldPath.join('.'), where);
+}
+
+function requireChildSchema(schema: FieldSchema, fieldPath: string[], where: string): FieldSchema {
+  const child = childSchema(schema, fieldPath[fieldPath.length - 1]);
+  if (!child) {
+    throw new Error(`Invalid ${where}: unknown field "${fieldPath.join('.')}"${expectedFields(schema)}`);
+  }
+  return child;
+}
+
+/**
+ * Turn an override string into a value of the field's type
+ */
+function parseOverride(raw: string, schema: FieldSchema, field: string, where: string): unknown {
+  const fail = (expected: string): never => {
+    throw new Error(`Invalid ${where}: ${field} must be ${expected} (got "${raw}")`);
+  };
+
+  switch (schema.type) {
+    case 'number': {
+      const value = Number(raw);
+      return raw.trim() === '' || !Number.isFinite(value) ? fail('a number') : value;
+    }
+    case 'boolean': {
+      const value = raw.trim().toLowerCase();
+      if (['true', '1', 'yes'].includes(value)) return true;
+      if (['false', '0', 'no'].includes(value)) return false;
+      return fail('true or false');
+    }
+    case 'string':
+      return raw;
+    case 'regexp':
+      return parseRegExp(raw, field, where);
+    case 'array':
+      if (raw.trim().startsWith('[')) {
+        return coerceRegExps(parseJson(raw, field, where), schema, field, where);
+      }
+      // Comma-separated scalars
+      return raw
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .map((item) => parseOverride(item, schema.items, field, where));
+    default:
+      return parseJson(raw, field, where);
+  }
+}
+
+function parseJson(raw: string, field: string, where: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error(`Invalid ${where}: ${field} must be JSON (got "${raw}")`);
+  }
+}
+
+/**
+ * "/source/flags" or a bare source
+ */
+function parseRegExp(value: string, field: string, where: string): RegExp {
+  const literal = value.match(/^\/(.*)\/([a-z]*)$/s);
+  try {
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(value);
+  } catch (error) {
+    throw new Error(`Invalid ${where}: ${field} is not a valid regular expression: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Convert the strings of RegExp fields in a file value to RegExps
+ */
+function coerceRegExps(value: unknown, schema: FieldSchema, field = '', where = ''): unknown {
+  if (schema.type === 'regexp' && typeof value === 'string') {
+    return parseRegExp(value, field, where);
+  }
+  if (schema.type === 'array' && Array.isArray(value)) {
+    return value.map((item) => coerceRegExps(item, schema.items, field, where));
+  }
+  if ((schema.type === 'object' || schema.type === 'record') && isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => {
+        const child = childSchema(schema, key);
+        return [key, child ? coerceRegExps(item, child, field, where) : item];
+      })
+    );
+  }
+  return value;
+}
+
+/**
+ * Check a value against its schema, naming the first offending field
+ */
+function validate(value: unknown, schema: FieldSchema, field: string, where: string): void {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid ${where}: ${field || 'config'} ${message}`);
+  };
+  const got = () => `(got ${JSON.stringify(value instanceof RegExp ? value.toString() : value)})`;
+
+  if (value === undefined || value === null) {
+    if (!schema.optional) fail('is required');
+    return;
+  }
+
+  switch (schema.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail(`must be a number ${got()}`);
+      if (schema.integer && !Number.isInteger(value)) fail(`must be a whole number ${got()}`);
+      if (schema.min !== undefined && (value as number) < schema.min) fail(`must be at least ${schema.min} ${got()}`);
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') fail(`must be true or false ${got()}`);
+      return;
+    case 'string':
+      if (typeof value !== 'string') fail(`must be a string ${got()}`);
+      if (schema.enum && !schema.enum.includes(value as string)) fail(`must be one of ${schema.enum.join(', ')} ${got()}`);
+      return;
+    case 'regexp':
+      if (!(value instanceof RegExp)) fail(`must be a regular expression ${got()}`);
+      return;
+    case 'array':
+      if (!Array.isArray(value)) fail(`must be a list ${got()}`);
+      (value as unknown[]).forEach((item, i) => validate(item, schema.items, `${field}.${i}`, where));
+      return;
+    case 'object':
+      if (!isPlainObject(value)) fail(`must be an object ${got()}`);
+      for (const key of Object.keys(value as object)) {
+        if (!schema.fields[key]) fail(`has unknown field "${key}"${expectedFields(schema)}`);
+      }
+      for (const [key, child] of Object.entries(schema.fields)) {
+        validate((value as Record<string, unknown>)[key], child, field ? `${field}.${key}` : key, where);
+      }
+      return;
+    case 'record':
+      if (!isPlainObject(value)) fail(`must be an object ${got()}`);
+      for (const [key, item] of Object.entries(value as object)) {
+        validate(item, schema.values, `${field}.${key}`, where);
+      }
+      return;
+  }
+}
+
+function childSchema(schema: FieldSchema, key: string): FieldSchema | undefined {
+  switch (schema.type) {
+    case 'object':
+      return Object.prototype.hasOwnProperty.call(schema.fields, key) ? schema.fields[key] : undefined;
+    case 'record':
+      return schema.values;
+    case 'array':
+      return /^\d+$/.test(key) ? schema.items : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function expectedFields(schema: FieldSchema): string {
+  if (schema.type === 'object') return ` (expected one of ${Object.keys(schema.fields).join(', ')})`;
+  if (schema.type === 'array') return ' (expected a list index)';
+  return '';
+}
+
+/**
+ * Field path for a VIKING_ variable, or null when it names no field.
+ * Record keys (check ids) are lower-cased with _ read as -.
+ */
+function envNameToPath(name: string): string[] | null {
+  const fieldPath: string[] = [];
+  let schema: FieldSchema = CONFIG_SCHEMA;
+
+  for (const segment of name.slice(ENV_PREFIX.length).split('__')) {
+    let key: string | undefined;
+    if (schema.type === 'object') {
+      key = Object.keys(schema.fields).find((field) => envNameForPath([field]) === ENV_PREFIX + segment);
+    } else if (schema.type === 'record') {
+      key = segment.toLowerCase().replace(/_/g, '-');
+    } else if (schema.type === 'array' && /^\d+$/.test(segment)) {
+      key = segment;
+    }
+
+    if (!key) return null;
+    fieldPath.push(key);
+    schema = childSchema(schema, key)!;
+  }
+
+  return fieldPath;
+}
+
+/**
+ * Deep copy of a config, keeping RegExps
+ */
+export function cloneConfig<T>(value: T): T {
+  if (value instanceof RegExp) return new RegExp(value.source, value.flags) as T;
+  if (Array.isArray(value)) return value.map(cloneConfig) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, cloneConfig(item)])) as T;
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is ConfigNode {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof RegExp);
+}
+
+function sameHost(baseUrl: string, hostname: string): boolean {
+  const strip = (h: string) => h.toLowerCase().replace(/^www\./, '');
+  return strip(new URL(baseUrl).hostname) === strip(hostname);
+}
@@ -1,7 +1,15 @@
 /**
  * Viking Pricing Page Monitor - Configuration
+ *
+ * The defaults below are overridden at runtime, without editing this file,
+ * by viking-monitor.config.json (or .yaml) and VIKING_* environment
+ * variables when this module loads, and by the CLI's --config and --set
+ * through reloadConfig(); see config-loader.ts.
  */
 
+import type { CheckSeverity } from './checks/types.js';
+import { cloneConfig, resolveConfig, type ConfigSources } from './config-loader.js';
+
 export interface VikingConfig {
   /** Target domains to monitor */
   domains: DomainConfig[];
@@ -18,63 +26,432 @@ export interface VikingConfig {
   /** Remote sitemap URLs */
   sitemapUrls: string[];
 
+  /** How many levels of sitemap indexes to follow below a top-level sitemap */
+  sitemapMaxDepth: number;
+
+  /** Paths the link crawler starts from on each enabled domain (see DomainConfig.crawlSeedPaths) */
+  crawlSeedPaths: string[];
+
+  /** Breadth-first link crawl: parallelism, budgets and resumable state */
+  linkCrawl: {
+    /** Pages loaded in parallel */
+    concurrency: number;
+    /** Most pages loaded from one seed, so later seeds still get their turn */
+    maxPagesPerSeed: number;
+    /** Frontier and visited pages of an unfinished crawl, resumed by the next run */
+    stateFile: string;
+  };
+
+  /** robots.txt handling during discovery */
+  robots: {
+    /** Add each enabled domain's Sitemap: directives to sitemapUrls (remote discovery) */
+    discoverSitemaps: boolean;
+    /** Skip Disallowed pages and wait Crawl-delay between pages in the link crawler */
+    respectRules: boolean;
+    /** User-agent token matched against robots.txt groups */
+    userAgent: string;
+  };
+
   /** Maximum concurrent requests during discovery */
   maxConcurrentDiscovery: number;
 
-  /** Maximum concurrent tests */
+  /** Maximum concurrent tests (Playwright workers) */
   maxConcurrentTests: number;
 
   /** Request timeout in milliseconds */
   requestTimeout: number;
 
-  /** Page load timeout in milliseconds */
+  /** Retries and politeness of the HTTP client used by discovery */
+  http: {
+    /** Retries after the first attempt */
+    maxRetries: number;
+    /** Backoff before the first retry; doubles on each retry */
+    baseDelayMs: number;
+    maxDelayMs: number;
+    /** Give up instead of waiting when Retry-After asks for longer than this */
+    maxRetryAfterMs: number;
+    /** Statuses worth retrying (network errors and timeouts always are) */
+    retryStatuses: number[];
+    maxConcurrentPerHost: number;
+    maxRequestsPerSecondPerHost: number;
+  };
+
+  /** Page load timeout in milliseconds (also Playwright's navigation timeout) */
   pageLoadTimeout: number;
 
+  /** Browser test settings read by playwright.config.ts */
+  playwright: {
+    /** Retries of a failed pricing test */
+    retries: number;
+    actionTimeout: number;
+    expectTimeout: number;
+    /** Limit for the whole run */
+    globalTimeoutMinutes: number;
+    viewport: { width: number; height: number };
+    userAgent: string;
+  };
+
   /** Output paths */
   output: {
     manifestFile: string;
     resultsJson: string;
     resultsCsv: string;
     screenshotsDir: string;
+    /** Directory holding the run history (runs.jsonl) */
+    historyDir: string;
+    /** Added/removed URLs compared to the previous manifest */
+    manifestDiffFile: string;
+    /** Status and redirect chain of every manifest URL, from the pre-flight stage */
+    preflightFile: string;
+    /** Sitemap vs. on-site link comparison, from discovery with link crawling */
+    reconciliationFile: string;
+    /** Screenshots, HTML and traces saved by `viking-monitor check-url` */
+    diagnosticsDir: string;
+  };
+
+  /** HTTP pre-flight: report dead URLs without loading them in a browser */
+  preflight: {
+    /** Redirect hops followed before a URL is reported as a redirect loop */
+    maxRedirects: number;
+    /** Older pre-flight reports are ignored and every URL goes to the browser */
+    maxAgeHours: number;
+  };
+
+  /** Guard against broken sitemaps shrinking the manifest */
+  manifestDiff: {
+    /** A domain losing more than this share of its pricing URLs is suspicious */
+    maxDomainLossPercent: number;
+    /** Fail discovery (true) or only warn (false) when the threshold is exceeded */
+    failOnDomainLoss: boolean;
+  };
+
+  /** Number of past runs kept in the history */
+  historyMaxRuns: number;
+
+  /** Fare changes between runs that are reported as price anomalies */
+  priceAlerts: {
+    /** Minimum change in percent of the previous fare */
+    percentThreshold: number;
+    /** Minimum change in the fare's currency */
+    absoluteThreshold: number;
+  };
+
+  /** Pricing checks: disable, re-classify or add without editing the spec */
+  checks: {
+    /** Ids of checks that never run */
+    disabled: string[];
+    /** Per-check overrides, keyed by check id */
+    overrides: Record<string, CheckOverride>;
+    /** Modules whose default export is a PricingCheck or PricingCheck[] */
+    modules: string[];
   };
 
-  /** Slack webhook URL (optional) */
-  slackWebhookUrl?: string;
+  /** JSON or YAML file with per-domain / per-URL-pattern selector and copy profiles */
+  checkProfilesFile: string;
+
+  /** Saved page snapshots for running the checks offline */
+  fixtures: {
+    /** off: live sites, record: save each tested page, replay: serve saved pages */
+    mode: FixtureMode;
+    /** Directory pages are recorded to and replayed from */
+    dir: string;
+    /** Hand-made snapshots with expected outcomes, used by the fixture tests */
+    curatedDir: string;
+  };
+
+  /** Narrows the URLs the pricing spec tests (VIKING_FILTER_*, VIKING_SHARD) */
+  selection: UrlSelection;
+
+  /** Notification channels for each run (`viking-monitor notify`) */
+  notifications: NotificationsConfig;
+}
+
+export interface NotificationsConfig {
+  /** Page with the run's artifacts (screenshots, reports); the CI run page on GitHub Actions */
+  artifactsUrl?: string;
+  /** URL the screenshots directory is published at, to link each failed page's screenshot */
+  screenshotsBaseUrl?: string;
+  slack: SlackConfig;
+  /** Microsoft Teams, as an Adaptive Card */
+  teams: TeamsConfig;
+  /** The run summary as JSON, POSTed to any URL */
+  webhook: WebhookConfig;
+  email: EmailConfig;
+  /** PagerDuty Events API v2 */
+  pagerduty: PagerDutyConfig;
+  /** Modules whose default export is a Notifier or Notifier[] */
+  modules: string[];
+}
+
+/**
+ * When a channel is notified. A run's severity is critical when a page
+ * failed, warning when a page had warnings or a fare moved, info otherwise.
+ */
+export interface NotificationChannelConfig {
+  /** Lowest run severity the channel is notified of */
+  minSeverity: CheckSeverity;
+  /** When set, the channel is only notified of runs with failed pages when at least one route matches */
+  routes: NotificationRoute[];
+  /** Skip the notification when no page failed or recovered and no fare moved since the previous run */
+  quietWhenUnchanged: boolean;
+}
+
+/**
+ * Matches a run with at least minFailures failed pages on the given domains
+ * and in the given failure categories (e.g. page on-call only when 5 pages
+ * on www.viking.com fail)
+ */
+export interface NotificationRoute {
+  /** Hostnames whose failed pages count (default: every domain) */
+  domains?: string[];
+  /** Failure categories that count, as in the reports, e.g. "HTTP 404 (Page Not Found)" (default: every category) */
+  categories?: string[];
+  minFailures: number;
+}
+
+export interface SlackConfig extends NotificationChannelConfig {
+  /** Incoming webhook URL; posts the summary only, as webhooks can't thread */
+  webhookUrl?: string;
+  /** Bot token (chat:write); with channel, used instead of the webhook and threads the failure details */
+  botToken?: string;
+  /** Channel ID or name the bot posts to */
+  channel?: string;
+  /** Slack Web API base URL */
+  apiUrl: string;
+  /** Failed pages listed in the message itself; the full list goes to the thread */
+  maxFailuresInMessage: number;
+}
+
+export interface TeamsConfig extends NotificationChannelConfig {
+  /** Incoming webhook or Workflows (Power Automate) URL of the Teams channel */
+  webhookUrl?: string;
+  /** Failed pages listed on the card */
+  maxFailuresInMessage: number;
+}
+
+export interface WebhookConfig extends NotificationChannelConfig {
+  url?: string;
+  /** Extra request headers, e.g. Authorization */
+  headers: Record<string, string>;
+}
+
+export interface EmailConfig extends NotificationChannelConfig {
+  smtpHost?: string;
+  smtpPort: number;
+  /** TLS from the start (usually port 465); otherwise STARTTLS is used when the server offers it */
+  secure: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+  subjectPrefix: string;
+}
+
+export interface PagerDutyConfig extends NotificationChannelConfig {
+  /** Integration key of the PagerDuty service (Events API v2) */
+  routingKey?: string;
+  eventsUrl: string;
+  /** Groups every run's event into one incident */
+  dedupKey: string;
+  /** Resolve the incident once a run no longer meets the threshold and routes */
+  autoResolve: boolean;
 }
 
 export interface DomainConfig {
   name: string;
   baseUrl: string;
   enabled: boolean;
+  /** Currency fares are quoted in on this site */
+  currency: CurrencyCode;
+  /**
+   * File name prefix of this domain's sitemaps in localSitemapDir, e.g.
+   * "uk-vrc" for uk-vrc.xml; a child sitemap-1.xml is read from
+   * uk-vrc-sitemap-1.xml. Defaults to the hostname without "www."
+   */
+  sitemapPrefix?: string;
+  /** Link crawler start paths on this domain, instead of config.crawlSeedPaths */
+  crawlSeedPaths?: string[];
   notes?: string;
 }
 
-export const config: VikingConfig = {
+export interface CheckOverride {
+  severity?: CheckSeverity;
+  /** Hostnames the check applies to */
+  domains?: string[];
+  /** URL patterns the check applies to */
+  urlPatterns?: RegExp[];
+}
+
+export type CurrencyCode = 'USD' | 'GBP' | 'AUD' | 'CAD' | 'EUR';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export type CruiseType = 'ocean' | 'river' | 'expedition';
+
+export interface UrlSelection {
+  /** Hostnames, with or without "www." */
+  domains: string[];
+  /** Matched against the full URL */
+  urlPattern?: RegExp;
+  sources: Array<'sitemap' | 'crawl'>;
+  cruiseTypes: CruiseType[];
+  /** Only URLs that failed in the last run recorded in the history */
+  failedInLastRun: boolean;
+  /** Test a sample of this many URLs */
+  sampleSize?: number;
+  /** Picks the sample; the same seed picks the same URLs on every machine */
+  sampleSeed: string;
+  /** This machine's share of the URLs, 1-based like Playwright's --shard */
+  shard?: { index: number; total: number };
+}
+
+/**
+ * Read the fixture mode from FIXTURE_MODE, rejecting unknown values
+ */
+function fixtureModeFromEnv(): FixtureMode {
+  const mode = process.env.FIXTURE_MODE || 'off';
+  if (mode !== 'off' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`FIXTURE_MODE must be off, record or replay (got "${mode}")`);
+  }
+  return mode;
+}
+
+/**
+ * Read the URL selection from VIKING_FILTER_* and VIKING_SHARD, rejecting
+ * malformed values so a typo never silently tests everything
+ */
+export function selectionFromEnv(env: NodeJS.ProcessEnv = process.env): UrlSelection {
+  const list = (value?: string) =>
+    (value || '')
+      .split(',')
+      .map((v) => v.trim().toLowerCase())
+      .filter(Boolean);
+
+  const sources = list(env.VIKING_FILTER_SOURCE);
+  for (const source of sources) {
+    if (source !== 'sitemap' && source !== 'crawl') {
+      throw new Error(`VIKING_FILTER_SOURCE must be sitemap or crawl (got "${source}")`);
+    }
+  }
+
+  const cruiseTypes = list(env.VIKING_FILTER_CRUISE_TYPE);
+  for (const type of cruiseTypes) {
+    if (type !== 'ocean' && type !== 'river' && type !== 'expedition') {
+      throw new Error(`VIKING_FILTER_CRUISE_TYPE must be ocean, river or expedition (got "${type}")`);
+    }
+  }
+
+  let urlPattern: RegExp | undefined;
+  if (env.VIKING_FILTER_URL) {
+    try {
+      urlPattern = new RegExp(env.VIKING_FILTER_URL, 'i');
+    } catch (error) {
+      throw new Error(`VIKING_FILTER_URL is not a valid regular expression: ${(error as Error).message}`);
+    }
+  }
+
+  let sampleSize: number | undefined;
+  if (env.VIKING_FILTER_SAMPLE) {
+    sampleSize = Number(env.VIKING_FILTER_SAMPLE);
+    if (!Number.isInteger(sampleSize) || sampleSize < 1) {
+      throw new Error(`VIKING_FILTER_SAMPLE must be a positive integer (got "${env.VIKING_FILTER_SAMPLE}")`);
+    }
+  }
+
+  let shard: UrlSelection['shard'];
+  if (env.VIKING_SHARD) {
+    const match = env.VIKING_SHARD.match(/^(\d+)\/(\d+)$/);
+    const [index, total] = match ? [Number(match[1]), Number(match[2])] : [0, 0];
+    if (index < 1 || index > total) {
+      throw new Error(`VIKING_SHARD must look like 2/4, with 1 <= shard <= total (got "${env.VIKING_SHARD}")`);
+    }
+    shard = { index, total };
+  }
+
+  // A new sample every day. Stored back so Playwright workers, which load
+  // this file later, pick the same sample as the main process
+  env.VIKING_SAMPLE_SEED ||= new Date().toISOString().slice(0, 10);
+
+  return {
+    domains: list(env.VIKING_FILTER_DOMAIN),
+    urlPattern,
+    sources: sources as UrlSelection['sources'],
+    cruiseTypes: cruiseTypes as CruiseType[],
+    failedInLastRun: ['1', 'true', 'yes'].includes((env.VIKING_FILTER_FAILED || '').toLowerCase()),
+    sampleSize,
+    sampleSeed: env.VIKING_SAMPLE_SEED,
+    shard,
+  };
+}
+
+const defaults: VikingConfig = {
   domains: [
     {
       name: 'Viking Main',
       baseUrl: 'https://www.viking.com',
       enabled: true,
+      currency: 'USD',
+      sitemapPrefix: 'viking',
     },
     {
       name: 'Viking Cruises (US)',
       baseUrl: 'https://www.vikingcruises.com',
       enabled: true,
+      currency: 'USD',
+      sitemapPrefix: 'vikingcruises',
     },
     {
       name: 'Viking Cruises (Australia)',
       baseUrl: 'https://www.vikingcruises.com.au',
       enabled: true,
+      currency: 'AUD',
+      sitemapPrefix: 'au-vikingcruises',
     },
     {
       name: 'Viking Cruises (UK)',
       baseUrl: 'https://www.vikingcruises.co.uk',
       enabled: true,
+      currency: 'GBP',
+      sitemapPrefix: 'uk-vikingcruises',
     },
     {
       name: 'Viking Cruises (Canada)',
       baseUrl: 'https://www.vikingcruisescanada.com',
       enabled: true,
+      currency: 'CAD',
+      sitemapPrefix: 'ca-vikingcruises',
+    },
+    {
+      name: 'Viking River Cruises (US)',
+      baseUrl: 'https://www.vikingrivercruises.com',
+      enabled: true,
+      currency: 'USD',
+      sitemapPrefix: 'vikingriver',
+      crawlSeedPaths: ['/cruise-destinations', '/rivers'],
+    },
+    {
+      name: 'Viking River Cruises (Australia)',
+      baseUrl: 'https://www.vikingrivercruises.com.au',
+      enabled: true,
+      currency: 'AUD',
+      sitemapPrefix: 'au-vrc',
+      crawlSeedPaths: ['/cruise-destinations', '/rivers'],
+    },
+    {
+      name: 'Viking River Cruises (UK)',
+      baseUrl: 'https://www.vikingrivercruises.co.uk',
+      enabled: true,
+      currency: 'GBP',
+      sitemapPrefix: 'uk-vrc',
+      crawlSeedPaths: ['/cruise-destinations', '/rivers'],
+    },
+    {
+      name: 'Viking River Cruises (Canada)',
+      baseUrl: 'https://www.vikingrivercruisescanada.com',
+      enabled: true,
+      currency: 'CAD',
+      sitemapPrefix: 'ca-vrc',
+      crawlSeedPaths: ['/cruise-destinations', '/rivers'],
     },
   ],
 
@@ -99,20 +476,211 @@ export const config: VikingConfig = {
     'https://www.vikingcruisescanada.com/sitemap.xml',
   ],
 
+  // index -> index -> urlset is the deepest nesting seen in practice
+  sitemapMaxDepth: 3,
+
+  // Cruise type and destination index pages; river sites override these
+  crawlSeedPaths: ['/cruises', '/oceans', '/rivers', '/expeditions', '/cruise-destinations'],
+
+  linkCrawl: {
+    concurrency: 4,
+    maxPagesPerSeed: 25,
+    stateFile: '.cache/link-crawl-state.json',
+  },
+
+  robots: {
+    discoverSitemaps: true,
+    respectRules: true,
+    userAgent: 'Viking-Pricing-Monitor',
+  },
+
   maxConcurrentDiscovery: 5,
-  maxConcurrentTests: 10,
+  // Fewer workers locally to avoid rate limiting from a single IP
+  maxConcurrentTests: process.env.CI ? 10 : 5,
   requestTimeout: 10000,
+
+  // Bot protection answers transient 403s as well as 429/5xx
+  http: {
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    maxRetryAfterMs: 60000,
+    retryStatuses: [403, 408, 429, 500, 502, 503, 504],
+    maxConcurrentPerHost: 2,
+    maxRequestsPerSecondPerHost: 5,
+  },
   pageLoadTimeout: 10000,
 
+  // 2 hours covers a full run (1500+ URLs); retries on CI only
+  playwright: {
+    retries: process.env.CI ? 2 : 0,
+    actionTimeout: 5000,
+    expectTimeout: 5000,
+    globalTimeoutMinutes: 120,
+    viewport: { width: 1280, height: 720 },
+    userAgent: 'Viking-Pricing-Monitor/1.0 (Automated Testing)',
+  },
+
   output: {
     manifestFile: 'pricing-urls.json',
     resultsJson: 'results.json',
     resultsCsv: 'results.csv',
     screenshotsDir: 'screenshots',
+    historyDir: 'history',
+    manifestDiffFile: 'manifest-diff.json',
+    preflightFile: 'preflight.json',
+    reconciliationFile: 'reconciliation.json',
+    diagnosticsDir: 'diagnostics',
+  },
+
+  // A report from this morning's pre-flight is fine; yesterday's is not
+  preflight: {
+    maxRedirects: 10,
+    maxAgeHours: 12,
+  },
+
+  // Losing >20% of a domain's URLs in one run is usually a broken sitemap
+  manifestDiff: {
+    maxDomainLossPercent: 20,
+    failOnDomainLoss: true,
+  },
+
+  // ~3 months of daily runs
+  historyMaxRuns: 90,
+
+  // A fare must move by at least 20% AND 100 (in its currency) to be flagged
+  priceAlerts: {
+    percentThreshold: 20,
+    absoluteThreshold: 100,
   },
 
-  // Set via environment variable: SLACK_WEBHOOK_URL
-  slackWebhookUrl: process.env.SLACK_WEBHOOK_URL,
+  // Built-in check ids: http-status, redirect, load-time, error-messages,
+  // departure-dates, prices, staterooms, booking-cta, fare-grid, js-errors
+  checks: {
+    disabled: [],
+    overrides: {},
+    modules: [],
+  },
+
+  checkProfilesFile: 'check-profiles.json',
+
+  // Set via environment variables: FIXTURE_MODE, FIXTURE_DIR
+  fixtures: {
+    mode: fixtureModeFromEnv(),
+    dir: process.env.FIXTURE_DIR || 'fixtures/recorded',
+    curatedDir: 'fixtures/curated',
+  },
+
+  // Set via environment variables: VIKING_FILTER_DOMAIN, VIKING_FILTER_URL,
+  // VIKING_FILTER_SOURCE, VIKING_FILTER_CRUISE_TYPE, VIKING_FILTER_FAILED,
+  // VIKING_FILTER_SAMPLE, VIKING_SAMPLE_SEED, VIKING_SHARD
+  selection: selectionFromEnv(),
+
+  // Set via environment variables: SLACK_WEBHOOK_URL, SLACK_BOT_TOKEN, SLACK_CHANNEL
+  // A channel is used once its URL, token or SMTP host is set
+  notifications: {
+    artifactsUrl: process.env.GITHUB_RUN_ID
+      ? `${process.env.GITHUB_SERVER_URL}/${process.env.GITHUB_REPOSITORY}/actions/runs/${process.env.GITHUB_RUN_ID}`
+      : undefined,
+    screenshotsBaseUrl: undefined,
+    slack: {
+      webhookUrl: process.env.SLACK_WEBHOOK_URL,
+      botToken: process.env.SLACK_BOT_TOKEN,
+      channel: process.env.SLACK_CHANNEL,
+      apiUrl: 'https://slack.com/api',
+      maxFailuresInMessage: 10,
+      minSeverity: 'info',
+      routes: [],
+      quietWhenUnchanged: false,
+    },
+    teams: {
+      webhookUrl: process.env.TEAMS_WEBHOOK_URL,
+      maxFailuresInMessage: 10,
+      minSeverity: 'info',
+      routes: [],
+      quietWhenUnchanged: false,
+    },
+    webhook: {
+      url: process.env.NOTIFY_WEBHOOK_URL,
+      headers: {},
+      minSeverity: 'info',
+      routes: [],
+      quietWhenUnchanged: false,
+    },
+    email: {
+      smtpHost: process.env.SMTP_HOST,
+      smtpPort: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_PORT === '465',
+      username: process.env.SMTP_USERNAME,
+      password: process.env.SMTP_PASSWORD,
+      from: process.env.EMAIL_FROM || 'viking-pricing-monitor@localhost',
+      to: (process.env.EMAIL_TO || '').split(',').map((address) => address.trim()).filter(Boolean),
+      subjectPrefix: '[Viking Pricing Monitor]',
+      minSeverity: 'warning',
+      routes: [],
+      quietWhenUnchanged: true,
+    },
+    pagerduty: {
+      routingKey: process.env.PAGERDUTY_ROUTING_KEY,
+      eventsUrl: 'https://events.pagerduty.com/v2/enqueue',
+      dedupKey: 'viking-pricing-monitor',
+      autoResolve: true,
+      minSeverity: 'critical',
+      routes: [],
+      quietWhenUnchanged: false,
+    },
+    modules: [],
+  },
 };
 
+/** Why the config file or env could not be applied when this module loaded */
+let loadError: Error | undefined;
+
+export const config: VikingConfig = loadConfig();
+
+/**
+ * Resolve the config from the config file and env. On error the defaults
+ * are used and the error is kept, so the CLI can report it as bad usage;
+ * assertConfigLoaded() throws it for everything else.
+ */
+function loadConfig(): VikingConfig {
+  try {
+    return resolveConfig(defaults);
+  } catch (error) {
+    loadError = error instanceof Error ? error : new Error(String(error));
+    return cloneConfig(defaults);
+  }
+}
+
+/**
+ * Resolve the config again with command-line sources (--config, --set),
+ * updating config in place so every module sees the result. Throws, and
+ * leaves config unchanged, when a source is invalid.
+ */
+export function reloadConfig(sources: Pick<ConfigSources, 'configFile' | 'overrides'> = {}): void {
+  const resolved = resolveConfig(defaults, sources);
+  Object.assign(config, resolved);
+  loadError = undefined;
+}
+
+/**
+ * Throw the error the config file or env raised when the config loaded
+ */
+export function assertConfigLoaded(): void {
+  if (loadError) {
+    throw loadError;
+  }
+}
+
+/**
+ * Find the configured domain for a URL or hostname
+ */
+export function findDomainConfig(urlOrHostname: string): DomainConfig | undefined {
+  const hostname = urlOrHostname.includes('://')
+    ? new URL(urlOrHostname).hostname
+    : urlOrHostname;
+
+  return config.domains.find((d) => new URL(d.baseUrl).hostname === hostname);
+}
+
 export default config;
@@ -2,6 +2,36 @@
  * Discovery Module Exports
  */
 
-export { SitemapCrawler, type DiscoveredUrl } from './sitemap-crawler.js';
-export { LinkCrawler, type CrawlOptions } from './link-crawler.js';
-export { ManifestManager, type UrlManifest } from './url-manifest.js';
+export {
+  SitemapCrawler,
+  MAX_REFERRERS,
+  type DiscoveredUrl,
+  type DiscoverySource,
+  type SitemapStats,
+  type DomainRobotsStatus,
+} from './sitemap-crawler.js';
+export { RobotsTxt } from './robots.js';
+export {
+  LinkCrawler,
+  canonicalizeUrl,
+  type CrawlOptions,
+  type DomainCrawlCoverage,
+} from './link-crawler.js';
+export {
+  ManifestManager,
+  type UrlManifest,
+  type ManifestDiff,
+  type DomainManifestDiff,
+  type LastmodChange,
+  type ManifestDetails,
+  type ReconciliationReport,
+  type ReconciledUrl,
+  type DomainReconciliation,
+} from './url-manifest.js';
+export {
+  parseUrlMetadata,
+  cruiseTypeOf,
+  type UrlMetadata,
+  type Brand,
+  type Market,
+} from './url-metadata.js';
@@ -2,63 +2,144 @@
  * Link Crawler - Discovers pricing URLs by crawling destination pages
  *
  * Complements sitemap discovery by:
- * - Starting from destination index pages
- * - Following links to individual cruise pages
+ * - Starting from the seed paths of every enabled domain in config.domains
+ * - Following links to individual cruise pages on those domains, breadth-first
+ *   and several pages at a time, within a page budget per seed
+ * - Canonicalizing links before queueing them, so each page is loaded once
  * - Extracting pricing URLs from page links
+ * - Honoring robots.txt Disallow rules and Crawl-delay (config.robots)
+ * - Saving the frontier after every batch, so an interrupted crawl resumes
+ *   on the next run (config.linkCrawl.stateFile)
+ * - Reporting per-domain coverage, including pricing URLs no sitemap lists
  */
 
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { chromium, Browser, Page } from 'playwright';
-import config from '../config.js';
-import { DiscoveredUrl } from './sitemap-crawler.js';
+import config, { DomainConfig } from '../config.js';
+import { HttpClient } from '../utils/http-client.js';
+import { RobotsTxt } from './robots.js';
+import { DiscoveredUrl, MAX_REFERRERS } from './sitemap-crawler.js';
 
 export interface CrawlOptions {
+  /** Pages loaded in this run */
   maxPages?: number;
   maxDepth?: number;
   followExternalLinks?: boolean;
+  /** Pages loaded in parallel (config.linkCrawl.concurrency) */
+  concurrency?: number;
+  /** Pages loaded from one seed, across resumed runs (config.linkCrawl.maxPagesPerSeed) */
+  maxPagesPerSeed?: number;
+  /** Continue the crawl saved in config.linkCrawl.stateFile, if any (default true) */
+  resume?: boolean;
+}
+
+interface FrontierItem {
+  url: string;
+  depth: number;
+  /** Seed whose page budget this page counts against */
+  seed: string;
+}
+
+/**
+ * Unfinished crawl, saved after every batch
+ */
+interface CrawlState {
+  savedAt: string;
+  seeds: string[];
+  frontier: FrontierItem[];
+  visited: string[];
+  pagesPerSeed: Record<string, number>;
+  discovered: DiscoveredUrl[];
+}
+
+export interface DomainCrawlCoverage {
+  domain: string;
+  seeds: number;
+  pagesVisited: number;
+  /** Visited pages that failed to load */
+  pagesFailed: number;
+  pricingUrls: number;
+  /** Pricing URLs found by crawling that no sitemap lists */
+  crawlOnlyUrls: string[];
+  /** False when pages on the domain were left unloaded (page budget or maxPages) */
+  complete: boolean;
 }
 
 export class LinkCrawler {
   private discoveredUrls: Map<string, DiscoveredUrl> = new Map();
   private visitedPages: Set<string> = new Set();
+  private disallowedPages: Set<string> = new Set();
+  private failedPages: Set<string> = new Set();
   private browser: Browser | null = null;
+  private robotsByOrigin: Map<string, Promise<RobotsTxt | null>> = new Map();
+  private lastLoadByOrigin: Map<string, number> = new Map();
+  private frontier: FrontierItem[] = [];
+  private queued: Set<string> = new Set();
+  private pagesPerSeed: Map<string, number> = new Map();
+  /** Hosts with pages left in the frontier when the crawl stopped */
+  private incompleteHosts: Set<string> = new Set();
+
+  private readonly seedUrls: string[];
+
+  /** Hosts of the enabled domains and of the seed URLs */
+  private readonly allowedHosts: Set<string>;
+
+  private readonly http: HttpClient;
+
+  /**
+   * Seeds default to the seed paths of every enabled domain
+   */
+  constructor(seedUrls: string[] = LinkCrawler.seedUrlsFor(config.domains), http: HttpClient = new HttpClient()) {
+    this.seedUrls = seedUrls.map(canonicalizeUrl);
+    this.http = http;
+    this.allowedHosts = new Set([
+      ...config.domains.filter((d) => d.enabled).map((d) => new URL(d.baseUrl).host),
+      ...seedUrls.map((url) => new URL(url).host),
+    ]);
+  }
 
   /**
-   * Known starting points for destination/cruise pages
+   * Seed URLs of the enabled domains: their crawlSeedPaths, else config.crawlSeedPaths
    */
-  private readonly seedUrls = [
-    // Viking main site - cruise types
-    'https://www.viking.com/cruises',
-    'https://www.viking.com/oceans',
-    'https://www.viking.com/rivers',
-    'https://www.viking.com/expeditions',
-    // Destinations
-    'https://www.viking.com/cruise-destinations',
-    // Viking Cruises site
-    'https://www.vikingcruises.com/cruises',
-    'https://www.vikingcruises.com/oceans',
-    'https://www.vikingcruises.com/expeditions',
-  ];
+  static seedUrlsFor(domains: DomainConfig[]): string[] {
+    return domains
+      .filter((d) => d.enabled)
+      .flatMap((d) => (d.crawlSeedPaths || config.crawlSeedPaths).map((p) => new URL(p, d.baseUrl).toString()));
+  }
 
   /**
-   * Crawl from seed URLs to discover pricing pages
+   * Crawl breadth-first from the seed URLs to discover pricing pages
    */
   async discoverPricingUrls(options: CrawlOptions = {}): Promise<DiscoveredUrl[]> {
-    const { maxPages = 100, maxDepth = 3 } = options;
+    const {
+      maxPages = 100,
+      maxDepth = 3,
+      concurrency = config.linkCrawl.concurrency,
+      maxPagesPerSeed = config.linkCrawl.maxPagesPerSeed,
+      resume = true,
+    } = options;
 
     console.log('🕷️  Starting link-based URL discovery...\n');
 
+    if (!(resume && (await this.loadState()))) {
+      for (const seed of this.seedUrls) {
+        this.enqueue({ url: seed, depth: 0, seed });
+      }
+    }
+
+    let pagesThisRun = 0;
+
     try {
       this.browser = await chromium.launch({ headless: true });
 
-      for (const seedUrl of this.seedUrls) {
-        if (this.visitedPages.size >= maxPages) break;
+      while (pagesThisRun < maxPages) {
+        const batch = this.takeBatch(Math.min(concurrency, maxPages - pagesThisRun), maxPagesPerSeed);
+        if (batch.length === 0) break;
 
-        try {
-          console.log(`🌱 Crawling from: ${seedUrl}`);
-          await this.crawlPage(seedUrl, 0, maxDepth, maxPages);
-        } catch (error) {
-          console.error(`  ❌ Failed to crawl ${seedUrl}:`, error);
-        }
+        pagesThisRun += batch.length;
+        await Promise.all(batch.map((item) => this.crawlPage(item, maxDepth)));
+        await this.saveState();
       }
     } finally {
       if (this.browser) {
@@ -66,29 +147,125 @@ export class LinkCrawler {
       }
     }
 
+    // Domains with pages left unloaded were not fully crawled, budget or not
+    for (const item of this.frontier) {
+      this.incompleteHosts.add(new URL(item.url).host);
+    }
+
+    // Pages left over budget are dropped; anything else is still to crawl
+    this.frontier = this.frontier.filter((item) => this.hasBudget(item, maxPagesPerSeed));
+    if (this.frontier.length > 0) {
+      await this.saveState();
+      console.log(`\n💾 ${this.frontier.length} page(s) left in the frontier; the next run resumes from ${config.linkCrawl.stateFile}`);
+    } else {
+      await fs.rm(config.linkCrawl.stateFile, { force: true });
+    }
+
     const urls = Array.from(this.discoveredUrls.values());
     console.log(`\n✅ Link crawl complete. Found ${urls.length} pricing URLs.`);
+    if (this.disallowedPages.size > 0) {
+      console.log(`   Skipped ${this.disallowedPages.size} page(s) disallowed by robots.txt`);
+    }
+    if (this.failedPages.size > 0) {
+      console.log(`   Could not load ${this.failedPages.size} page(s)`);
+    }
 
     return urls;
   }
 
   /**
-   * Crawl a single page and extract pricing links
+   * Pages visited and pricing URLs found per domain, for every enabled
+   * domain and every host crawled. URLs in sitemapUrls are not crawl-only.
+   */
+  getCoverage(sitemapUrls: DiscoveredUrl[] = []): DomainCrawlCoverage[] {
+    const inSitemaps = new Set(sitemapUrls.map((u) => u.url));
+    const coverage = new Map<string, DomainCrawlCoverage>();
+
+    const forHost = (host: string) => {
+      let entry = coverage.get(host);
+      if (!entry) {
+        entry = {
+          domain: host,
+          seeds: 0,
+          pagesVisited: 0,
+          pagesFailed: 0,
+          pricingUrls: 0,
+          crawlOnlyUrls: [],
+          complete: !this.incompleteHosts.has(host),
+        };
+        coverage.set(host, entry);
+      }
+      return entry;
+    };
+
+    for (const host of this.allowedHosts) forHost(host);
+    for (const url of this.seedUrls) forHost(new URL(url).host).seeds++;
+    for (const url of this.visitedPages) forHost(new URL(url).host).pagesVisited++;
+    for (const url of this.failedPages) forHost(new URL(url).host).pagesFailed++;
+    for (const { url } of this.discoveredUrls.values()) {
+      const entry = forHost(new URL(url).host);
+      entry.pricingUrls++;
+      if (!inSitemaps.has(url)) entry.crawlOnlyUrls.push(url);
+    }
+
+    return Array.from(coverage.values());
+  }
+
+  /**
+   * Take the next pages to load, oldest first, skipping seeds out of budget
+   */
+  private takeBatch(size: number, maxPagesPerSeed: number): FrontierItem[] {
+    const batch: FrontierItem[] = [];
+    const remaining: FrontierItem[] = [];
+
+    for (const item of this.frontier) {
+      if (batch.length < size && this.hasBudget(item, maxPagesPerSeed)) {
+        batch.push(item);
+        // Count now, so one batch cannot overrun a seed's budget
+        this.pagesPerSeed.set(item.seed, (this.pagesPerSeed.get(item.seed) || 0) + 1);
+      } else {
+        remaining.push(item);
+      }
+    }
+
+    this.frontier = remaining;
+    return batch;
+  }
+
+  private hasBudget(item: FrontierItem, maxPagesPerSeed: number): boolean {
+    return (this.pagesPerSeed.get(item.seed) || 0) < maxPagesPerSeed;
+  }
+
+  /**
+   * Queue a page unless it was already queued or visited
    */
-  private async crawlPage(
-    url: string,
-    depth: number,
-    maxDepth: number,
-    maxPages: number
-  ): Promise<void> {
-    // Skip if already visited or at max pages
-    if (this.visitedPages.has(url) || this.visitedPages.size >= maxPages) {
+  private enqueue(item: FrontierItem): void {
+    if (this.queued.has(item.url) || this.visitedPages.has(item.url)) {
       return;
     }
+    this.queued.add(item.url);
+    this.frontier.push(item);
+  }
+
+  /**
+   * Load a single page, extract pricing links and queue the pages worth following
+   */
+  private async crawlPage(item: FrontierItem, maxDepth: number): Promise<void> {
+    const { url, depth } = item;
 
-    // Skip non-Viking domains
+    // Skip hosts that are not configured domains
     const urlObj = new URL(url);
-    if (!this.isVikingDomain(urlObj.hostname)) {
+    if (!this.isCrawlableHost(urlObj)) {
+      return;
+    }
+
+    // Skip pages robots.txt disallows for us
+    const robots = await this.robotsFor(urlObj.origin);
+    if (robots && !robots.isAllowed(url)) {
+      if (!this.disallowedPages.has(url)) {
+        console.log(`  🚫 Disallowed by robots.txt: ${url}`);
+        this.disallowedPages.add(url);
+      }
       return;
     }
 
@@ -104,32 +281,125 @@ export class LinkCrawler {
       return;
     }
 
-    const page = await this.browser!.newPage();
+    let page: Page | null = null;
 
     try {
+      if (!this.browser) {
+        throw new Error('Browser is not running');
+      }
+      page = await this.browser.newPage();
+
       // Set timeout and navigate
       page.setDefaultTimeout(config.requestTimeout);
+      await this.waitForCrawlDelay(urlObj.origin, robots);
       await page.goto(url, { waitUntil: 'domcontentloaded' });
 
       // Extract all links
-      const links = await this.extractLinks(page);
+      const links = (await this.extractLinks(page)).map(canonicalizeUrl);
 
       // Process links
       for (const link of links) {
-        if (this.visitedPages.size >= maxPages) break;
-
         if (this.isPricingUrl(link)) {
-          this.addDiscoveredUrl(link);
+          this.addDiscoveredUrl(link, url);
         } else if (this.shouldFollowLink(link, depth, maxDepth)) {
           // Follow cruise/destination pages to find more pricing links
-          await this.crawlPage(link, depth + 1, maxDepth, maxPages);
+          this.enqueue({ url: link, depth: depth + 1, seed: item.seed });
         }
       }
     } catch (error) {
-      // Page load failures are expected for some URLs
+      // Page load failures are expected for some URLs; one must not end the batch
       console.log(`  ⚠️  Could not load: ${url}`);
+      this.failedPages.add(url);
     } finally {
-      await page.close();
+      await page?.close().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Save the frontier, visited pages and findings of the crawl so far
+   */
+  private async saveState(): Promise<void> {
+    const state: CrawlState = {
+      savedAt: new Date().toISOString(),
+      seeds: this.seedUrls,
+      frontier: this.frontier,
+      visited: Array.from(this.visitedPages),
+      pagesPerSeed: Object.fromEntries(this.pagesPerSeed),
+      discovered: Array.from(this.discoveredUrls.values()),
+    };
+
+    const file = config.linkCrawl.stateFile;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(state), 'utf-8');
+  }
+
+  /**
+   * Restore an unfinished crawl with the same seeds; false if there is none
+   */
+  private async loadState(): Promise<boolean> {
+    let state: CrawlState;
+    try {
+      state = JSON.parse(await fs.readFile(config.linkCrawl.stateFile, 'utf-8'));
+    } catch {
+      return false;
+    }
+
+    const sameSeeds =
+      state.seeds.length === this.seedUrls.length && state.seeds.every((seed, i) => seed === this.seedUrls[i]);
+    if (!sameSeeds) {
+      console.log('  Seeds changed since the saved crawl, starting over');
+      return false;
+    }
+
+    this.visitedPages = new Set(state.visited);
+    this.pagesPerSeed = new Map(Object.entries(state.pagesPerSeed));
+    this.discoveredUrls = new Map(state.discovered.map((u) => [u.url, u]));
+    for (const item of state.frontier) {
+      this.enqueue(item);
+    }
+
+    console.log(
+      `♻️  Resuming crawl saved ${state.savedAt}: ${this.frontier.length} queued, ` +
+        `${this.visitedPages.size} visited, ${this.discoveredUrls.size} pricing URLs so far\n`
+    );
+    return true;
+  }
+
+  /**
+   * Load (once per origin) the robots.txt rules that apply to us, or
+   * null when rules are not respected or robots.txt could not be read
+   */
+  private robotsFor(origin: string): Promise<RobotsTxt | null> {
+    if (!config.robots.respectRules) {
+      return Promise.resolve(null);
+    }
+
+    let robots = this.robotsByOrigin.get(origin);
+    if (!robots) {
+      robots = RobotsTxt.fetch(origin, this.http).catch((error) => {
+        console.warn(`  ⚠️  Could not read robots.txt for ${origin}, crawling without rules: ${error}`);
+        return null;
+      });
+      this.robotsByOrigin.set(origin, robots);
+    }
+
+    return robots;
+  }
+
+  /**
+   * Wait until Crawl-delay has passed since the last page load on an origin
+   */
+  private async waitForCrawlDelay(origin: string, robots: RobotsTxt | null): Promise<void> {
+    const delay = robots?.crawlDelayMs || 0;
+    const lastLoad = this.lastLoadByOrigin.get(origin);
+    const loadAt = lastLoad !== undefined ? Math.max(Date.now(), lastLoad + delay) : Date.now();
+
+    // Reserve the slot before waiting, so parallel pages queue up behind each other
+    this.lastLoadByOrigin.set(origin, loadAt);
+
+    const wait = loadAt - Date.now();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
     }
   }
 
@@ -158,14 +428,10 @@ export class LinkCrawler {
   }
 
   /**
-   * Check if hostname is a Viking domain
+   * Check if a URL is on an enabled domain or a seed host
    */
-  private isVikingDomain(hostname: string): boolean {
-    return (
-      hostname.includes('viking.com') ||
-      hostname.includes('vikingcruises.com') ||
-      hostname.includes('vikingrivercruises.com')
-    );
+  private isCrawlableHost(url: URL): boolean {
+    return this.allowedHosts.has(url.host);
   }
 
   /**
@@ -175,7 +441,7 @@ export class LinkCrawler {
     if (depth >= maxDepth - 1) return false;
 
     const urlObj = new URL(url);
-    if (!this.isVikingDomain(urlObj.hostname)) return false;
+    if (!this.isCrawlableHost(urlObj)) return false;
 
     // Follow cruise-related paths that might lead to pricing pages
     const cruisePathPatterns = [
@@ -192,20 +458,47 @@ export class LinkCrawler {
   }
 
   /**
-   * Add a discovered URL to the map
+   * Add a discovered URL to the map, recording the page that linked to it
    */
-  private addDiscoveredUrl(url: string): void {
-    if (!this.discoveredUrls.has(url)) {
-      const domain = new URL(url).hostname;
-      this.discoveredUrls.set(url, {
+  private addDiscoveredUrl(url: string, referrer?: string): void {
+    let discovered = this.discoveredUrls.get(url);
+    if (!discovered) {
+      discovered = {
         url,
         source: 'crawl',
-        domain,
+        domain: new URL(url).hostname,
         discoveredAt: new Date().toISOString(),
-      });
+        referrers: [],
+      };
+      this.discoveredUrls.set(url, discovered);
       console.log(`  ✓ Found pricing URL: ${url}`);
     }
+
+    const referrers = (discovered.referrers ??= []);
+    if (referrer && referrers.length < MAX_REFERRERS && !referrers.includes(referrer)) {
+      referrers.push(referrer);
+    }
   }
 }
 
+/**
+ * Canonical form of a link: no fragment, tracking parameters or trailing
+ * slash, and query parameters in a stable order
+ */
+export function canonicalizeUrl(url: string): string {
+  const u = new URL(url);
+  u.hash = '';
+
+  for (const key of Array.from(u.searchParams.keys())) {
+    if (/^(utm_|gclid$|fbclid$|msclkid$)/i.test(key)) u.searchParams.delete(key);
+  }
+  u.searchParams.sort();
+
+  if (u.pathname.length > 1 && u.pathname.endsWith('/')) {
+    u.pathname = u.pathname.replace(/\/+$/, '');
+  }
+
+  return u.toString();
+}
+
 export default LinkCrawler;
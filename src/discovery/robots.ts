@@ -0,0 +1,178 @@
+/**
+ * Robots.txt - Parses a site's robots.txt for discovery
+ *
+ * Handles:
+ * - Sitemap: directives (sitemap discovery)
+ * - Allow/Disallow rules for our user-agent, falling back to the * group
+ *   (longest matching rule wins, Allow wins ties, * and $ wildcards)
+ * - Crawl-delay
+ */
+
+import config from '../config.js';
+import { HttpClient } from '../utils/http-client.js';
+
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+  pattern: RegExp;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+}
+
+export class RobotsTxt {
+  /** Sitemap URLs advertised by the site, in file order */
+  readonly sitemaps: string[];
+
+  /** Minimum delay between requests asked for by the site */
+  readonly crawlDelayMs?: number;
+
+  private rules: RobotsRule[];
+
+  private constructor(sitemaps: string[], rules: RobotsRule[], crawlDelayMs?: number) {
+    this.sitemaps = sitemaps;
+    this.rules = rules;
+    this.crawlDelayMs = crawlDelayMs;
+  }
+
+  /**
+   * A robots.txt without rules, used when a site has none
+   */
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt([], []);
+  }
+
+  /**
+   * Parse robots.txt content, keeping the rules that apply to userAgent
+   */
+  static parse(content: string, userAgent: string = config.robots.userAgent): RobotsTxt {
+    const sitemaps: string[] = [];
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | undefined;
+    let inUserAgentLines = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'sitemap') {
+        if (value) sitemaps.push(value);
+        continue;
+      }
+
+      if (field === 'user-agent') {
+        // Consecutive User-agent lines share one group
+        if (!current || !inUserAgentLines) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        inUserAgentLines = true;
+        continue;
+      }
+
+      inUserAgentLines = false;
+      if (!current) continue;
+
+      if (field === 'allow' || field === 'disallow') {
+        // An empty Disallow allows everything
+        if (value) current.rules.push({ allow: field === 'allow', path: value, pattern: toPattern(value) });
+      } else if (field === 'crawl-delay') {
+        const seconds = parseFloat(value);
+        if (!isNaN(seconds) && seconds >= 0) current.crawlDelaySeconds = seconds;
+      }
+    }
+
+    const token = userAgent.toLowerCase();
+    const named = groups.filter((g) => g.userAgents.some((ua) => ua !== '*' && token.includes(ua)));
+    const applicable = named.length > 0 ? named : groups.filter((g) => g.userAgents.includes('*'));
+
+    const delays = applicable
+      .map((g) => g.crawlDelaySeconds)
+      .filter((d): d is number => d !== undefined);
+
+    return new RobotsTxt(
+      sitemaps,
+      applicable.flatMap((g) => g.rules),
+      delays.length > 0 ? Math.max(...delays) * 1000 : undefined
+    );
+  }
+
+  /**
+   * Fetch and parse an origin's robots.txt. A 4xx means the site has no
+   * robots.txt and everything is allowed; other failures throw.
+   */
+  static async fetch(
+    origin: string,
+    http: HttpClient = new HttpClient(),
+    userAgent: string = config.robots.userAgent
+  ): Promise<RobotsTxt> {
+    const response = await http.get(new URL('/robots.txt', origin).toString(), {
+      headers: { 'User-Agent': userAgent },
+    });
+
+    if (response.status >= 400 && response.status < 500) {
+      return RobotsTxt.allowAll();
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} for ${origin}/robots.txt`);
+    }
+
+    return RobotsTxt.parse(await response.text(), userAgent);
+  }
+
+  /**
+   * Check whether a URL may be crawled
+   */
+  isAllowed(url: string): boolean {
+    const { pathname, search } = new URL(url);
+    const target = safeDecode(pathname) + search;
+
+    let best: RobotsRule | undefined;
+    for (const rule of this.rules) {
+      if (!rule.pattern.test(target)) continue;
+      if (
+        !best ||
+        rule.path.length > best.path.length ||
+        (rule.path.length === best.path.length && rule.allow)
+      ) {
+        best = rule;
+      }
+    }
+
+    return !best || best.allow;
+  }
+}
+
+/**
+ * Turn a robots.txt path (with * and trailing $ wildcards) into a prefix regex
+ */
+function toPattern(rulePath: string): RegExp {
+  const anchored = rulePath.endsWith('$');
+  const body = (anchored ? rulePath.slice(0, -1) : rulePath)
+    .split('*')
+    .map((part) => safeDecode(part).replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Decode percent-escapes so encoded and literal paths compare equal
+ */
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+export default RobotsTxt;
@@ -1,57 +1,116 @@
-#!/usr/bin/env tsx
 /**
- * Run URL Discovery
+ * Run URL Discovery - The `viking-monitor discover` command
  *
  * Discovers all pricing page URLs from Viking domains using:
  * 1. Sitemap crawling
- * 2. Link-based crawling (optional)
+ * 2. Link-based crawling (optional), reconciled against the sitemaps in
+ *    reconciliation.json (orphan pages, pages missing from sitemaps)
+ *
+ * The new manifest is compared with the previous one and the differences
+ * are written to manifest-diff.json. If a domain loses more than
+ * config.manifestDiff.maxDomainLossPercent of its URLs, discovery fails
+ * without overwriting the manifest (or only warns, see below).
  *
  * Usage:
  *   npm run discover
  *   npm run discover -- --include-link-crawl
+ *   npm run discover -- --include-link-crawl --max-pages=300 --concurrency=6 --max-pages-per-seed=40
+ *   npm run discover -- --include-link-crawl --fresh-crawl   # ignore a saved unfinished crawl
+ *   npm run discover -- --warn-on-domain-loss
+ *
+ * Arguments are parsed by the CLI (src/cli).
  */
 
 import { SitemapCrawler } from './sitemap-crawler.js';
-import { LinkCrawler } from './link-crawler.js';
+import { LinkCrawler, DomainCrawlCoverage } from './link-crawler.js';
 import { ManifestManager } from './url-manifest.js';
+import { HttpClient } from '../utils/http-client.js';
+import config from '../config.js';
 
-interface DiscoveryOptions {
+export interface DiscoveryOptions {
   includeLinkCrawl: boolean;
   maxLinkCrawlPages: number;
+  linkCrawlConcurrency: number;
+  maxLinkCrawlPagesPerSeed: number;
+  resumeLinkCrawl: boolean;
+  failOnDomainLoss: boolean;
 }
 
-async function runDiscovery(options: DiscoveryOptions): Promise<void> {
+export async function runDiscovery(options: DiscoveryOptions): Promise<void> {
   console.log('═══════════════════════════════════════════════════════');
   console.log('       Viking Pricing Page URL Discovery');
   console.log('═══════════════════════════════════════════════════════\n');
 
   const manifestManager = new ManifestManager();
 
+  // One client for all discovery requests, so per-host limits hold across phases
+  const http = new HttpClient();
+
   // Phase 1: Sitemap Discovery
   console.log('Phase 1: Sitemap Discovery');
   console.log('───────────────────────────────────────────────────────');
-  const sitemapCrawler = new SitemapCrawler();
+  const sitemapCrawler = new SitemapCrawler(http);
   const sitemapUrls = await sitemapCrawler.discoverPricingUrls();
 
   let allUrls = [...sitemapUrls];
+  let crawlCoverage: DomainCrawlCoverage[] | undefined;
 
   // Phase 2: Link Crawling (optional)
   if (options.includeLinkCrawl) {
     console.log('\nPhase 2: Link-based Discovery');
     console.log('───────────────────────────────────────────────────────');
-    const linkCrawler = new LinkCrawler();
+    const linkCrawler = new LinkCrawler(undefined, http);
     const linkUrls = await linkCrawler.discoverPricingUrls({
       maxPages: options.maxLinkCrawlPages,
       maxDepth: 3,
+      concurrency: options.linkCrawlConcurrency,
+      maxPagesPerSeed: options.maxLinkCrawlPagesPerSeed,
+      resume: options.resumeLinkCrawl,
     });
 
     // Merge URLs from both sources
     allUrls = manifestManager.mergeUrls(sitemapUrls, linkUrls);
+
+    crawlCoverage = linkCrawler.getCoverage(sitemapUrls);
+    printCrawlCoverage(crawlCoverage);
+
+    const crawledDomains = crawlCoverage.filter((c) => c.pagesVisited > 0).map((c) => c.domain);
+    const incompleteDomains = crawlCoverage.filter((c) => !c.complete).map((c) => c.domain);
+    await manifestManager.saveReconciliation(
+      manifestManager.reconcile(sitemapUrls, linkUrls, crawledDomains, incompleteDomains)
+    );
   }
 
   // Create and save manifest
   console.log('\n───────────────────────────────────────────────────────');
-  const manifest = manifestManager.createManifest(allUrls);
+  const manifest = manifestManager.createManifest(allUrls, {
+    sitemapStats: sitemapCrawler.getStats(),
+    domainsWithoutSitemap: config.useLocalSitemaps ? undefined : sitemapCrawler.getDomainsWithoutSitemap(),
+    httpStats: http.getStats(),
+    crawlCoverage,
+  });
+
+  // Compare against the previous manifest before overwriting it
+  if (await manifestManager.manifestExists()) {
+    const previous = await manifestManager.loadManifest();
+    const diff = manifestManager.diffManifests(previous, manifest);
+    await manifestManager.saveManifestDiff(diff);
+
+    if (diff.domainsOverLossThreshold.length > 0) {
+      const losses = diff.domainsOverLossThreshold
+        .map((d) => `${d} (-${Math.round(diff.byDomain[d].lossPercent)}%)`)
+        .join(', ');
+      const message =
+        `Domains lost more than ${config.manifestDiff.maxDomainLossPercent}% of their pricing URLs: ${losses}. ` +
+        'This usually means a broken sitemap rather than itinerary changes.';
+
+      if (options.failOnDomainLoss) {
+        throw new Error(`${message} Manifest not updated.`);
+      }
+      console.warn(`\n⚠️  ${message}`);
+    }
+  }
+
   await manifestManager.saveManifest(manifest);
 
   console.log('\n═══════════════════════════════════════════════════════');
@@ -59,21 +118,16 @@ async function runDiscovery(options: DiscoveryOptions): Promise<void> {
   console.log('═══════════════════════════════════════════════════════');
 }
 
-// Parse command line arguments
-function parseArgs(): DiscoveryOptions {
-  const args = process.argv.slice(2);
-
-  return {
-    includeLinkCrawl: args.includes('--include-link-crawl'),
-    maxLinkCrawlPages: parseInt(
-      args.find((a) => a.startsWith('--max-pages='))?.split('=')[1] || '100',
-      10
-    ),
-  };
+/**
+ * Per-domain link crawl coverage; domains the crawl never reached stand out
+ */
+function printCrawlCoverage(coverage: DomainCrawlCoverage[]): void {
+  console.log('\n📊 Link crawl coverage:');
+  for (const c of coverage) {
+    const marker = c.pagesVisited === 0 ? '⚠️ ' : '  ';
+    console.log(
+      `  ${marker}${c.domain}: ${c.pagesVisited} pages visited (${c.pagesFailed} failed), ${c.pricingUrls} pricing URLs, ` +
+        `${c.crawlOnlyUrls.length} not in sitemaps${c.complete ? '' : ' (incomplete)'}`
+    );
+  }
 }
-
-// Main entry point
-runDiscovery(parseArgs()).catch((error) => {
-  console.error('\n❌ Discovery failed:', error);
-  process.exit(1);
-});
@@ -3,24 +3,42 @@
  *
  * Handles:
  * - Local sitemap.xml files (preferred)
- * - Remote sitemap.xml fetching (fallback)
- * - Sitemap index files (nested sitemaps)
+ * - Remote sitemap.xml fetching (fallback, retried via HttpClient), including the sitemaps each
+ *   enabled domain advertises in its robots.txt
+ * - Sitemap index files (nested sitemaps, up to config.sitemapMaxDepth)
+ * - Gzipped sitemaps (.xml.gz), local or remote
  * - URL filtering for pricing pages
+ * - Per-sitemap statistics (URLs seen, pricing URLs matched, errors)
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import * as zlib from 'zlib';
 import { XMLParser } from 'fast-xml-parser';
-import config from '../config.js';
+import config, { findDomainConfig } from '../config.js';
+import { HttpClient } from '../utils/http-client.js';
+import { RobotsTxt } from './robots.js';
+import type { UrlMetadata } from './url-metadata.js';
+
+export type DiscoverySource = 'sitemap' | 'crawl';
 
 export interface DiscoveredUrl {
   url: string;
-  source: 'sitemap' | 'crawl';
+  source: DiscoverySource;
   domain: string;
   lastModified?: string;
   discoveredAt: string;
+  /** Every source that found the URL (set when sources are merged) */
+  sources?: DiscoverySource[];
+  /** Crawled pages linking to the URL, up to MAX_REFERRERS */
+  referrers?: string[];
+  /** Brand, market and cruise details parsed from the URL (set in the manifest) */
+  metadata?: UrlMetadata;
 }
 
+/** Referring pages kept per URL; enough to find the links, small enough for the manifest */
+export const MAX_REFERRERS = 10;
+
 export interface SitemapUrl {
   loc: string;
   lastmod?: string;
@@ -33,12 +51,39 @@ export interface SitemapIndex {
   lastmod?: string;
 }
 
+export interface SitemapStats {
+  /** Local file path or remote URL */
+  source: string;
+  type: 'urlset' | 'index' | 'unknown';
+  /** 0 for a top-level sitemap, +1 per sitemap index above it */
+  depth: number;
+  gzipped: boolean;
+  /** <url> entries in a urlset */
+  urlsSeen: number;
+  /** <sitemap> entries in an index */
+  childSitemaps: number;
+  pricingUrls: number;
+  errors: string[];
+}
+
+export interface DomainRobotsStatus {
+  domain: string;
+  /** Sitemap: directives found in the domain's robots.txt */
+  sitemaps: string[];
+  /** Set when robots.txt could not be read */
+  error?: string;
+}
+
 export class SitemapCrawler {
   private parser: XMLParser;
   private discoveredUrls: Map<string, DiscoveredUrl> = new Map();
   private visitedSitemaps: Set<string> = new Set();
+  private stats: SitemapStats[] = [];
+  private robotsStatus: DomainRobotsStatus[] = [];
+  private http: HttpClient;
 
-  constructor() {
+  constructor(http: HttpClient = new HttpClient()) {
+    this.http = http;
     this.parser = new XMLParser({
       ignoreAttributes: false,
       attributeNamePrefix: '@_',
@@ -74,7 +119,12 @@ export class SitemapCrawler {
       // Fetch from remote URLs directly
       console.log('🌐 Fetching sitemaps from remote URLs...\n');
 
-      for (const sitemapUrl of config.sitemapUrls) {
+      const sitemapUrls = [...config.sitemapUrls];
+      if (config.robots.discoverSitemaps) {
+        sitemapUrls.push(...(await this.discoverRobotsSitemaps()));
+      }
+
+      for (const sitemapUrl of new Set(sitemapUrls)) {
         try {
           console.log(`📄 Fetching: ${sitemapUrl}`);
           await this.processRemoteSitemap(sitemapUrl);
@@ -87,11 +137,72 @@ export class SitemapCrawler {
     const urls = Array.from(this.discoveredUrls.values());
     console.log(`\n✅ Discovery complete. Found ${urls.length} pricing URLs.`);
 
+    const failed = this.stats.filter((s) => s.errors.length > 0);
+    if (failed.length > 0) {
+      console.warn(`⚠️  ${failed.length} sitemap(s) had errors (see sitemapStats in the manifest)`);
+    }
+
     return urls;
   }
 
   /**
-   * Find all local sitemap XML files in the sitemaps directory
+   * Statistics for every sitemap processed so far, in processing order
+   */
+  getStats(): SitemapStats[] {
+    return [...this.stats];
+  }
+
+  /**
+   * What each enabled domain's robots.txt advertised (remote discovery only)
+   */
+  getRobotsStatus(): DomainRobotsStatus[] {
+    return [...this.robotsStatus];
+  }
+
+  /**
+   * Enabled domains whose robots.txt was read but lists no sitemap
+   */
+  getDomainsWithoutSitemap(): string[] {
+    return this.robotsStatus.filter((r) => !r.error && r.sitemaps.length === 0).map((r) => r.domain);
+  }
+
+  /**
+   * Collect the Sitemap: directives from every enabled domain's robots.txt
+   */
+  private async discoverRobotsSitemaps(): Promise<string[]> {
+    console.log('🤖 Reading robots.txt of enabled domains...');
+
+    const domains = config.domains.filter((d) => d.enabled);
+    for (const chunk of this.chunk(domains, config.maxConcurrentDiscovery)) {
+      await Promise.all(
+        chunk.map(async (domainConfig) => {
+          const domain = new URL(domainConfig.baseUrl).hostname;
+          try {
+            const robots = await RobotsTxt.fetch(domainConfig.baseUrl, this.http);
+            this.robotsStatus.push({ domain, sitemaps: robots.sitemaps });
+            console.log(`  ✓ ${domain}: ${robots.sitemaps.length} sitemap(s)`);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.robotsStatus.push({ domain, sitemaps: [], error: message });
+            console.warn(`  ⚠️  Could not read robots.txt for ${domain}: ${message}`);
+          }
+        })
+      );
+    }
+
+    const missing = this.getDomainsWithoutSitemap();
+    if (missing.length > 0) {
+      console.warn(`  ⚠️  No Sitemap: directive in robots.txt for: ${missing.join(', ')}`);
+    }
+    console.log('');
+
+    return this.robotsStatus.flatMap((r) => r.sitemaps);
+  }
+
+  /**
+   * Find the top-level local sitemap XML files in the sitemaps directory.
+   * Files a local index lists as children are left out: they are read
+   * through that index, at their depth.
    */
   private async findLocalSitemaps(): Promise<string[]> {
     const sitemapDir = config.localSitemapDir;
@@ -101,7 +212,7 @@ export class SitemapCrawler {
       const files = await fs.readdir(sitemapDir);
 
       for (const file of files) {
-        if (file.endsWith('.xml')) {
+        if (file.endsWith('.xml') || file.endsWith('.xml.gz')) {
           sitemaps.push(path.join(sitemapDir, file));
         }
       }
@@ -109,81 +220,161 @@ export class SitemapCrawler {
       // Directory doesn't exist or is not readable
     }
 
-    return sitemaps.sort();
+    const children = new Set<string>();
+    for (const filePath of sitemaps) {
+      for (const loc of await this.readLocalIndexChildren(filePath)) {
+        const childPath = this.localSitemapPath(loc);
+        if (childPath && childPath !== filePath) {
+          children.add(childPath);
+        }
+      }
+    }
+
+    return sitemaps.filter((filePath) => !children.has(filePath)).sort();
+  }
+
+  /**
+   * Child sitemap URLs of a local file, or none if it is not a readable index
+   */
+  private async readLocalIndexChildren(filePath: string): Promise<string[]> {
+    try {
+      const content = await fs.readFile(filePath);
+      const xml = (content[0] === 0x1f && content[1] === 0x8b ? zlib.gunzipSync(content) : content).toString('utf-8');
+      // Only indexes are worth parsing here; urlsets can be large
+      if (!xml.includes('<sitemapindex')) {
+        return [];
+      }
+
+      const { sitemapindex } = this.parser.parse(xml);
+      const sitemaps: (SitemapIndex | string)[] = [sitemapindex?.sitemap ?? []].flat();
+      return sitemaps.map((sitemap) => (typeof sitemap === 'string' ? sitemap : sitemap?.loc)).filter(Boolean);
+    } catch {
+      // Reported when the file is processed
+      return [];
+    }
   }
 
   /**
    * Process a local sitemap file
    */
-  private async processLocalSitemap(filePath: string): Promise<void> {
+  private async processLocalSitemap(filePath: string, depth: number = 0): Promise<void> {
     if (this.visitedSitemaps.has(filePath)) {
       return;
     }
     this.visitedSitemaps.add(filePath);
 
-    try {
-      const xml = await fs.readFile(filePath, 'utf-8');
-      const parsed = this.parser.parse(xml);
-
-      // Check if it's a sitemap index
-      if (parsed.sitemapindex) {
-        await this.processSitemapIndex(parsed.sitemapindex, filePath);
-      }
+    const stats = this.startStats(filePath, depth);
+    if (!stats) return;
 
-      // Check if it's a urlset
-      if (parsed.urlset) {
-        this.processUrlset(parsed.urlset, filePath);
-      }
+    try {
+      const content = await fs.readFile(filePath);
+      await this.processSitemapContent(content, filePath, stats);
     } catch (error) {
-      console.error(`  ❌ Error processing ${filePath}:`, error);
+      this.recordError(stats, error);
     }
   }
 
   /**
    * Process a remote sitemap URL
    */
-  private async processRemoteSitemap(sitemapUrl: string): Promise<void> {
+  private async processRemoteSitemap(sitemapUrl: string, depth: number = 0): Promise<void> {
     if (this.visitedSitemaps.has(sitemapUrl)) {
       return;
     }
     this.visitedSitemaps.add(sitemapUrl);
 
+    const stats = this.startStats(sitemapUrl, depth);
+    if (!stats) return;
+
     try {
-      const response = await this.fetchWithTimeout(sitemapUrl);
+      const response = await this.http.get(sitemapUrl);
 
       if (!response.ok) {
         console.warn(`  ⚠️  HTTP ${response.status} for ${sitemapUrl}`);
+        stats.errors.push(`HTTP ${response.status}`);
         return;
       }
 
-      const xml = await response.text();
-      const parsed = this.parser.parse(xml);
+      const content = Buffer.from(await response.arrayBuffer());
+      await this.processSitemapContent(content, sitemapUrl, stats);
+    } catch (error) {
+      this.recordError(stats, error);
+    }
+  }
 
-      // Check if it's a sitemap index
-      if (parsed.sitemapindex) {
-        await this.processSitemapIndex(parsed.sitemapindex, sitemapUrl);
-      }
+  /**
+   * Register stats for a sitemap, or return null if it is nested too deep to process
+   */
+  private startStats(source: string, depth: number): SitemapStats | null {
+    const stats: SitemapStats = {
+      source,
+      type: 'unknown',
+      depth,
+      gzipped: false,
+      urlsSeen: 0,
+      childSitemaps: 0,
+      pricingUrls: 0,
+      errors: [],
+    };
+    this.stats.push(stats);
+
+    if (depth > config.sitemapMaxDepth) {
+      console.warn(`  ⚠️  Skipping ${source}: nested deeper than sitemapMaxDepth (${config.sitemapMaxDepth})`);
+      stats.errors.push(`Nested deeper than sitemapMaxDepth (${config.sitemapMaxDepth})`);
+      return null;
+    }
 
-      // Check if it's a urlset
-      if (parsed.urlset) {
-        this.processUrlset(parsed.urlset, sitemapUrl);
-      }
-    } catch (error) {
-      console.error(`  ❌ Error processing ${sitemapUrl}:`, error);
+    return stats;
+  }
+
+  private recordError(stats: SitemapStats, error: unknown): void {
+    console.error(`  ❌ Error processing ${stats.source}:`, error);
+    stats.errors.push(error instanceof Error ? error.message : String(error));
+  }
+
+  /**
+   * Parse sitemap content (plain or gzipped XML) and process it as an index or urlset
+   */
+  private async processSitemapContent(content: Buffer, source: string, stats: SitemapStats): Promise<void> {
+    // Gzip magic number; .xml.gz files are served without Content-Encoding
+    stats.gzipped = content[0] === 0x1f && content[1] === 0x8b;
+    const xml = (stats.gzipped ? zlib.gunzipSync(content) : content).toString('utf-8');
+    const parsed = this.parser.parse(xml);
+
+    // Check if it's a sitemap index
+    if (parsed.sitemapindex !== undefined) {
+      stats.type = 'index';
+      stats.childSitemaps = await this.processSitemapIndex(parsed.sitemapindex, source, stats.depth);
+    }
+
+    // Check if it's a urlset
+    if (parsed.urlset !== undefined) {
+      stats.type = 'urlset';
+      const counts = this.processUrlset(parsed.urlset, source);
+      stats.urlsSeen = counts.urlsSeen;
+      stats.pricingUrls = counts.pricingUrls;
+    }
+
+    if (stats.type === 'unknown') {
+      console.warn(`  ⚠️  ${source} is not a sitemap (no <urlset> or <sitemapindex>)`);
+      stats.errors.push('Not a sitemap (no <urlset> or <sitemapindex>)');
     }
   }
 
   /**
    * Process a sitemap index file (contains references to other sitemaps)
-   * For local files, looks for referenced sitemaps locally first
+   * For local files, looks for referenced sitemaps locally first.
+   * Returns the number of child sitemaps.
    */
   private async processSitemapIndex(
     sitemapIndex: { sitemap: SitemapIndex | SitemapIndex[] },
-    parentSource: string
-  ): Promise<void> {
-    const sitemaps = Array.isArray(sitemapIndex.sitemap)
+    parentSource: string,
+    depth: number = 0
+  ): Promise<number> {
+    const sitemaps = (Array.isArray(sitemapIndex.sitemap)
       ? sitemapIndex.sitemap
-      : [sitemapIndex.sitemap];
+      : [sitemapIndex.sitemap]
+    ).filter(Boolean);
 
     console.log(`  📁 Found sitemap index with ${sitemaps.length} child sitemaps`);
 
@@ -198,34 +389,69 @@ export class SitemapCrawler {
 
           // If parent is local, try to find referenced sitemap locally
           if (!parentSource.startsWith('http')) {
-            const localPath = this.resolveLocalSitemap(loc);
+            const localPath = await this.resolveLocalSitemap(loc);
             if (localPath) {
-              await this.processLocalSitemap(localPath);
+              await this.processLocalSitemap(localPath, depth + 1);
               return;
             }
           }
 
           // Fall back to remote
-          await this.processRemoteSitemap(loc);
+          await this.processRemoteSitemap(loc, depth + 1);
         })
       );
     }
+
+    return sitemaps.length;
   }
 
   /**
-   * Try to resolve a sitemap URL to a local file path
+   * Resolve a sitemap URL to a local file named after its domain,
+   * e.g. https://www.vikingrivercruises.co.uk/sitemap-1.xml ->
+   * sitemaps/uk-vrc-sitemap-1.xml. Returns null if there is no such file.
    */
-  private resolveLocalSitemap(url: string): string | null {
-    try {
-      const urlObj = new URL(url);
-      const filename = path.basename(urlObj.pathname);
-      const localPath = path.join(config.localSitemapDir, filename);
+  private async resolveLocalSitemap(url: string): Promise<string | null> {
+    const localPath = this.localSitemapPath(url);
+    if (!localPath) {
+      return null;
+    }
 
-      // We'll check if it exists when we try to read it
+    if (await this.fileExists(localPath)) {
       return localPath;
+    }
+
+    // Bare names are ambiguous across domains (every site has a sitemap-1.xml)
+    const filename = path.basename(new URL(url).pathname);
+    if (await this.fileExists(path.join(config.localSitemapDir, filename))) {
+      console.warn(`  ⚠️  Ignoring ${filename} for ${url}: name it ${path.basename(localPath)}`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Local file a sitemap URL is read from, whether or not it exists
+   */
+  private localSitemapPath(url: string): string | null {
+    let urlObj: URL;
+    try {
+      urlObj = new URL(url);
     } catch {
       return null;
     }
+
+    const filename = path.basename(urlObj.pathname);
+    const prefix = findDomainConfig(urlObj.hostname)?.sitemapPrefix || urlObj.hostname.replace(/^www\./, '');
+    return path.join(config.localSitemapDir, `${prefix}-${filename}`);
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   /**
@@ -234,8 +460,8 @@ export class SitemapCrawler {
   private processUrlset(
     urlset: { url: SitemapUrl | SitemapUrl[] },
     source: string
-  ): void {
-    const urls = Array.isArray(urlset.url) ? urlset.url : [urlset.url];
+  ): { urlsSeen: number; pricingUrls: number } {
+    const urls = (Array.isArray(urlset.url) ? urlset.url : [urlset.url]).filter(Boolean);
 
     let pricingCount = 0;
 
@@ -262,6 +488,8 @@ export class SitemapCrawler {
     if (pricingCount > 0) {
       console.log(`  ✓ Found ${pricingCount} pricing URLs in ${path.basename(source)}`);
     }
+
+    return { urlsSeen: urls.length, pricingUrls: pricingCount };
   }
 
   /**
@@ -271,34 +499,6 @@ export class SitemapCrawler {
     return config.pricingPagePatterns.some((pattern) => pattern.test(url));
   }
 
-  /**
-   * Fetch with timeout and browser-like headers to avoid 403 blocks
-   */
-  private async fetchWithTimeout(
-    url: string,
-    timeout: number = config.requestTimeout
-  ): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    try {
-      const response = await fetch(url, {
-        signal: controller.signal,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.9',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'Cache-Control': 'no-cache',
-          'Pragma': 'no-cache',
-        },
-      });
-      return response;
-    } finally {
-      clearTimeout(timeoutId);
-    }
-  }
-
   /**
    * Split array into chunks for concurrency control
    */
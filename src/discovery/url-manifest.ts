@@ -5,22 +5,110 @@
  * - Merging URLs from different sources
  * - Persisting to/loading from JSON
  * - URL deduplication and validation
+ * - Diffing against the previous manifest
+ * - Tagging each URL with the cruise details in its path, counted by
+ *   cruise type and destination
+ * - Reconciling sitemap and crawl discovery (orphan pages, pages missing
+ *   from sitemaps)
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import config from '../config.js';
-import { DiscoveredUrl } from './sitemap-crawler.js';
+import type { HttpStats } from '../utils/http-client.js';
+import type { DomainCrawlCoverage } from './link-crawler.js';
+import { DiscoveredUrl, DiscoverySource, MAX_REFERRERS, SitemapStats } from './sitemap-crawler.js';
+import { parseUrlMetadata } from './url-metadata.js';
 
 export interface UrlManifest {
   version: string;
   generatedAt: string;
   totalUrls: number;
   byDomain: Record<string, number>;
+  /** URLs per source that found them; a URL found by both counts for each */
   bySource: Record<string, number>;
+  /** URLs per cruise type; "unknown" when the host and path don't tell */
+  byCruiseType: Record<string, number>;
+  /** URLs per destination slug; "unknown" outside cruise-destinations */
+  byDestination: Record<string, number>;
+  /** What each sitemap contributed during discovery */
+  sitemapStats?: SitemapStats[];
+  /** Enabled domains whose robots.txt advertises no sitemap */
+  domainsWithoutSitemap?: string[];
+  /** Requests, retries and give-ups of the discovery HTTP client */
+  httpStats?: HttpStats;
+  /** Per-domain link crawl coverage (link crawl runs only) */
+  crawlCoverage?: DomainCrawlCoverage[];
   urls: DiscoveredUrl[];
 }
 
+export interface LastmodChange {
+  url: string;
+  previous?: string;
+  current?: string;
+}
+
+export interface DomainManifestDiff {
+  previousCount: number;
+  currentCount: number;
+  added: string[];
+  removed: string[];
+  changedLastmod: LastmodChange[];
+  /** Share of the previous URLs that were removed, 0-100 */
+  lossPercent: number;
+}
+
+export interface ManifestDiff {
+  previousGeneratedAt: string;
+  currentGeneratedAt: string;
+  totals: {
+    added: number;
+    removed: number;
+    changedLastmod: number;
+  };
+  byDomain: Record<string, DomainManifestDiff>;
+  /** Domains that lost more than maxDomainLossPercent of their URLs */
+  domainsOverLossThreshold: string[];
+}
+
+export interface ReconciledUrl {
+  url: string;
+  domain: string;
+  lastModified?: string;
+  /** Crawled pages linking to the URL */
+  referrers?: string[];
+}
+
+export interface DomainReconciliation {
+  inBoth: number;
+  sitemapOnly: number;
+  crawlOnly: number;
+}
+
+export interface ReconciliationReport {
+  generatedAt: string;
+  /** Domains the crawl loaded pages on; only these are reconciled */
+  crawledDomains: string[];
+  /** Domains with sitemap URLs that the crawl never reached */
+  domainsNotCrawled: string[];
+  /** Crawled domains with pages left unloaded; their orphans are not reported */
+  domainsCrawlIncomplete: string[];
+  totals: DomainReconciliation;
+  byDomain: Record<string, DomainReconciliation>;
+  /** In a sitemap, but not linked from any crawled page */
+  orphans: ReconciledUrl[];
+  /** Linked from crawled pages, but in no sitemap */
+  missingFromSitemaps: ReconciledUrl[];
+}
+
+/**
+ * Discovery details recorded alongside the URLs
+ */
+export type ManifestDetails = Pick<
+  UrlManifest,
+  'sitemapStats' | 'domainsWithoutSitemap' | 'httpStats' | 'crawlCoverage'
+>;
+
 export class ManifestManager {
   private manifestPath: string;
 
@@ -31,9 +119,9 @@ export class ManifestManager {
   /**
    * Create a manifest from discovered URLs
    */
-  createManifest(urls: DiscoveredUrl[]): UrlManifest {
-    // Deduplicate by URL
-    const uniqueUrls = this.deduplicateUrls(urls);
+  createManifest(urls: DiscoveredUrl[], details: ManifestDetails = {}): UrlManifest {
+    // Deduplicate by URL, and tag each with the cruise details in its path
+    const uniqueUrls = this.deduplicateUrls(urls).map((url) => ({ ...url, metadata: parseUrlMetadata(url.url) }));
 
     // Count by domain
     const byDomain: Record<string, number> = {};
@@ -41,10 +129,22 @@ export class ManifestManager {
       byDomain[url.domain] = (byDomain[url.domain] || 0) + 1;
     }
 
-    // Count by source
+    // Count by source, every source that found the URL
     const bySource: Record<string, number> = {};
     for (const url of uniqueUrls) {
-      bySource[url.source] = (bySource[url.source] || 0) + 1;
+      for (const source of url.sources || [url.source]) {
+        bySource[source] = (bySource[source] || 0) + 1;
+      }
+    }
+
+    // Count by cruise type and destination
+    const byCruiseType: Record<string, number> = {};
+    const byDestination: Record<string, number> = {};
+    for (const { metadata } of uniqueUrls) {
+      const cruiseType = metadata.cruiseType || 'unknown';
+      const destination = metadata.destination || 'unknown';
+      byCruiseType[cruiseType] = (byCruiseType[cruiseType] || 0) + 1;
+      byDestination[destination] = (byDestination[destination] || 0) + 1;
     }
 
     return {
@@ -53,6 +153,9 @@ export class ManifestManager {
       totalUrls: uniqueUrls.length,
       byDomain,
       bySource,
+      byCruiseType,
+      byDestination,
+      ...details,
       urls: uniqueUrls,
     };
   }
@@ -74,6 +177,20 @@ export class ManifestManager {
     for (const [domain, count] of Object.entries(manifest.byDomain)) {
       console.log(`     - ${domain}: ${count}`);
     }
+    console.log(
+      `   By cruise type: ${Object.entries(manifest.byCruiseType)
+        .map(([type, count]) => `${type} ${count}`)
+        .join(', ')}`
+    );
+    console.log(`   Destinations: ${Object.keys(manifest.byDestination).length}`);
+    if (manifest.sitemapStats) {
+      const failed = manifest.sitemapStats.filter((s) => s.errors.length > 0).length;
+      console.log(`   Sitemaps: ${manifest.sitemapStats.length} processed, ${failed} with errors`);
+    }
+    if (manifest.httpStats) {
+      const { requests, retries, giveUps } = manifest.httpStats;
+      console.log(`   HTTP: ${requests} requests, ${retries} retries, ${giveUps} gave up`);
+    }
   }
 
   /**
@@ -101,7 +218,87 @@ export class ManifestManager {
   }
 
   /**
-   * Merge multiple URL arrays, preserving the most recent discovery
+   * Compare a new manifest against the previous one, per domain
+   */
+  diffManifests(
+    previous: UrlManifest,
+    current: UrlManifest,
+    maxDomainLossPercent: number = config.manifestDiff.maxDomainLossPercent
+  ): ManifestDiff {
+    const previousByUrl = new Map(previous.urls.map((u) => [u.url, u]));
+    const currentByUrl = new Map(current.urls.map((u) => [u.url, u]));
+    const domains = new Set([...Object.keys(previous.byDomain), ...Object.keys(current.byDomain)]);
+
+    const byDomain: Record<string, DomainManifestDiff> = {};
+    for (const domain of domains) {
+      byDomain[domain] = {
+        previousCount: previous.byDomain[domain] || 0,
+        currentCount: current.byDomain[domain] || 0,
+        added: [],
+        removed: [],
+        changedLastmod: [],
+        lossPercent: 0,
+      };
+    }
+
+    for (const [url, entry] of currentByUrl) {
+      const before = previousByUrl.get(url);
+      if (!before) {
+        byDomain[entry.domain].added.push(url);
+      } else if (before.lastModified !== entry.lastModified) {
+        byDomain[entry.domain].changedLastmod.push({
+          url,
+          previous: before.lastModified,
+          current: entry.lastModified,
+        });
+      }
+    }
+
+    for (const [url, entry] of previousByUrl) {
+      if (!currentByUrl.has(url)) {
+        byDomain[entry.domain].removed.push(url);
+      }
+    }
+
+    const domainsOverLossThreshold: string[] = [];
+    for (const [domain, diff] of Object.entries(byDomain)) {
+      diff.lossPercent = diff.previousCount > 0 ? (diff.removed.length / diff.previousCount) * 100 : 0;
+      if (diff.lossPercent > maxDomainLossPercent) {
+        domainsOverLossThreshold.push(domain);
+      }
+    }
+
+    const all = Object.values(byDomain);
+    return {
+      previousGeneratedAt: previous.generatedAt,
+      currentGeneratedAt: current.generatedAt,
+      totals: {
+        added: all.reduce((sum, d) => sum + d.added.length, 0),
+        removed: all.reduce((sum, d) => sum + d.removed.length, 0),
+        changedLastmod: all.reduce((sum, d) => sum + d.changedLastmod.length, 0),
+      },
+      byDomain,
+      domainsOverLossThreshold,
+    };
+  }
+
+  /**
+   * Save manifest diff to file
+   */
+  async saveManifestDiff(diff: ManifestDiff, diffPath: string = config.output.manifestDiffFile): Promise<void> {
+    await fs.writeFile(diffPath, JSON.stringify(diff, null, 2), 'utf-8');
+
+    console.log(`\n📝 Manifest diff saved to: ${diffPath}`);
+    console.log(`   Added: ${diff.totals.added}, Removed: ${diff.totals.removed}, Changed lastmod: ${diff.totals.changedLastmod}`);
+    for (const [domain, d] of Object.entries(diff.byDomain)) {
+      if (d.added.length === 0 && d.removed.length === 0) continue;
+      console.log(`     - ${domain}: +${d.added.length} / -${d.removed.length} (${d.previousCount} → ${d.currentCount})`);
+    }
+  }
+
+  /**
+   * Merge multiple URL arrays, preserving the most recent discovery and
+   * recording every source and referring page that found each URL
    */
   mergeUrls(...urlArrays: DiscoveredUrl[][]): DiscoveredUrl[] {
     const merged = new Map<string, DiscoveredUrl>();
@@ -109,18 +306,111 @@ export class ManifestManager {
     for (const urls of urlArrays) {
       for (const url of urls) {
         const existing = merged.get(url.url);
-        if (
-          !existing ||
-          new Date(url.discoveredAt) > new Date(existing.discoveredAt)
-        ) {
-          merged.set(url.url, url);
-        }
+        const latest =
+          !existing || new Date(url.discoveredAt) > new Date(existing.discoveredAt) ? url : existing;
+
+        const sources = new Set<DiscoverySource>([
+          ...(existing?.sources || (existing ? [existing.source] : [])),
+          ...(url.sources || [url.source]),
+        ]);
+        const referrers = new Set([...(existing?.referrers || []), ...(url.referrers || [])]);
+
+        merged.set(url.url, {
+          ...latest,
+          // Crawled entries have no lastmod; keep the sitemap's
+          lastModified: latest.lastModified ?? existing?.lastModified ?? url.lastModified,
+          sources: Array.from(sources).sort(),
+          ...(referrers.size > 0 && { referrers: Array.from(referrers).slice(0, MAX_REFERRERS) }),
+        });
       }
     }
 
     return Array.from(merged.values());
   }
 
+  /**
+   * Compare what the sitemaps list with what the crawl found linked on-site.
+   * Only crawledDomains are compared: on a domain the crawl never reached,
+   * every sitemap URL would look orphaned. On incompleteDomains the crawl ran
+   * out of budget, so sitemap URLs it did not find are not counted as orphans.
+   */
+  reconcile(
+    sitemapUrls: DiscoveredUrl[],
+    crawlUrls: DiscoveredUrl[],
+    crawledDomains: string[],
+    incompleteDomains: string[] = []
+  ): ReconciliationReport {
+    const crawled = new Set(crawledDomains);
+    const incomplete = new Set(incompleteDomains);
+    const inSitemaps = new Map(sitemapUrls.map((u) => [this.normalizeUrl(u.url), u]));
+    const inCrawl = new Map(crawlUrls.map((u) => [this.normalizeUrl(u.url), u]));
+
+    const byDomain: Record<string, DomainReconciliation> = {};
+    const forDomain = (domain: string) => (byDomain[domain] ??= { inBoth: 0, sitemapOnly: 0, crawlOnly: 0 });
+    const orphans: ReconciledUrl[] = [];
+    const missingFromSitemaps: ReconciledUrl[] = [];
+
+    for (const [url, entry] of inSitemaps) {
+      if (!crawled.has(entry.domain)) continue;
+
+      if (inCrawl.has(url)) {
+        forDomain(entry.domain).inBoth++;
+      } else if (!incomplete.has(entry.domain)) {
+        forDomain(entry.domain).sitemapOnly++;
+        orphans.push({ url, domain: entry.domain, lastModified: entry.lastModified });
+      }
+    }
+
+    for (const [url, entry] of inCrawl) {
+      if (!inSitemaps.has(url)) {
+        forDomain(entry.domain).crawlOnly++;
+        missingFromSitemaps.push({ url, domain: entry.domain, referrers: entry.referrers });
+      }
+    }
+
+    const all = Object.values(byDomain);
+    const byUrl = (a: ReconciledUrl, b: ReconciledUrl) => a.url.localeCompare(b.url);
+
+    return {
+      generatedAt: new Date().toISOString(),
+      crawledDomains: [...crawledDomains].sort(),
+      domainsNotCrawled: Array.from(new Set(sitemapUrls.map((u) => u.domain)))
+        .filter((d) => !crawled.has(d))
+        .sort(),
+      domainsCrawlIncomplete: [...crawledDomains].filter((d) => incomplete.has(d)).sort(),
+      totals: {
+        inBoth: all.reduce((sum, d) => sum + d.inBoth, 0),
+        sitemapOnly: all.reduce((sum, d) => sum + d.sitemapOnly, 0),
+        crawlOnly: all.reduce((sum, d) => sum + d.crawlOnly, 0),
+      },
+      byDomain,
+      orphans: orphans.sort(byUrl),
+      missingFromSitemaps: missingFromSitemaps.sort(byUrl),
+    };
+  }
+
+  /**
+   * Save the sitemap/crawl reconciliation report to file
+   */
+  async saveReconciliation(
+    report: ReconciliationReport,
+    reportPath: string = config.output.reconciliationFile
+  ): Promise<void> {
+    await fs.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+
+    console.log(`\n📝 Reconciliation report saved to: ${reportPath}`);
+    console.log(
+      `   In both: ${report.totals.inBoth}, Orphans (sitemap only): ${report.totals.sitemapOnly}, ` +
+        `Missing from sitemaps (crawl only): ${report.totals.crawlOnly}`
+    );
+    if (report.domainsNotCrawled.length > 0) {
+      console.log(`   Not reconciled (crawl never reached): ${report.domainsNotCrawled.join(', ')}`);
+    }
+    if (report.domainsCrawlIncomplete.length > 0) {
+      console.log(`   Orphans not reported (crawl incomplete): ${report.domainsCrawlIncomplete.join(', ')}`);
+    }
+  }
+
   /**
    * Deduplicate URLs by URL string
    */
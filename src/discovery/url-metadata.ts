@@ -0,0 +1,116 @@
+/**
+ * URL Metadata - Cruise details parsed from a pricing URL's host and path
+ *
+ * Handles:
+ * - Brand and market from the hostname (vikingrivercruises.co.uk is
+ *   Viking River Cruises, UK)
+ * - Locale from a path prefix (/en-gb/...), else the market's default
+ * - Cruise type, destination, itinerary and sailing variant from the path:
+ *     /oceans/cruise-destinations/caribbean/western-caribbean/pricing.html
+ *     /cruise-destinations/europe/danube-waltz/2026-budapest-passau/pricing.html
+ *
+ * Fields a path doesn't have are left out rather than guessed.
+ */
+
+import type { CruiseType } from '../config.js';
+
+export type Brand = 'Viking' | 'Viking Cruises' | 'Viking River Cruises';
+
+export type Market = 'US' | 'UK' | 'AU' | 'CA';
+
+export interface UrlMetadata {
+  brand: Brand;
+  market: Market;
+  /** e.g. en-US; from the path when it has a locale prefix */
+  locale: string;
+  cruiseType?: CruiseType;
+  /** Destination slug, e.g. caribbean, europe */
+  destination?: string;
+  /** Itinerary slug, e.g. western-caribbean, danube-waltz */
+  itinerary?: string;
+  /** Year/route variant of an itinerary, e.g. 2026-budapest-passau (river sites) */
+  variant?: string;
+}
+
+const CRUISE_TYPE_SEGMENTS: Record<string, CruiseType> = {
+  oceans: 'ocean',
+  rivers: 'river',
+  expeditions: 'expedition',
+};
+
+const MARKET_LOCALES: Record<Market, string> = {
+  US: 'en-US',
+  UK: 'en-GB',
+  AU: 'en-AU',
+  CA: 'en-CA',
+};
+
+const LOCALE_PATTERN = /^[a-z]{2}-[a-z]{2}$/i;
+
+const PRICING_PAGE_PATTERN = /^(pricing|prices)(\.html)?$/i;
+
+/**
+ * Parse the cruise details of a pricing URL
+ */
+export function parseUrlMetadata(url: string): UrlMetadata {
+  const { hostname, pathname } = new URL(url);
+  const segments = pathname.split('/').filter(Boolean);
+
+  // Locale prefix, e.g. viking.com/en-gb/...
+  const pathLocale = LOCALE_PATTERN.test(segments[0] || '') ? segments.shift()! : undefined;
+  const market = pathLocale ? marketOfLocale(pathLocale) : marketOfHost(hostname);
+
+  if (PRICING_PAGE_PATTERN.test(segments[segments.length - 1] || '')) {
+    segments.pop();
+  }
+
+  const cruiseType = CRUISE_TYPE_SEGMENTS[segments[0]]
+    ? CRUISE_TYPE_SEGMENTS[segments.shift()!]
+    : hostname.includes('vikingrivercruises')
+      ? 'river'
+      : undefined;
+
+  // Everything after cruise-destinations: destination/itinerary[/variant]
+  const destinationIndex = segments.indexOf('cruise-destinations');
+  const [destination, itinerary, variant] = destinationIndex >= 0 ? segments.slice(destinationIndex + 1) : [];
+
+  return {
+    brand: brandOfHost(hostname),
+    market,
+    locale: pathLocale ? formatLocale(pathLocale) : MARKET_LOCALES[market],
+    ...(cruiseType && { cruiseType }),
+    ...(destination && { destination }),
+    ...(itinerary && { itinerary }),
+    ...(variant && { variant }),
+  };
+}
+
+/**
+ * Cruise type of a pricing URL, when its host or path tells
+ */
+export function cruiseTypeOf(url: string): CruiseType | undefined {
+  return parseUrlMetadata(url).cruiseType;
+}
+
+function brandOfHost(hostname: string): Brand {
+  if (hostname.includes('vikingrivercruises')) return 'Viking River Cruises';
+  if (hostname.includes('vikingcruises')) return 'Viking Cruises';
+  return 'Viking';
+}
+
+function marketOfHost(hostname: string): Market {
+  if (hostname.endsWith('.co.uk')) return 'UK';
+  if (hostname.endsWith('.com.au')) return 'AU';
+  if (hostname.includes('canada') || hostname.endsWith('.ca')) return 'CA';
+  return 'US';
+}
+
+function marketOfLocale(locale: string): Market {
+  const region = locale.slice(3).toUpperCase();
+  if (region === 'GB') return 'UK';
+  return region === 'AU' || region === 'CA' ? region : 'US';
+}
+
+function formatLocale(locale: string): string {
+  return `${locale.slice(0, 2).toLowerCase()}-${locale.slice(3).toUpperCase()}`;
+}
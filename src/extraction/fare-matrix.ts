@@ -0,0 +1,197 @@
+/**
+ * Fare Matrix - Extracts the full departure × stateroom fare grid from a page
+ *
+ * Handles:
+ * - Locating departure rows (one sailing date, or date range, per row)
+ * - Splitting each row into stateroom categories and their fares
+ * - Sold-out / waitlisted categories
+ * - Nested markup where several elements describe the same departure
+ */
+
+import type { Page } from '@playwright/test';
+import { CurrencyCode, DomainConfig } from '../config.js';
+import { parsePrices } from '../utils/price-parser.js';
+
+export interface Fare {
+  category: string;
+  /** Lowest price listed for the category, null when sold out or unpriced */
+  amount: number | null;
+  currency?: CurrencyCode;
+  raw?: string;
+  soldOut: boolean;
+}
+
+export interface FareDeparture {
+  /** Date as displayed, e.g. "Mar 14, 2026" */
+  date: string;
+  /** yyyy-mm-dd when the displayed date includes a year */
+  isoDate?: string;
+  fares: Fare[];
+}
+
+export interface FareMatrix {
+  currency?: CurrencyCode;
+  departures: FareDeparture[];
+  /** Every stateroom category seen on the page, in order of appearance */
+  categories: string[];
+  lowestFare?: { amount: number; currency: CurrencyCode };
+}
+
+/**
+ * Elements that may hold a single departure and its fares
+ */
+const DEPARTURE_ROW_SELECTORS = [
+  '[data-departure-date]',
+  '[data-testid*="departure"]',
+  '[data-testid*="sailing"]',
+  '[class*="departure"]',
+  '[class*="sailing"]',
+  'tr',
+  'li',
+];
+
+const MONTH =
+  '(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|' +
+  'Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)';
+
+const DATE =
+  `(?:${MONTH}\\.?\\s+\\d{1,2}(?:,?\\s+\\d{4})?|\\d{1,2}\\s+${MONTH}\\.?(?:,?\\s+\\d{4})?|` +
+  '\\d{1,2}\\/\\d{1,2}\\/\\d{2,4}|\\d{4}-\\d{2}-\\d{2})';
+
+const DATE_PATTERN = new RegExp(`\\b${DATE}\\b`, 'gi');
+
+/** "Mar 14 – Mar 28, 2026": departure and return date of one sailing */
+const DATE_RANGE_PATTERN = new RegExp(`\\b(${DATE})\\s*(?:-|–|—|to|until|through)\\s*${DATE}\\b`, 'gi');
+
+const CATEGORY_KEYWORDS = [
+  'suite', 'veranda', 'french balcony', 'nordic balcony', 'balcony',
+  'standard', 'penthouse', 'explorer', 'deluxe', 'owner', 'stateroom', 'cabin',
+];
+
+const SOLD_OUT_PATTERN = /sold out|waitlist|call for (?:fares|pricing)/i;
+
+/**
+ * Scrape every departure row on the page into a FareMatrix
+ */
+export async function extractFareMatrix(page: Page, domain?: DomainConfig): Promise<FareMatrix> {
+  const rowTexts = await page.evaluate((selectors) => {
+    return Array.from(document.querySelectorAll(selectors.join(',')))
+      .map((el) => (el as HTMLElement).innerText || '')
+      .filter((text) => text.trim().length > 0);
+  }, DEPARTURE_ROW_SELECTORS);
+
+  return buildFareMatrix(rowTexts, domain);
+}
+
+/**
+ * Build a FareMatrix from the text of candidate departure rows.
+ * A date range counts as its first date, the departure. Rows with no
+ * date or several dates are containers, not departures, and are skipped;
+ * for duplicate dates the most detailed row wins.
+ */
+export function buildFareMatrix(rowTexts: string[], domain?: DomainConfig): FareMatrix {
+  const byDate = new Map<string, FareDeparture>();
+
+  for (const rowText of rowTexts) {
+    const text = rowText.replace(DATE_RANGE_PATTERN, (_range, departureDate: string) => departureDate);
+    const dates = uniqueDates(text);
+    if (dates.length !== 1) continue;
+
+    const departure: FareDeparture = {
+      date: dates[0],
+      isoDate: toIsoDate(dates[0]),
+      fares: parseFares(text.replace(dates[0], ''), domain),
+    };
+
+    const existing = byDate.get(departure.date);
+    if (!existing || departure.fares.length > existing.fares.length) {
+      byDate.set(departure.date, departure);
+    }
+  }
+
+  const departures = Array.from(byDate.values());
+  const categories = Array.from(
+    new Set(departures.flatMap((d) => d.fares.map((f) => f.category)))
+  );
+
+  // A fare in another currency is a currency problem, not the page's lowest fare
+  const priced = departures
+    .flatMap((d) => d.fares)
+    .filter((f) => f.amount !== null && f.amount > 0 && f.currency && (!domain || f.currency === domain.currency));
+  const lowest = priced.sort((a, b) => a.amount! - b.amount!)[0];
+
+  return {
+    currency: domain?.currency,
+    departures,
+    categories,
+    lowestFare: lowest ? { amount: lowest.amount!, currency: lowest.currency! } : undefined,
+  };
+}
+
+/**
+ * Departures that list no category with a non-zero fare
+ */
+export function findUnpricedDepartures(matrix: FareMatrix): FareDeparture[] {
+  return matrix.departures.filter(
+    (d) => !d.fares.some((f) => f.amount !== null && f.amount > 0)
+  );
+}
+
+/**
+ * Walk the lines of a departure row, attaching prices to the most
+ * recently named stateroom category
+ */
+function parseFares(rowText: string, domain?: DomainConfig): Fare[] {
+  const fares = new Map<string, Fare>();
+  let category = 'Unspecified';
+
+  for (const line of rowText.split('\n').map((l) => l.trim()).filter(Boolean)) {
+    const prices = parsePrices(line, domain);
+
+    // Whatever is left once the prices are removed may name the category
+    let label = line;
+    for (const price of prices) label = label.replace(price.raw, '');
+    label = label.replace(SOLD_OUT_PATTERN, '').replace(/\s+/g, ' ').trim();
+
+    if (label.length > 0 && label.length <= 60 && isCategoryLabel(label)) {
+      category = label;
+    }
+
+    const soldOut = SOLD_OUT_PATTERN.test(line);
+    if (prices.length === 0 && !soldOut) continue;
+
+    const fare = fares.get(category) || { category, amount: null, soldOut: false };
+    for (const price of prices) {
+      if (fare.amount === null || price.amount < fare.amount) {
+        fare.amount = price.amount;
+        fare.currency = price.currency;
+        fare.raw = price.raw;
+      }
+    }
+    fare.soldOut = fare.soldOut || soldOut;
+    fares.set(category, fare);
+  }
+
+  return Array.from(fares.values());
+}
+
+function isCategoryLabel(text: string): boolean {
+  const lower = text.toLowerCase();
+  return CATEGORY_KEYWORDS.some((keyword) => lower.includes(keyword));
+}
+
+function uniqueDates(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(DATE_PATTERN), (m) => m[0])));
+}
+
+function toIsoDate(date: string): string | undefined {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(date)) return date;
+  if (!/\d{4}/.test(date)) return undefined;
+
+  const parsed = new Date(date.replace(/\./g, ''));
+  if (isNaN(parsed.getTime())) return undefined;
+
+  const month = String(parsed.getMonth() + 1).padStart(2, '0');
+  const day = String(parsed.getDate()).padStart(2, '0');
+  return `${parsed.getFullYear()}-${month}-${day}`;
+}
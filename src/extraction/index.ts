@@ -0,0 +1,12 @@
+/**
+ * Extraction Module Exports
+ */
+
+export {
+  extractFareMatrix,
+  buildFareMatrix,
+  findUnpricedDepartures,
+  type FareMatrix,
+  type FareDeparture,
+  type Fare,
+} from './fare-matrix.js';
@@ -0,0 +1,9 @@
+/**
+ * Fixtures Module Exports
+ */
+
+export {
+  FixtureStore,
+  type PageFixture,
+  type FixtureExpectation,
+} from './page-fixtures.js';
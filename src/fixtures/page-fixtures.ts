@@ -0,0 +1,195 @@
+/**
+ * Page Fixtures - Record pricing pages and replay them offline
+ *
+ * Handles:
+ * - Saving a DOM snapshot + HTTP status of each tested page
+ * - Serving saved snapshots through Playwright routing, so the checks
+ *   run deterministically without network access
+ * - Listing the saved pages as DiscoveredUrls for the test suite
+ *
+ * Each fixture is a metadata file (<name>.json) next to its HTML
+ * snapshot. Snapshots are taken after the page has rendered: scripts are
+ * removed and elements hidden by the live stylesheets are hidden inline,
+ * so visibility-based checks behave the same without the site's CSS/JS.
+ */
+
+import type { Page } from '@playwright/test';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import config from '../config.js';
+import { DiscoveredUrl } from '../discovery/index.js';
+
+export interface FixtureExpectation {
+  passed: boolean;
+  /** Ids of the checks expected to fail */
+  failedChecks: string[];
+}
+
+export interface PageFixture {
+  url: string;
+  status: number;
+  contentType: string;
+  recordedAt: string;
+  /** HTML snapshot file, relative to the fixture directory */
+  html: string;
+  description?: string;
+  /** Outcome asserted by the fixture tests (curated fixtures only) */
+  expected?: FixtureExpectation;
+}
+
+const HTML_CONTENT_TYPE = 'text/html; charset=utf-8';
+
+export class FixtureStore {
+  private fixtureDir: string;
+  private fixtures?: Map<string, PageFixture>;
+
+  constructor(fixtureDir?: string) {
+    this.fixtureDir = fixtureDir || config.fixtures.dir;
+  }
+
+  get dir(): string {
+    return this.fixtureDir;
+  }
+
+  /**
+   * Load all fixtures in the directory. Synchronous so spec files can
+   * generate one test per fixture at module load time.
+   */
+  load(): PageFixture[] {
+    if (!this.fixtures) {
+      this.fixtures = new Map();
+
+      let files: string[] = [];
+      try {
+        files = fs.readdirSync(this.fixtureDir).filter((f) => f.endsWith('.json')).sort();
+      } catch {
+        // No fixtures recorded yet
+      }
+
+      for (const file of files) {
+        try {
+          const fixture = JSON.parse(fs.readFileSync(path.join(this.fixtureDir, file), 'utf-8')) as PageFixture;
+          this.fixtures.set(this.key(fixture.url), fixture);
+        } catch (error) {
+          console.warn(`⚠️  Skipping unreadable fixture ${file}: ${error}`);
+        }
+      }
+    }
+
+    return Array.from(this.fixtures.values());
+  }
+
+  /**
+   * Saved pages as URLs for the pricing test suite
+   */
+  discoveredUrls(): DiscoveredUrl[] {
+    return this.load().map((fixture) => ({
+      url: fixture.url,
+      source: 'sitemap',
+      domain: new URL(fixture.url).hostname,
+      discoveredAt: fixture.recordedAt,
+    }));
+  }
+
+  /**
+   * Route the page's navigations to saved snapshots. Every other request
+   * (and navigation to a page without a fixture) is aborted, so nothing
+   * reaches the network.
+   */
+  async replay(page: Page): Promise<void> {
+    const fixtures = new Map(this.load().map((f) => [this.key(f.url), f]));
+
+    await page.route('**/*', async (route) => {
+      const request = route.request();
+      const fixture = request.isNavigationRequest() ? fixtures.get(this.key(request.url())) : undefined;
+
+      if (!fixture) {
+        await route.abort('internetdisconnected');
+        return;
+      }
+
+      await route.fulfill({
+        status: fixture.status,
+        contentType: fixture.contentType,
+        body: await fsp.readFile(path.join(this.fixtureDir, fixture.html), 'utf-8'),
+      });
+    });
+  }
+
+  /**
+   * Save the page currently loaded in the browser as a fixture
+   */
+  async record(page: Page, url: string, status: number): Promise<PageFixture> {
+    const name = this.fileName(url);
+    const fixture: PageFixture = {
+      url,
+      status,
+      contentType: HTML_CONTENT_TYPE,
+      recordedAt: new Date().toISOString(),
+      html: `${name}.html`,
+    };
+
+    const html = await this.snapshot(page);
+
+    await fsp.mkdir(this.fixtureDir, { recursive: true });
+    await fsp.writeFile(path.join(this.fixtureDir, fixture.html), html, 'utf-8');
+    await fsp.writeFile(path.join(this.fixtureDir, `${name}.json`), JSON.stringify(fixture, null, 2), 'utf-8');
+
+    this.fixtures?.set(this.key(url), fixture);
+    return fixture;
+  }
+
+  /**
+   * Serialize the rendered DOM, with hidden elements hidden inline and scripts removed
+   */
+  private async snapshot(page: Page): Promise<string> {
+    const html = await page.evaluate(() => {
+      const restore: [HTMLElement, string | null][] = [];
+
+      for (const el of Array.from(document.querySelectorAll<HTMLElement>('body *'))) {
+        const style = getComputedStyle(el);
+        if (style.display === 'none' || style.visibility === 'hidden') {
+          restore.push([el, el.getAttribute('style')]);
+          el.style.setProperty('display', 'none', 'important');
+        }
+      }
+
+      const serialized = '<!DOCTYPE html>\n' + document.documentElement.outerHTML;
+
+      // Leave the live page as the checks found it
+      for (const [el, style] of restore) {
+        if (style === null) el.removeAttribute('style');
+        else el.setAttribute('style', style);
+      }
+
+      return serialized;
+    });
+
+    return html.replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, '');
+  }
+
+  /**
+   * Readable, unique file name for a URL
+   */
+  private fileName(url: string): string {
+    const readable = url
+      .replace(/https?:\/\//, '')
+      .replace(/\.html?$/, '')
+      .replace(/[^a-zA-Z0-9]+/g, '_')
+      .slice(0, 100);
+    const hash = crypto.createHash('sha1').update(url).digest('hex').slice(0, 8);
+
+    return `${readable}-${hash}`;
+  }
+
+  /**
+   * Fixtures are matched on the URL without its fragment
+   */
+  private key(url: string): string {
+    return url.split('#')[0];
+  }
+}
+
+export default FixtureStore;
@@ -0,0 +1,19 @@
+/**
+ * History Module Exports
+ */
+
+export {
+  RunHistory,
+  type RunRecord,
+  type RunRecordResult,
+  type RunDiff,
+  type UrlChange,
+  type PersistentFailure,
+} from './run-history.js';
+export {
+  analyzePriceChanges,
+  describePriceAnomaly,
+  type PriceAnomaly,
+  type PriceThresholds,
+} from './price-delta.js';
+export { recordRun } from './record-run.js';
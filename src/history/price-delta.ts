@@ -0,0 +1,106 @@
+/**
+ * Price Delta - Detects fare movements between runs
+ *
+ * Compares the lowest fare per URL, and per stateroom category where the
+ * fare matrix provided one, against the previous run. A change is an
+ * anomaly when it exceeds both the percentage and the absolute threshold
+ * in config.priceAlerts (the absolute floor keeps small fares quiet).
+ *
+ * Fares are only compared when both runs read them the same way (fare
+ * grid or price check) and in the same currency; anything else is a change
+ * of source, not of price.
+ */
+
+import config from '../config.js';
+import type { RunRecord } from './run-history.js';
+
+export interface PriceAnomaly {
+  url: string;
+  domain: string;
+  /** Stateroom category, or undefined for the page's lowest fare */
+  category?: string;
+  currency: string;
+  previousAmount: number;
+  currentAmount: number;
+  changeAmount: number;
+  changePercent: number;
+}
+
+export interface PriceThresholds {
+  /** Minimum change, in percent of the previous fare */
+  percentThreshold: number;
+  /** Minimum change, in the fare's currency */
+  absoluteThreshold: number;
+}
+
+/**
+ * Find fares that moved beyond the thresholds since the previous run
+ */
+export function analyzePriceChanges(
+  current: RunRecord,
+  previous: RunRecord | undefined,
+  thresholds: PriceThresholds = config.priceAlerts
+): PriceAnomaly[] {
+  if (!previous) {
+    return [];
+  }
+
+  const previousByUrl = new Map(previous.results.map((r) => [r.url, r]));
+  const anomalies: PriceAnomaly[] = [];
+
+  for (const result of current.results) {
+    const before = previousByUrl.get(result.url);
+    if (!before?.lowestFare || !result.lowestFare) continue;
+
+    // Fares in different currencies are a currency problem, not a price move
+    if (before.lowestFare.currency !== result.lowestFare.currency) continue;
+    // The grid's lowest fare and the price check's first price are different measures
+    if (before.lowestFare.source !== result.lowestFare.source) continue;
+
+    const currency = result.lowestFare.currency;
+    const pageAnomaly = compareFare(before.lowestFare.amount, result.lowestFare.amount, thresholds);
+    if (pageAnomaly) {
+      anomalies.push({ url: result.url, domain: result.domain, currency, ...pageAnomaly });
+    }
+
+    for (const [category, amount] of Object.entries(result.categoryFares || {})) {
+      const previousAmount = before.categoryFares?.[category];
+      if (previousAmount === undefined) continue;
+
+      const categoryAnomaly = compareFare(previousAmount, amount, thresholds);
+      if (categoryAnomaly) {
+        anomalies.push({ url: result.url, domain: result.domain, category, currency, ...categoryAnomaly });
+      }
+    }
+  }
+
+  return anomalies.sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent));
+}
+
+/**
+ * Describe an anomaly as short text, e.g. "Veranda: -42.0% (5,499 → 3,189 USD)"
+ */
+export function describePriceAnomaly(anomaly: PriceAnomaly): string {
+  const sign = anomaly.changePercent > 0 ? '+' : '';
+  const from = anomaly.previousAmount.toLocaleString('en-US');
+  const to = anomaly.currentAmount.toLocaleString('en-US');
+  const label = anomaly.category || 'Lowest fare';
+
+  return `${label}: ${sign}${anomaly.changePercent.toFixed(1)}% (${from} → ${to} ${anomaly.currency})`;
+}
+
+function compareFare(
+  previousAmount: number,
+  currentAmount: number,
+  thresholds: PriceThresholds
+): Pick<PriceAnomaly, 'previousAmount' | 'currentAmount' | 'changeAmount' | 'changePercent'> | null {
+  if (previousAmount <= 0) return null;
+
+  const changeAmount = currentAmount - previousAmount;
+  const changePercent = (changeAmount / previousAmount) * 100;
+
+  if (Math.abs(changePercent) < thresholds.percentThreshold) return null;
+  if (Math.abs(changeAmount) < thresholds.absoluteThreshold) return null;
+
+  return { previousAmount, currentAmount, changeAmount, changePercent };
+}
@@ -0,0 +1,26 @@
+/**
+ * Record Run - Add a finished run to the history and annotate its summary
+ *
+ * Shared by ResultsReporter and the shard merge, so a run split across
+ * machines is recorded once, like any other run.
+ */
+
+import type { TestSummary } from '../utils/reporter.js';
+import { analyzePriceChanges } from './price-delta.js';
+import { RunHistory } from './run-history.js';
+
+/**
+ * Append the run to the history and set its diff and price anomalies
+ * against the previous run. History errors are logged, not thrown, so the
+ * run's reports are still written.
+ */
+export async function recordRun(summary: TestSummary, history: RunHistory = new RunHistory()): Promise<void> {
+  try {
+    const previousRuns = await history.loadRuns();
+    const record = await history.ingest(summary);
+    summary.diff = history.diff(record, previousRuns);
+    summary.priceAnomalies = analyzePriceChanges(record, previousRuns[previousRuns.length - 1]);
+  } catch (error) {
+    console.error(`❌ Could not update run history in ${history.historyPath}:`, error);
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Run History Diff - The `viking-monitor diff` command
+ *
+ * Compares the most recent stored run with the runs before it and
+ * reports newly failing, newly recovered and persistently failing URLs.
+ *
+ * Usage:
+ *   npm run diff
+ *   npm run diff -- --json
+ */
+
+import { RunHistory } from './run-history.js';
+import { Reporter } from '../utils/reporter.js';
+
+export async function runDiff(asJson: boolean): Promise<void> {
+  const history = new RunHistory();
+  const diff = await history.diffLatest();
+
+  if (!diff) {
+    console.log(`No runs recorded in ${history.historyPath}`);
+    return;
+  }
+
+  if (asJson) {
+    console.log(JSON.stringify(diff, null, 2));
+    return;
+  }
+
+  console.log(new Reporter().formatDiff(diff).join('\n'));
+}
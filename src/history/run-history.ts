@@ -0,0 +1,257 @@
+/**
+ * Run History - File-based store of past monitor runs
+ *
+ * Handles:
+ * - Appending a compact record of each TestSummary to a JSONL file
+ * - Loading past runs (oldest first), or synchronously just the latest
+ *   for the pricing spec's test list
+ * - Diffing a run against the previous one: newly failing,
+ *   newly recovered and persistently failing URLs
+ */
+
+import * as fs from 'fs/promises';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import config from '../config.js';
+import type { FareSource } from '../checks/types.js';
+import type { TestResult, TestSummary } from '../utils/reporter.js';
+
+export interface RunRecordResult {
+  url: string;
+  domain: string;
+  passed: boolean;
+  httpStatus: number;
+  errors: string[];
+  /** source is missing in runs recorded before it was */
+  lowestFare?: { amount: number; currency: string; source?: FareSource };
+  /** Lowest fare per stateroom category across all departures, in the site's currency */
+  categoryFares?: Record<string, number>;
+}
+
+export interface RunRecord {
+  runAt: string;
+  totalTested: number;
+  passed: number;
+  failed: number;
+  results: RunRecordResult[];
+}
+
+export interface UrlChange {
+  url: string;
+  domain: string;
+  errors: string[];
+}
+
+export interface PersistentFailure extends UrlChange {
+  /** runAt of the first run in the current failure streak */
+  failingSince: string;
+  consecutiveFailures: number;
+}
+
+export interface RunDiff {
+  currentRunAt: string;
+  previousRunAt?: string;
+  /** Counts of the previous run, for the pass/fail delta */
+  previousTotals?: { totalTested: number; passed: number; failed: number };
+  newlyFailing: UrlChange[];
+  newlyRecovered: UrlChange[];
+  persistentlyFailing: PersistentFailure[];
+}
+
+const HISTORY_FILE = 'runs.jsonl';
+
+export class RunHistory {
+  private historyDir: string;
+
+  constructor(historyDir?: string) {
+    this.historyDir = historyDir || config.output.historyDir;
+  }
+
+  get historyPath(): string {
+    return path.join(this.historyDir, HISTORY_FILE);
+  }
+
+  /**
+   * Append a run to the history, pruning the oldest runs beyond historyMaxRuns
+   */
+  async ingest(summary: TestSummary): Promise<RunRecord> {
+    const record = this.toRecord(summary);
+    const runs = await this.loadRuns();
+
+    await fs.mkdir(this.historyDir, { recursive: true });
+
+    if (runs.length + 1 > config.historyMaxRuns) {
+      const kept = [...runs, record].slice(-config.historyMaxRuns);
+      await fs.writeFile(this.historyPath, kept.map((r) => JSON.stringify(r)).join('\n') + '\n', 'utf-8');
+    } else {
+      await fs.appendFile(this.historyPath, JSON.stringify(record) + '\n', 'utf-8');
+    }
+
+    return record;
+  }
+
+  /**
+   * Load all stored runs, oldest first
+   */
+  async loadRuns(): Promise<RunRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.historyPath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    return this.parseRuns(content);
+  }
+
+  /**
+   * Load the most recent stored run. Synchronous, as the pricing spec
+   * builds its test list at load time
+   */
+  loadLatestRunSync(): RunRecord | null {
+    let content: string;
+    try {
+      content = readFileSync(this.historyPath, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    const runs = this.parseRuns(content);
+    return runs[runs.length - 1] || null;
+  }
+
+  /**
+   * Parse runs.jsonl, skipping corrupt lines, oldest first
+   */
+  private parseRuns(content: string): RunRecord[] {
+    const runs: RunRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        runs.push(JSON.parse(line) as RunRecord);
+      } catch {
+        console.warn(`⚠️  Skipping corrupt line in ${this.historyPath}`);
+      }
+    }
+
+    return runs.sort((a, b) => a.runAt.localeCompare(b.runAt));
+  }
+
+  /**
+   * Diff a run against the runs that preceded it
+   */
+  diff(current: RunRecord, previousRuns: RunRecord[]): RunDiff {
+    const previous = previousRuns[previousRuns.length - 1];
+    const previousByUrl = new Map(previous?.results.map((r) => [r.url, r]) || []);
+
+    const newlyFailing: UrlChange[] = [];
+    const newlyRecovered: UrlChange[] = [];
+    const persistentlyFailing: PersistentFailure[] = [];
+
+    for (const result of current.results) {
+      const before = previousByUrl.get(result.url);
+      const change = { url: result.url, domain: result.domain, errors: result.errors };
+
+      if (!result.passed && (!before || before.passed)) {
+        newlyFailing.push(change);
+      } else if (result.passed && before && !before.passed) {
+        newlyRecovered.push({ ...change, errors: before.errors });
+      } else if (!result.passed && before && !before.passed) {
+        persistentlyFailing.push({ ...change, ...this.failureStreak(result.url, current, previousRuns) });
+      }
+    }
+
+    persistentlyFailing.sort((a, b) => b.consecutiveFailures - a.consecutiveFailures);
+
+    return {
+      currentRunAt: current.runAt,
+      previousRunAt: previous?.runAt,
+      ...(previous && {
+        previousTotals: { totalTested: previous.totalTested, passed: previous.passed, failed: previous.failed },
+      }),
+      newlyFailing,
+      newlyRecovered,
+      persistentlyFailing,
+    };
+  }
+
+  /**
+   * Diff the most recent stored run against the ones before it
+   */
+  async diffLatest(): Promise<RunDiff | null> {
+    const runs = await this.loadRuns();
+    if (runs.length === 0) {
+      return null;
+    }
+
+    return this.diff(runs[runs.length - 1], runs.slice(0, -1));
+  }
+
+  /**
+   * Count how many consecutive runs, ending with current, a URL has failed
+   */
+  private failureStreak(
+    url: string,
+    current: RunRecord,
+    previousRuns: RunRecord[]
+  ): { failingSince: string; consecutiveFailures: number } {
+    let failingSince = current.runAt;
+    let consecutiveFailures = 1;
+
+    for (let i = previousRuns.length - 1; i >= 0; i--) {
+      const result = previousRuns[i].results.find((r) => r.url === url);
+      if (!result || result.passed) break;
+      failingSince = previousRuns[i].runAt;
+      consecutiveFailures++;
+    }
+
+    return { failingSince, consecutiveFailures };
+  }
+
+  /**
+   * Reduce a summary to what the history needs
+   */
+  private toRecord(summary: TestSummary): RunRecord {
+    return {
+      runAt: summary.runAt,
+      totalTested: summary.totalTested,
+      passed: summary.passed,
+      failed: summary.failed,
+      results: summary.results.map((r) => ({
+        url: r.url,
+        domain: r.domain,
+        passed: r.passed,
+        httpStatus: r.httpStatus,
+        errors: r.errors,
+        lowestFare: r.lowestFare,
+        categoryFares: this.lowestFarePerCategory(r),
+      })),
+    };
+  }
+
+  /**
+   * Lowest non-zero fare per stateroom category in a result's fare matrix,
+   * counting only fares in the matrix's (the site's) currency
+   */
+  private lowestFarePerCategory(result: TestResult): Record<string, number> | undefined {
+    if (!result.fareMatrix) {
+      return undefined;
+    }
+
+    const { currency } = result.fareMatrix;
+    const fares: Record<string, number> = {};
+    for (const departure of result.fareMatrix.departures) {
+      for (const fare of departure.fares) {
+        if (fare.amount === null || fare.amount <= 0) continue;
+        if (currency && fare.currency !== currency) continue;
+        if (fares[fare.category] === undefined || fare.amount < fares[fare.category]) {
+          fares[fare.category] = fare.amount;
+        }
+      }
+    }
+
+    return Object.keys(fares).length > 0 ? fares : undefined;
+  }
+}
+
+export default RunHistory;
@@ -1,9 +1,27 @@
+#!/usr/bin/env node
 /**
  * Viking E2E Pricing Page Monitor
  *
- * Main entry point for programmatic usage
+ * Main entry point for programmatic usage, and the viking-monitor CLI
+ * when run directly:
+ *   npm run monitor -- <command> [options]
+ *   npx tsx src/index.ts <command> [options]
  */
 
+import { runCli } from './cli/index.js';
+
 export * from './config.js';
+export * from './checks/index.js';
+export * from './cli/index.js';
 export * from './discovery/index.js';
+export * from './extraction/index.js';
+export * from './fixtures/index.js';
+export * from './history/index.js';
+export * from './preflight/index.js';
+export * from './selection/index.js';
 export * from './utils/index.js';
+
+// Command line entry point
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then((code) => process.exit(code));
+}
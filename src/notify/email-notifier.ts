@@ -0,0 +1,117 @@
+/**
+ * Email Notifier - Emails the run summary over SMTP
+ *
+ * The email lists every failed page, unlike the chat messages, so it can
+ * be worked through as a checklist.
+ */
+
+import config from '../config.js';
+import { describePriceAnomaly } from '../history/index.js';
+import { sendMail } from './smtp-client.js';
+import { delta, domainBreakdown, headline, newlyFailingUrls, runTime, screenshotUrl } from './summary-format.js';
+import type { Notification, Notifier, NotifierSendOptions } from './types.js';
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+}
+
+export function buildEmail(
+  notification: Notification,
+  options: { subjectPrefix: string; artifactsUrl?: string; screenshotsBaseUrl?: string }
+): EmailContent {
+  const { summary, failureGroups, reasons } = notification;
+  const previous = summary.diff?.previousTotals;
+  const newlyFailing = newlyFailingUrls(summary.diff);
+  const subject = `${options.subjectPrefix} ${headline(summary).replace(/^\S+ /, '')}`.trim();
+
+  const lines = [`Viking Pricing Page Monitor: ${headline(summary)}`, `Run at ${runTime(summary)}`];
+  if (summary.selection?.length) {
+    lines.push(`Selection: ${summary.selection.join(', ')}`);
+  }
+  if (reasons.length > 0) {
+    lines.push(`Sent because: ${reasons.join('; ')}`);
+  }
+
+  lines.push(
+    '',
+    `Total tested:  ${summary.totalTested}${delta(summary.totalTested, previous?.totalTested)}`,
+    `Passed:        ${summary.passed}${delta(summary.passed, previous?.passed)}`,
+    `Failed:        ${summary.failed}${delta(summary.failed, previous?.failed)}`,
+    `Avg load time: ${Math.round(summary.avgLoadTimeMs)}ms`
+  );
+
+  if (summary.diff?.previousRunAt) {
+    const { newlyRecovered, persistentlyFailing } = summary.diff;
+    lines.push(
+      '',
+      `Changes since last run: ${newlyFailing.size} newly failing, ${newlyRecovered.length} recovered, ${persistentlyFailing.length} still failing`
+    );
+    lines.push(...newlyRecovered.map((r) => `  RECOVERED ${r.url}`));
+  }
+
+  const domains = domainBreakdown(summary.results);
+  if (domains.length > 1) {
+    lines.push('', 'By domain:');
+    lines.push(...domains.map((d) => `  ${d.domain}: ${d.tested} tested, ${d.passed} passed, ${d.failed} failed`));
+  }
+
+  if (failureGroups.length > 0) {
+    lines.push('', 'Failed pages by category:');
+    for (const [category, results] of failureGroups) {
+      lines.push('', `${category} (${results.length})`);
+      for (const result of results) {
+        lines.push(`  - ${newlyFailing.has(result.url) ? 'NEW ' : ''}${result.url}`, `    ${result.errors.join(', ')}`);
+        const screenshot = screenshotUrl(result, options.screenshotsBaseUrl);
+        if (screenshot) lines.push(`    Screenshot: ${screenshot}`);
+      }
+    }
+  }
+
+  const anomalies = summary.priceAnomalies || [];
+  if (anomalies.length > 0) {
+    lines.push('', 'Price anomalies:');
+    lines.push(...anomalies.map((a) => `  - ${a.url}: ${describePriceAnomaly(a)}`));
+  }
+
+  if (options.artifactsUrl) {
+    lines.push('', `Screenshots, reports and results: ${options.artifactsUrl}`);
+  }
+
+  return { subject, text: lines.join('\n') + '\n' };
+}
+
+export class EmailNotifier implements Notifier {
+  name = 'email';
+
+  channelConfig() {
+    return config.notifications.email;
+  }
+
+  isConfigured(): boolean {
+    const email = config.notifications.email;
+    return Boolean(email.smtpHost && email.to.length > 0);
+  }
+
+  async send(notification: Notification, options: NotifierSendOptions = {}): Promise<void> {
+    const { email, artifactsUrl, screenshotsBaseUrl } = config.notifications;
+    const content = buildEmail(notification, { subjectPrefix: email.subjectPrefix, artifactsUrl, screenshotsBaseUrl });
+
+    if (options.dryRun) {
+      console.log(`To: ${email.to.join(', ')}\nSubject: ${content.subject}\n\n${content.text}`);
+      return;
+    }
+
+    await sendMail(
+      {
+        host: email.smtpHost!,
+        port: email.smtpPort,
+        secure: email.secure,
+        username: email.username,
+        password: email.password,
+        timeoutMs: config.requestTimeout,
+      },
+      { from: email.from, to: email.to, ...content }
+    );
+  }
+}
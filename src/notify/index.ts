@@ -0,0 +1,21 @@
+/**
+ * Notify Module Exports
+ */
+
+export { type Notification, type Notifier, type NotifierSendOptions, type NotifyOptions } from './types.js';
+export { createNotifiers } from './registry.js';
+export { runSeverity, meetsSeverity, matchRoutes } from './routing.js';
+export { hasChangedSinceLastRun, domainBreakdown, type DomainBreakdown } from './summary-format.js';
+export { SlackNotifier } from './slack-notifier.js';
+export {
+  buildSlackMessage,
+  buildSlackThread,
+  type SlackBlock,
+  type SlackMessage,
+  type SlackMessageOptions,
+} from './slack-message.js';
+export { TeamsNotifier, buildTeamsCard, type AdaptiveCardElement, type TeamsCardOptions } from './teams-notifier.js';
+export { WebhookNotifier, buildWebhookPayload, type WebhookPayload } from './webhook-notifier.js';
+export { EmailNotifier, buildEmail, type EmailContent } from './email-notifier.js';
+export { PagerDutyNotifier, buildPagerDutyEvent, type PagerDutyEvent } from './pagerduty-notifier.js';
+export { sendMail, formatMessage, type SmtpOptions, type MailMessage } from './smtp-client.js';
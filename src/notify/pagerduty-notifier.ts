@@ -0,0 +1,112 @@
+/**
+ * PagerDuty Notifier - Raises and resolves an incident (Events API v2)
+ *
+ * Every triggering run sends its event under the same dedup key, so a
+ * failure streak stays one incident. Once a run no longer meets the
+ * channel's threshold and routes, the incident is resolved (autoResolve).
+ */
+
+import config from '../config.js';
+import { domainBreakdown, headline, truncate } from './summary-format.js';
+import type { Notification, Notifier, NotifierSendOptions } from './types.js';
+
+export interface PagerDutyEvent {
+  routing_key: string;
+  event_action: 'trigger' | 'resolve';
+  dedup_key: string;
+  payload?: {
+    summary: string;
+    source: string;
+    severity: Notification['severity'];
+    timestamp: string;
+    component?: string;
+    group: string;
+    class?: string;
+    custom_details: Record<string, unknown>;
+  };
+  links?: { href: string; text: string }[];
+}
+
+/** PagerDuty truncates longer summaries */
+const MAX_SUMMARY_CHARS = 1024;
+
+export function buildPagerDutyEvent(
+  notification: Notification,
+  options: { routingKey: string; dedupKey: string; artifactsUrl?: string }
+): PagerDutyEvent {
+  const { summary, failureGroups, reasons } = notification;
+  const failingDomains = domainBreakdown(summary.results).filter((d) => d.failed > 0);
+  const why = reasons.length > 0 ? ` (${reasons.join('; ')})` : '';
+
+  return {
+    routing_key: options.routingKey,
+    event_action: 'trigger',
+    dedup_key: options.dedupKey,
+    payload: {
+      summary: truncate(`Viking pricing monitor: ${headline(summary).replace(/^\S+ /, '')}${why}`, MAX_SUMMARY_CHARS),
+      source: 'viking-pricing-monitor',
+      severity: notification.severity,
+      timestamp: summary.runAt,
+      ...(failingDomains.length > 0 && { component: failingDomains.map((d) => d.domain).join(', ') }),
+      group: 'pricing-pages',
+      ...(failureGroups.length > 0 && { class: failureGroups[0][0] }),
+      custom_details: {
+        total_tested: summary.totalTested,
+        passed: summary.passed,
+        failed: summary.failed,
+        newly_failing: summary.diff?.newlyFailing.map((r) => r.url) || [],
+        failures_by_category: Object.fromEntries(failureGroups.map(([category, results]) => [category, results.length])),
+        failures_by_domain: Object.fromEntries(failingDomains.map((d) => [d.domain, d.failed])),
+      },
+    },
+    ...(options.artifactsUrl && { links: [{ href: options.artifactsUrl, text: 'Screenshots, reports and results' }] }),
+  };
+}
+
+export class PagerDutyNotifier implements Notifier {
+  name = 'pagerduty';
+
+  channelConfig() {
+    return config.notifications.pagerduty;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(config.notifications.pagerduty.routingKey);
+  }
+
+  async send(notification: Notification, options: NotifierSendOptions = {}): Promise<void> {
+    const { pagerduty, artifactsUrl } = config.notifications;
+    await this.enqueue(
+      buildPagerDutyEvent(notification, { routingKey: pagerduty.routingKey!, dedupKey: pagerduty.dedupKey, artifactsUrl }),
+      options
+    );
+  }
+
+  async resolve(_notification: Notification, options: NotifierSendOptions = {}): Promise<void> {
+    const { routingKey, dedupKey, autoResolve } = config.notifications.pagerduty;
+    if (!autoResolve) return;
+
+    await this.enqueue({ routing_key: routingKey!, event_action: 'resolve', dedup_key: dedupKey }, options);
+    if (!options.dryRun) {
+      console.log(`✅ PagerDuty incident ${dedupKey} resolved (if open)`);
+    }
+  }
+
+  private async enqueue(event: PagerDutyEvent, options: NotifierSendOptions): Promise<void> {
+    if (options.dryRun) {
+      console.log(JSON.stringify({ ...event, routing_key: '<redacted>' }, null, 2));
+      return;
+    }
+
+    // Accepted events are answered 202 with status "success"
+    const response = await fetch(config.notifications.pagerduty.eventsUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(event),
+    });
+    if (!response.ok) {
+      const body = (await response.json().catch(() => ({}))) as { message?: string; errors?: string[] };
+      throw new Error(`PagerDuty answered HTTP ${response.status}: ${body.errors?.join(', ') || body.message || 'no details'}`);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Notifier Registry - The notifiers Reporter.notify can send to
+ *
+ * Handles:
+ * - The built-in channels: Slack, Teams, webhook, email and PagerDuty
+ * - Notifiers from extra modules (config.notifications.modules)
+ */
+
+import * as path from 'path';
+import config, { type NotificationsConfig } from '../config.js';
+import { EmailNotifier } from './email-notifier.js';
+import { PagerDutyNotifier } from './pagerduty-notifier.js';
+import { SlackNotifier } from './slack-notifier.js';
+import { TeamsNotifier } from './teams-notifier.js';
+import type { Notifier } from './types.js';
+import { WebhookNotifier } from './webhook-notifier.js';
+
+/**
+ * Built-in notifiers, then those of the extra modules; names must be unique
+ */
+export function createNotifiers(notificationsConfig: NotificationsConfig = config.notifications): Notifier[] {
+  const notifiers: Notifier[] = [
+    new SlackNotifier(),
+    new TeamsNotifier(),
+    new WebhookNotifier(),
+    new EmailNotifier(),
+    new PagerDutyNotifier(),
+  ];
+
+  for (const modulePath of notificationsConfig.modules) {
+    for (const notifier of loadNotifierModule(modulePath)) {
+      if (notifiers.some((n) => n.name === notifier.name)) {
+        throw new Error(`Notifier "${notifier.name}" from ${modulePath} is already registered`);
+      }
+      notifiers.push(notifier);
+    }
+  }
+
+  return notifiers;
+}
+
+/**
+ * Load notifiers from a module whose default export is a notifier or an array of notifiers
+ */
+function loadNotifierModule(modulePath: string): Notifier[] {
+  const loaded = require(path.resolve(modulePath));
+  const exported = loaded.default ?? loaded;
+  const notifiers: Notifier[] = Array.isArray(exported) ? exported : [exported];
+
+  for (const notifier of notifiers) {
+    if (!notifier?.name || typeof notifier.send !== 'function' || typeof notifier.channelConfig !== 'function') {
+      throw new Error(`Notifier module ${modulePath} must export a Notifier or Notifier[]`);
+    }
+  }
+
+  return notifiers;
+}
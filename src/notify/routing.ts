@@ -0,0 +1,65 @@
+/**
+ * Notification Routing - Which channels a run is sent to
+ *
+ * Handles:
+ * - The severity of a run, compared against each channel's minSeverity
+ * - Routes: failed pages counted per domain list and failure category,
+ *   matching once they reach the route's minFailures. Routes only filter
+ *   runs with failed pages; other runs go by minSeverity alone
+ */
+
+import type { CheckSeverity } from '../checks/index.js';
+import type { NotificationRoute } from '../config.js';
+import type { TestResult, TestSummary } from '../utils/reporter.js';
+
+const SEVERITY_RANK: Record<CheckSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+/**
+ * critical when a page failed, warning when a page had warnings or a fare
+ * moved beyond the price alert thresholds, info otherwise
+ */
+export function runSeverity(summary: TestSummary): CheckSeverity {
+  if (summary.failed > 0) return 'critical';
+  if (summary.warnings > 0 || (summary.priceAnomalies?.length ?? 0) > 0) return 'warning';
+  return 'info';
+}
+
+export function meetsSeverity(severity: CheckSeverity, minSeverity: CheckSeverity): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[minSeverity];
+}
+
+/**
+ * Describe each route the failures match; an empty list when there are no
+ * routes or no failures (every such run matches, so warnings and price
+ * anomalies reach the channel), null when routes are set and none matches
+ */
+export function matchRoutes(routes: NotificationRoute[], failureGroups: [string, TestResult[]][]): string[] | null {
+  if (routes.length === 0 || failureGroups.length === 0) {
+    return [];
+  }
+
+  const reasons: string[] = [];
+  for (const route of routes) {
+    const failures = failureGroups
+      .filter(([category]) => !route.categories || route.categories.includes(category))
+      .flatMap(([, results]) => results)
+      .filter((result) => !route.domains || route.domains.some((domain) => sameHost(domain, result.domain)));
+
+    if (failures.length >= route.minFailures) {
+      reasons.push(describeRoute(route, failures.length));
+    }
+  }
+
+  return reasons.length > 0 ? reasons : null;
+}
+
+function describeRoute(route: NotificationRoute, failures: number): string {
+  const domains = route.domains ? ` on ${route.domains.join(', ')}` : '';
+  const categories = route.categories ? ` (${route.categories.join(', ')})` : '';
+  return `${failures} failed page${failures === 1 ? '' : 's'}${domains}${categories}`;
+}
+
+function sameHost(a: string, b: string): boolean {
+  const strip = (h: string) => h.toLowerCase().replace(/^www\./, '');
+  return strip(a) === strip(b);
+}
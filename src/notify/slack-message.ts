@@ -0,0 +1,216 @@
+/**
+ * Slack Message - Builds the Slack payloads for a run summary
+ *
+ * Handles:
+ * - The summary message: changes since the previous run, counts with their
+ *   pass/fail delta, failures grouped by error category, a per-domain
+ *   breakdown, price anomalies and links to the run's artifacts
+ * - Thread replies carrying the full failure list, when the message can
+ *   only show the first few failed pages
+ *
+ * Only builds payloads; SlackNotifier sends them.
+ */
+
+import type { RunDiff } from '../history/index.js';
+import { describePriceAnomaly } from '../history/index.js';
+import type { TestResult, TestSummary } from '../utils/reporter.js';
+import {
+  delta,
+  domainBreakdown,
+  failuresToList,
+  headline,
+  newlyFailingUrls,
+  runTime,
+  screenshotUrl,
+  truncate,
+} from './summary-format.js';
+
+export type SlackBlock = Record<string, unknown>;
+
+export interface SlackMessage {
+  /** Notification and fallback text */
+  text: string;
+  blocks: SlackBlock[];
+}
+
+export interface SlackMessageOptions {
+  /** Failed results by error category, largest group first (Reporter.groupFailures) */
+  failureGroups: [string, TestResult[]][];
+  /** Failed pages listed in the message itself */
+  maxFailures: number;
+  /** Whether the full failure list follows in a thread */
+  threaded: boolean;
+  artifactsUrl?: string;
+  screenshotsBaseUrl?: string;
+  /** Routes the run matched, shown in the footer */
+  reasons?: string[];
+}
+
+/** Slack rejects section text over 3000 characters */
+const MAX_SECTION_CHARS = 2900;
+
+/** Slack rejects messages with more than 50 blocks */
+const MAX_BLOCKS = 50;
+
+/**
+ * The summary message of a run
+ */
+export function buildSlackMessage(summary: TestSummary, options: SlackMessageOptions): SlackMessage {
+  const newlyFailing = newlyFailingUrls(summary.diff);
+  const blocks: SlackBlock[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: `${summary.failed === 0 ? '✅' : '🚨'} Viking Pricing Page Monitor`, emoji: true },
+    },
+    section(formatDiff(summary.diff)),
+    {
+      type: 'section',
+      fields: [
+        field('Total Tested', `${summary.totalTested}${delta(summary.totalTested, summary.diff?.previousTotals?.totalTested)}`),
+        field('Passed', `${summary.passed}${delta(summary.passed, summary.diff?.previousTotals?.passed)}`),
+        field('Failed', `${summary.failed}${delta(summary.failed, summary.diff?.previousTotals?.failed)}`),
+        field('Avg Load Time', `${Math.round(summary.avgLoadTimeMs)}ms`),
+      ],
+    },
+  ];
+
+  if (options.failureGroups.length > 0) {
+    const lines = ['*Failures by category:*'];
+    let listed = 0;
+    failuresToList(options.failureGroups, options.maxFailures, newlyFailing).forEach(([category, shown], i) => {
+      lines.push(`*${category}* (${options.failureGroups[i][1].length})`);
+      lines.push(...shown.map((result) => failureLine(result, newlyFailing, options.screenshotsBaseUrl)));
+      listed += shown.length;
+    });
+
+    const unlisted = summary.failed - listed;
+    if (options.threaded && unlisted > 0) {
+      lines.push(`_All ${summary.failed} failed pages are listed in the thread_`);
+    } else if (unlisted > 0) {
+      lines.push(`_...and ${unlisted} more${options.artifactsUrl ? `, see <${options.artifactsUrl}|the run artifacts>` : ''}_`);
+    }
+    blocks.push(...sections(lines));
+  }
+
+  const domains = domainBreakdown(summary.results);
+  if (domains.length > 1) {
+    blocks.push(
+      section(
+        [
+          '*By domain:*',
+          ...domains.map((d) => `• ${d.domain}: ${d.tested} tested · ✅ ${d.passed} · ${d.failed > 0 ? '❌' : '✔️'} ${d.failed} failed`),
+        ].join('\n')
+      )
+    );
+  }
+
+  const anomalies = summary.priceAnomalies || [];
+  if (anomalies.length > 0) {
+    const lines = anomalies.slice(0, 5).map((a) => `• ${link(a.url)}: ${describePriceAnomaly(a)}`);
+    const more = anomalies.length > 5 ? `\n_...and ${anomalies.length - 5} more_` : '';
+    blocks.push(section(`*Price anomalies:*\n${lines.join('\n')}${more}`));
+  }
+
+  blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: contextText(summary, options) }] });
+
+  return { text: headline(summary), blocks: blocks.slice(0, MAX_BLOCKS) };
+}
+
+/**
+ * Thread replies listing every failed page, one category after another
+ */
+export function buildSlackThread(summary: TestSummary, options: SlackMessageOptions): SlackMessage[] {
+  const newlyFailing = newlyFailingUrls(summary.diff);
+  const messages: SlackMessage[] = [];
+
+  for (const [category, results] of options.failureGroups) {
+    const blocks = sections([
+      `*${category}* (${results.length})`,
+      ...results.map((r) => failureLine(r, newlyFailing, options.screenshotsBaseUrl)),
+    ]);
+
+    for (let i = 0; i < blocks.length; i += MAX_BLOCKS) {
+      messages.push({ text: `${category} (${results.length})`, blocks: blocks.slice(i, i + MAX_BLOCKS) });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * The changes since the previous run, for the top of the message
+ */
+function formatDiff(diff?: RunDiff): string {
+  if (!diff?.previousRunAt) {
+    return '*Changes since last run:* no previous run recorded';
+  }
+
+  const lines = [
+    `*Changes since last run:* 🆕 ${diff.newlyFailing.length} newly failing · ` +
+      `✅ ${diff.newlyRecovered.length} recovered · ⏳ ${diff.persistentlyFailing.length} still failing`,
+  ];
+  for (const r of diff.newlyFailing.slice(0, 5)) {
+    lines.push(`• 🆕 ${link(r.url)}: ${truncate(r.errors.join(', '))}`);
+  }
+  if (diff.newlyFailing.length > 5) {
+    lines.push(`_...and ${diff.newlyFailing.length - 5} more newly failing_`);
+  }
+  for (const r of diff.newlyRecovered.slice(0, 5)) {
+    lines.push(`• ✅ ${link(r.url)}`);
+  }
+  if (diff.newlyRecovered.length > 5) {
+    lines.push(`_...and ${diff.newlyRecovered.length - 5} more recovered_`);
+  }
+
+  return lines.join('\n');
+}
+
+function contextText(summary: TestSummary, options: SlackMessageOptions): string {
+  const parts = [`Run at: ${runTime(summary)}`];
+  if (summary.selection?.length) {
+    parts.push(`Selection: ${summary.selection.join(', ')}`);
+  }
+  if (options.reasons?.length) {
+    parts.push(`Routed: ${options.reasons.join('; ')}`);
+  }
+  if (options.artifactsUrl) {
+    parts.push(`<${options.artifactsUrl}|Screenshots, reports and results>`);
+  }
+  return parts.join(' · ');
+}
+
+function failureLine(result: TestResult, newlyFailing: Set<string>, screenshotsBaseUrl?: string): string {
+  const marker = newlyFailing.has(result.url) ? '🆕 ' : '';
+  const screenshot = screenshotUrl(result, screenshotsBaseUrl);
+  return `• ${marker}${link(result.url)}: ${truncate(result.errors.join(', '))}${screenshot ? ` <${screenshot}|📸>` : ''}`;
+}
+
+function link(url: string): string {
+  return `<${url}|${new URL(url).pathname}>`;
+}
+
+function field(label: string, value: string): SlackBlock {
+  return { type: 'mrkdwn', text: `*${label}:*\n${value}` };
+}
+
+function section(text: string): SlackBlock {
+  return { type: 'section', text: { type: 'mrkdwn', text } };
+}
+
+/**
+ * Lines spread over as many sections as Slack's text limit needs
+ */
+function sections(lines: string[]): SlackBlock[] {
+  const texts: string[] = [];
+  let current = '';
+  for (const line of lines) {
+    if (current && current.length + line.length + 1 > MAX_SECTION_CHARS) {
+      texts.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n${line}` : line;
+  }
+  if (current) texts.push(current);
+
+  return texts.map(section);
+}
@@ -0,0 +1,84 @@
+/**
+ * Slack Notifier - Posts the run summary to Slack
+ *
+ * With a bot token and channel the summary goes out through
+ * chat.postMessage, and the full failure list follows in a thread when the
+ * message can't hold it. An incoming webhook can't thread, so its message
+ * links to the run's artifacts for the rest.
+ */
+
+import config from '../config.js';
+import { buildSlackMessage, buildSlackThread, type SlackMessage, type SlackMessageOptions } from './slack-message.js';
+import type { Notification, Notifier, NotifierSendOptions } from './types.js';
+
+export class SlackNotifier implements Notifier {
+  name = 'slack';
+
+  channelConfig() {
+    return config.notifications.slack;
+  }
+
+  isConfigured(): boolean {
+    const slack = config.notifications.slack;
+    return Boolean((slack.botToken && slack.channel) || slack.webhookUrl);
+  }
+
+  async send(notification: Notification, options: NotifierSendOptions = {}): Promise<void> {
+    const { slack, artifactsUrl, screenshotsBaseUrl } = config.notifications;
+    const { summary } = notification;
+    const useApi = Boolean(slack.botToken && slack.channel);
+
+    const messageOptions: SlackMessageOptions = {
+      failureGroups: notification.failureGroups,
+      maxFailures: slack.maxFailuresInMessage,
+      threaded: useApi && summary.failed > slack.maxFailuresInMessage,
+      artifactsUrl,
+      screenshotsBaseUrl,
+      reasons: notification.reasons,
+    };
+    const message = buildSlackMessage(summary, messageOptions);
+    const thread = messageOptions.threaded ? buildSlackThread(summary, messageOptions) : [];
+
+    if (options.dryRun) {
+      console.log(JSON.stringify({ message, thread }, null, 2));
+      return;
+    }
+
+    if (useApi) {
+      const ts = await this.postMessage(message);
+      for (const reply of thread) {
+        await this.postMessage(reply, ts);
+      }
+      return;
+    }
+
+    const response = await fetch(slack.webhookUrl!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    });
+    if (!response.ok) {
+      throw new Error(`Slack webhook answered HTTP ${response.status}`);
+    }
+  }
+
+  /**
+   * Post a message with the bot token (chat.postMessage); returns its ts,
+   * which replies are threaded under
+   */
+  private async postMessage(message: SlackMessage, threadTs?: string): Promise<string> {
+    const { apiUrl, botToken, channel } = config.notifications.slack;
+    const response = await fetch(`${apiUrl}/chat.postMessage`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json; charset=utf-8', Authorization: `Bearer ${botToken}` },
+      body: JSON.stringify({ channel, ...message, ...(threadTs && { thread_ts: threadTs }) }),
+    });
+
+    // The Web API answers 200 with ok: false on errors
+    const body = (await response.json().catch(() => ({}))) as { ok?: boolean; ts?: string; error?: string };
+    if (!response.ok || !body.ok || !body.ts) {
+      throw new Error(`chat.postMessage failed: ${body.error || `HTTP ${response.status}`}`);
+    }
+    return body.ts;
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * SMTP Client - Sends one plain-text email
+ *
+ * Handles:
+ * - Implicit TLS (port 465), or STARTTLS when the server offers it
+ * - AUTH PLAIN, only over an encrypted connection
+ * - The MIME message: UTF-8 headers and a base64 body
+ *
+ * Just enough SMTP for the email notifier; one message per connection.
+ */
+
+import * as net from 'net';
+import * as os from 'os';
+import * as tls from 'tls';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** TLS from the start; otherwise STARTTLS is used when the server offers it */
+  secure: boolean;
+  username?: string;
+  password?: string;
+  timeoutMs: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpResponse {
+  code: number;
+  text: string;
+}
+
+/**
+ * Send a message; throws with the server's answer when a command is refused
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  const session = await SmtpSession.connect(options);
+  try {
+    await session.expect(null, [220], 'greeting');
+    let ehlo = await session.expect(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+
+    if (!session.encrypted && /^STARTTLS\b/im.test(ehlo.text)) {
+      await session.expect('STARTTLS', [220]);
+      await session.startTls(options.host);
+      ehlo = await session.expect(`EHLO ${os.hostname() || 'localhost'}`, [250]);
+    }
+
+    if (options.username) {
+      if (!session.encrypted) {
+        throw new Error(`SMTP server ${options.host} offers no TLS; not sending the password in the clear`);
+      }
+      const credentials = Buffer.from(`\0${options.username}\0${options.password || ''}`).toString('base64');
+      await session.expect(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await session.expect(`MAIL FROM:<${message.from}>`, [250], 'MAIL FROM');
+    for (const recipient of message.to) {
+      await session.expect(`RCPT TO:<${recipient}>`, [250, 251], 'RCPT TO');
+    }
+    await session.expect('DATA', [354]);
+    await session.expect(`${formatMessage(message)}\r\n.`, [250], 'message');
+    await session.expect('QUIT', [221]).catch(() => {});
+  } finally {
+    session.close();
+  }
+}
+
+/**
+ * The message as sent after DATA. The body is base64, so no line can start
+ * with the "." that ends the data.
+ */
+export function formatMessage(message: MailMessage): string {
+  const domain = message.from.split('@')[1] || 'localhost';
+  const body = Buffer.from(message.text, 'utf-8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${Date.now()}.${Math.random().toString(36).slice(2)}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body.replace(/\r\n$/, ''),
+  ].join('\r\n');
+}
+
+/**
+ * RFC 2047 encoded-word for a header with non-ASCII text
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+}
+
+/**
+ * One connection: sends command lines and reads the (multi-line) replies
+ */
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private responses: SmtpResponse[] = [];
+  private waiting?: { resolve: (response: SmtpResponse) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  private constructor(
+    private socket: net.Socket,
+    public encrypted: boolean,
+    private timeoutMs: number
+  ) {
+    this.attach(socket);
+  }
+
+  static connect(options: SmtpOptions): Promise<SmtpSession> {
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+        : net.connect({ host: options.host, port: options.port });
+      socket.setTimeout(options.timeoutMs, () => socket.destroy(new Error(`SMTP server ${options.host} timed out`)));
+      socket.once('error', reject);
+      socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject);
+        resolve(new SmtpSession(socket, options.secure, options.timeoutMs));
+      });
+    });
+  }
+
+  /**
+   * Send a command (or just read, for the greeting) and check the reply code
+   */
+  async expect(command: string | null, codes: number[], label = command?.split(' ')[0] || ''): Promise<SmtpResponse> {
+    if (command !== null) {
+      this.socket.write(`${command}\r\n`);
+    }
+    const response = await this.read();
+    if (!codes.includes(response.code)) {
+      throw new Error(`SMTP ${label} refused: ${response.code} ${response.text}`);
+    }
+    return response;
+  }
+
+  /**
+   * Upgrade the connection after the server accepted STARTTLS
+   */
+  startTls(servername: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.removeAllListeners('timeout');
+    plain.setTimeout(0);
+
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername });
+      secure.setTimeout(this.timeoutMs, () => secure.destroy(new Error(`SMTP server ${servername} timed out`)));
+      secure.once('error', reject);
+      secure.once('secureConnect', () => {
+        secure.off('error', reject);
+        this.socket = secure;
+        this.encrypted = true;
+        this.attach(secure);
+        resolve();
+      });
+    });
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding('utf-8');
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  /**
+   * Collect reply lines; "250-..." continues a reply, "250 ..." ends it
+   */
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, end).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(end + 1);
+      this.lines.push(line);
+      if (/^\d{3}-/.test(line)) continue;
+
+      this.responses.push({ code: Number(line.slice(0, 3)), text: this.lines.map((l) => l.slice(4)).join('\n') });
+      this.lines = [];
+    }
+    this.settle();
+  }
+
+  private read(): Promise<SmtpResponse> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.settle();
+    });
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.settle();
+  }
+
+  private settle(): void {
+    if (!this.waiting) return;
+    const { resolve, reject } = this.waiting;
+    const response = this.responses.shift();
+    if (response) {
+      this.waiting = undefined;
+      resolve(response);
+    } else if (this.failure) {
+      this.waiting = undefined;
+      reject(this.failure);
+    }
+  }
+}
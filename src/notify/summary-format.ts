@@ -0,0 +1,106 @@
+/**
+ * Summary Format - Pieces of a run summary shared by the notifiers
+ *
+ * Handles:
+ * - The one-line headline, and counts with their change since the last run
+ * - Tested, passed and failed pages per domain
+ * - Which failed pages a size-limited message lists
+ * - Deciding whether anything changed since the previous run (quiet mode)
+ */
+
+import * as path from 'path';
+import type { RunDiff } from '../history/index.js';
+import type { TestResult, TestSummary } from '../utils/reporter.js';
+
+export interface DomainBreakdown {
+  domain: string;
+  tested: number;
+  passed: number;
+  failed: number;
+}
+
+/**
+ * "🚨 15 of 17 pricing pages failed" or "✅ All 17 pricing pages passed"
+ */
+export function headline(summary: TestSummary): string {
+  return summary.failed === 0
+    ? `✅ All ${summary.totalTested} pricing pages passed`
+    : `🚨 ${summary.failed} of ${summary.totalTested} pricing pages failed`;
+}
+
+/**
+ * Whether a page failed or recovered, or a fare moved, since the previous
+ * run; a first run always counts as a change
+ */
+export function hasChangedSinceLastRun(summary: TestSummary): boolean {
+  const diff = summary.diff;
+  if (!diff?.previousRunAt) {
+    return true;
+  }
+
+  return diff.newlyFailing.length > 0 || diff.newlyRecovered.length > 0 || (summary.priceAnomalies?.length ?? 0) > 0;
+}
+
+/**
+ * Tested, passed and failed pages per domain, most failures first
+ */
+export function domainBreakdown(results: TestResult[]): DomainBreakdown[] {
+  const byDomain = new Map<string, DomainBreakdown>();
+  for (const result of results) {
+    const counts = byDomain.get(result.domain) || { domain: result.domain, tested: 0, passed: 0, failed: 0 };
+    counts.tested++;
+    if (result.passed) counts.passed++;
+    else counts.failed++;
+    byDomain.set(result.domain, counts);
+  }
+
+  return [...byDomain.values()].sort((a, b) => b.failed - a.failed || a.domain.localeCompare(b.domain));
+}
+
+/**
+ * The failed pages a message with room for maxFailures lists, per category:
+ * every category shows at least one page, newly failing pages first
+ */
+export function failuresToList(
+  failureGroups: [string, TestResult[]][],
+  maxFailures: number,
+  newlyFailing: Set<string>
+): [string, TestResult[]][] {
+  let listed = 0;
+  return failureGroups.map(([category, results], i) => {
+    const laterGroups = failureGroups.length - i - 1;
+    const budget = Math.max(1, maxFailures - listed - laterGroups);
+    const ordered = [...results].sort((a, b) => Number(newlyFailing.has(b.url)) - Number(newlyFailing.has(a.url)));
+    const shown = ordered.slice(0, budget);
+    listed += shown.length;
+    return [category, shown];
+  });
+}
+
+export function newlyFailingUrls(diff?: RunDiff): Set<string> {
+  return new Set(diff?.newlyFailing.map((r) => r.url) || []);
+}
+
+/**
+ * " (+1)" / " (-2)" against the previous run's count, or nothing
+ */
+export function delta(current: number, previous?: number): string {
+  if (previous === undefined || current === previous) return '';
+  return ` (${current > previous ? '+' : ''}${current - previous})`;
+}
+
+/**
+ * Link to a failed page's screenshot, when the screenshots are published
+ */
+export function screenshotUrl(result: TestResult, screenshotsBaseUrl?: string): string | undefined {
+  if (!screenshotsBaseUrl || !result.screenshotPath) return undefined;
+  return `${screenshotsBaseUrl.replace(/\/$/, '')}/${encodeURIComponent(path.basename(result.screenshotPath))}`;
+}
+
+export function runTime(summary: TestSummary): string {
+  return `${new Date(summary.runAt).toLocaleString('en-US', { timeZone: 'America/Los_Angeles' })} PT`;
+}
+
+export function truncate(text: string, max = 150): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
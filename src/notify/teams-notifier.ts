@@ -0,0 +1,168 @@
+/**
+ * Teams Notifier - Posts the run summary to Microsoft Teams
+ *
+ * Handles:
+ * - The summary as an Adaptive Card: changes since the previous run,
+ *   counts with their delta, failures by category, a per-domain
+ *   breakdown, price anomalies and a button to the run's artifacts
+ * - Posting it to a channel's incoming webhook or Workflows URL
+ */
+
+import config from '../config.js';
+import { describePriceAnomaly } from '../history/index.js';
+import {
+  delta,
+  domainBreakdown,
+  failuresToList,
+  headline,
+  newlyFailingUrls,
+  runTime,
+  screenshotUrl,
+  truncate,
+} from './summary-format.js';
+import type { Notification, Notifier, NotifierSendOptions } from './types.js';
+
+export type AdaptiveCardElement = Record<string, unknown>;
+
+export interface TeamsCardOptions {
+  maxFailures: number;
+  artifactsUrl?: string;
+  screenshotsBaseUrl?: string;
+}
+
+/**
+ * Teams webhook message carrying the run summary as an Adaptive Card
+ */
+export function buildTeamsCard(notification: Notification, options: TeamsCardOptions): Record<string, unknown> {
+  const { summary, failureGroups, reasons } = notification;
+  const previous = summary.diff?.previousTotals;
+  const newlyFailing = newlyFailingUrls(summary.diff);
+
+  const body: AdaptiveCardElement[] = [
+    {
+      type: 'TextBlock',
+      text: 'Viking Pricing Page Monitor',
+      size: 'Large',
+      weight: 'Bolder',
+      color: summary.failed === 0 ? 'Good' : 'Attention',
+    },
+    textBlock(`**${headline(summary)}**`),
+    textBlock(`Run at ${runTime(summary)}${reasons.length > 0 ? ` · Routed: ${reasons.join('; ')}` : ''}`, { isSubtle: true }),
+  ];
+
+  if (summary.diff?.previousRunAt) {
+    const { newlyRecovered, persistentlyFailing } = summary.diff;
+    const lines = [
+      `**Changes since last run:** 🆕 ${newlyFailing.size} newly failing · ✅ ${newlyRecovered.length} recovered · ⏳ ${persistentlyFailing.length} still failing`,
+      ...newlyRecovered.slice(0, 5).map((r) => `- ✅ ${link(r.url)}`),
+    ];
+    body.push(textBlock(lines.join('\n\n')));
+  }
+
+  body.push({
+    type: 'FactSet',
+    facts: [
+      fact('Total Tested', `${summary.totalTested}${delta(summary.totalTested, previous?.totalTested)}`),
+      fact('Passed', `${summary.passed}${delta(summary.passed, previous?.passed)}`),
+      fact('Failed', `${summary.failed}${delta(summary.failed, previous?.failed)}`),
+      fact('Avg Load Time', `${Math.round(summary.avgLoadTimeMs)}ms`),
+    ],
+  });
+
+  if (failureGroups.length > 0) {
+    const items: AdaptiveCardElement[] = [textBlock('**Failures by category**')];
+    let listed = 0;
+    failuresToList(failureGroups, options.maxFailures, newlyFailing).forEach(([category, shown], i) => {
+      const lines = shown.map((result) => {
+        const screenshot = screenshotUrl(result, options.screenshotsBaseUrl);
+        const marker = newlyFailing.has(result.url) ? '🆕 ' : '';
+        return `- ${marker}${link(result.url)}: ${truncate(result.errors.join(', '))}${screenshot ? ` [📸](${screenshot})` : ''}`;
+      });
+      items.push(textBlock(`**${category}** (${failureGroups[i][1].length})\n\n${lines.join('\n')}`));
+      listed += shown.length;
+    });
+    if (summary.failed > listed) {
+      items.push(textBlock(`_...and ${summary.failed - listed} more_`, { isSubtle: true }));
+    }
+    body.push({ type: 'Container', separator: true, items });
+  }
+
+  const domains = domainBreakdown(summary.results);
+  if (domains.length > 1) {
+    body.push(textBlock('**By domain**', { separator: true }), {
+      type: 'FactSet',
+      facts: domains.map((d) => fact(d.domain, `${d.tested} tested · ✅ ${d.passed} · ❌ ${d.failed} failed`)),
+    });
+  }
+
+  const anomalies = summary.priceAnomalies || [];
+  if (anomalies.length > 0) {
+    const lines = anomalies.slice(0, 5).map((a) => `- ${link(a.url)}: ${describePriceAnomaly(a)}`);
+    if (anomalies.length > 5) lines.push(`- _...and ${anomalies.length - 5} more_`);
+    body.push(textBlock(`**Price anomalies**\n\n${lines.join('\n')}`, { separator: true }));
+  }
+
+  return {
+    type: 'message',
+    attachments: [
+      {
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          msteams: { width: 'Full' },
+          body,
+          ...(options.artifactsUrl && {
+            actions: [{ type: 'Action.OpenUrl', title: 'Screenshots, reports and results', url: options.artifactsUrl }],
+          }),
+        },
+      },
+    ],
+  };
+}
+
+export class TeamsNotifier implements Notifier {
+  name = 'teams';
+
+  channelConfig() {
+    return config.notifications.teams;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(config.notifications.teams.webhookUrl);
+  }
+
+  async send(notification: Notification, options: NotifierSendOptions = {}): Promise<void> {
+    const { teams, artifactsUrl, screenshotsBaseUrl } = config.notifications;
+    const card = buildTeamsCard(notification, { maxFailures: teams.maxFailuresInMessage, artifactsUrl, screenshotsBaseUrl });
+
+    if (options.dryRun) {
+      console.log(JSON.stringify(card, null, 2));
+      return;
+    }
+
+    // Incoming webhooks answer 200, Workflows 202
+    const response = await fetch(teams.webhookUrl!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(card),
+    });
+    if (!response.ok) {
+      throw new Error(`Teams webhook answered HTTP ${response.status}`);
+    }
+  }
+}
+
+function textBlock(text: string, extra: AdaptiveCardElement = {}): AdaptiveCardElement {
+  return { type: 'TextBlock', text, wrap: true, ...extra };
+}
+
+function fact(title: string, value: string): AdaptiveCardElement {
+  return { title, value };
+}
+
+function link(url: string): string {
+  return `[${new URL(url).pathname}](${url})`;
+}
@@ -0,0 +1,50 @@
+/**
+ * Notifier Types
+ *
+ * A notifier delivers a run's summary to one channel (Slack, Teams, ...).
+ * Reporter.notify decides which notifiers a run is sent to, from each
+ * channel's severity threshold, routes and quiet mode.
+ */
+
+import type { CheckSeverity } from '../checks/index.js';
+import type { NotificationChannelConfig } from '../config.js';
+import type { TestResult, TestSummary } from '../utils/reporter.js';
+
+export interface Notification {
+  summary: TestSummary;
+  /** critical when a page failed, warning when a page had warnings or a fare moved, info otherwise */
+  severity: CheckSeverity;
+  /** Failed results by error category, largest group first (Reporter.groupFailures) */
+  failureGroups: [string, TestResult[]][];
+  /** The channel's routes this run matched, e.g. "6 failed pages on www.viking.com" */
+  reasons: string[];
+}
+
+export interface NotifierSendOptions {
+  /** Print the payloads instead of sending them */
+  dryRun?: boolean;
+}
+
+export interface NotifyOptions extends NotifierSendOptions {
+  /** Skip channels when nothing changed since the previous run (default: each channel's quietWhenUnchanged) */
+  quiet?: boolean;
+  /** Notify only these channels, configured or not (default: every configured channel) */
+  channels?: string[];
+}
+
+export interface Notifier {
+  /** Channel name, as used by `notify --channel` */
+  name: string;
+
+  /** Threshold, routes and quiet mode of the channel */
+  channelConfig(): NotificationChannelConfig;
+
+  /** Whether the channel's URL, token or server is set */
+  isConfigured(): boolean;
+
+  /** Deliver the notification; throws when the channel rejects it */
+  send(notification: Notification, options?: NotifierSendOptions): Promise<void>;
+
+  /** Clear what an earlier send raised, once a run no longer meets the threshold and routes */
+  resolve?(notification: Notification, options?: NotifierSendOptions): Promise<void>;
+}
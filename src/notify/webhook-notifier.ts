@@ -0,0 +1,98 @@
+/**
+ * Webhook Notifier - POSTs the run summary as JSON to any URL
+ *
+ * For dashboards, chat tools without a notifier of their own, or
+ * automation. The payload is versioned so receivers can tell formats apart.
+ */
+
+import config from '../config.js';
+import type { DomainBreakdown } from './summary-format.js';
+import { domainBreakdown, screenshotUrl } from './summary-format.js';
+import type { Notification, Notifier, NotifierSendOptions } from './types.js';
+
+export interface WebhookPayload {
+  version: 1;
+  event: 'pricing-monitor.run';
+  severity: Notification['severity'];
+  reasons: string[];
+  runAt: string;
+  totalTested: number;
+  passed: number;
+  failed: number;
+  warnings: number;
+  avgLoadTimeMs: number;
+  selection?: string[];
+  changes?: { newlyFailing: string[]; newlyRecovered: string[]; persistentlyFailing: string[] };
+  domains: DomainBreakdown[];
+  failures: { url: string; domain: string; category: string; errors: string[]; screenshotUrl?: string }[];
+  priceAnomalies: NonNullable<Notification['summary']['priceAnomalies']>;
+  artifactsUrl?: string;
+}
+
+export function buildWebhookPayload(
+  notification: Notification,
+  options: { artifactsUrl?: string; screenshotsBaseUrl?: string } = {}
+): WebhookPayload {
+  const { summary, failureGroups } = notification;
+
+  return {
+    version: 1,
+    event: 'pricing-monitor.run',
+    severity: notification.severity,
+    reasons: notification.reasons,
+    runAt: summary.runAt,
+    totalTested: summary.totalTested,
+    passed: summary.passed,
+    failed: summary.failed,
+    warnings: summary.warnings,
+    avgLoadTimeMs: Math.round(summary.avgLoadTimeMs),
+    ...(summary.selection && { selection: summary.selection }),
+    ...(summary.diff?.previousRunAt && {
+      changes: {
+        newlyFailing: summary.diff.newlyFailing.map((r) => r.url),
+        newlyRecovered: summary.diff.newlyRecovered.map((r) => r.url),
+        persistentlyFailing: summary.diff.persistentlyFailing.map((r) => r.url),
+      },
+    }),
+    domains: domainBreakdown(summary.results),
+    failures: failureGroups.flatMap(([category, results]) =>
+      results.map((r) => {
+        const screenshot = screenshotUrl(r, options.screenshotsBaseUrl);
+        return { url: r.url, domain: r.domain, category, errors: r.errors, ...(screenshot && { screenshotUrl: screenshot }) };
+      })
+    ),
+    priceAnomalies: summary.priceAnomalies || [],
+    ...(options.artifactsUrl && { artifactsUrl: options.artifactsUrl }),
+  };
+}
+
+export class WebhookNotifier implements Notifier {
+  name = 'webhook';
+
+  channelConfig() {
+    return config.notifications.webhook;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(config.notifications.webhook.url);
+  }
+
+  async send(notification: Notification, options: NotifierSendOptions = {}): Promise<void> {
+    const { webhook, artifactsUrl, screenshotsBaseUrl } = config.notifications;
+    const payload = buildWebhookPayload(notification, { artifactsUrl, screenshotsBaseUrl });
+
+    if (options.dryRun) {
+      console.log(JSON.stringify(payload, null, 2));
+      return;
+    }
+
+    const response = await fetch(webhook.url!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...webhook.headers },
+      body: JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook ${webhook.url} answered HTTP ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Pre-flight Module Exports
+ */
+
+export {
+  PreflightChecker,
+  preflightResult,
+  savePreflightReport,
+  loadPreflightReport,
+  type PreflightVerdict,
+  type PreflightEntry,
+  type PreflightReport,
+} from './preflight-checker.js';
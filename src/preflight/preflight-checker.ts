@@ -0,0 +1,249 @@
+/**
+ * Pre-flight Checker - Cheap HTTP check of every manifest URL before the browser tests
+ *
+ * Handles:
+ * - HEAD requests (GET when a server rejects HEAD), following redirects by hand
+ *   to record the chain
+ * - Classifying URLs: dead (404/410/5xx, redirected to the homepage, redirect
+ *   loops), live (200) or unknown (bot protection, network errors)
+ * - Turning dead URLs into failed results, so they are reported like a
+ *   browser test of the same page would report them
+ * - Saving the report, and loading it only while it matches the manifest
+ *
+ * Only dead URLs skip the browser; unknown URLs are tested as usual.
+ */
+
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import config from '../config.js';
+import type { DiscoveredUrl, UrlManifest } from '../discovery/index.js';
+import type { PricingPageResult, RedirectHop } from '../checks/index.js';
+import { httpStatusCheck, isHomepageUrl, redirectCheck } from '../checks/page-checks.js';
+import { HttpClient } from '../utils/http-client.js';
+
+export type PreflightVerdict = 'live' | 'dead' | 'unknown';
+
+export interface PreflightEntry {
+  url: string;
+  domain: string;
+  verdict: PreflightVerdict;
+  /** Status of the last response (0 when the request failed) */
+  status: number;
+  /** Redirects followed from url to finalUrl, in order */
+  redirects: RedirectHop[];
+  finalUrl: string;
+  /** Why the URL is dead or unknown */
+  reason?: string;
+  durationMs: number;
+  checkedAt: string;
+}
+
+export interface PreflightReport {
+  version: string;
+  checkedAt: string;
+  /** generatedAt of the manifest the URLs came from */
+  manifestGeneratedAt: string;
+  total: number;
+  live: number;
+  dead: number;
+  unknown: number;
+  entries: PreflightEntry[];
+}
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+export class PreflightChecker {
+  private http: HttpClient;
+
+  constructor(http: HttpClient = new HttpClient()) {
+    this.http = http;
+  }
+
+  /**
+   * Check every URL of a manifest
+   */
+  async checkManifest(manifest: UrlManifest): Promise<PreflightReport> {
+    const entries: PreflightEntry[] = [];
+    const chunks = this.chunkArray(manifest.urls, config.maxConcurrentDiscovery);
+
+    for (const chunk of chunks) {
+      entries.push(...(await Promise.all(chunk.map((urlInfo) => this.checkUrl(urlInfo)))));
+
+      // Progress roughly every 100 URLs
+      if (entries.length % 100 < chunk.length) {
+        console.log(`  … ${entries.length}/${manifest.urls.length} URLs checked`);
+      }
+    }
+
+    const count = (verdict: PreflightVerdict) => entries.filter((e) => e.verdict === verdict).length;
+
+    return {
+      version: '1.0.0',
+      checkedAt: new Date().toISOString(),
+      manifestGeneratedAt: manifest.generatedAt,
+      total: entries.length,
+      live: count('live'),
+      dead: count('dead'),
+      unknown: count('unknown'),
+      entries,
+    };
+  }
+
+  /**
+   * Request a URL, following up to config.preflight.maxRedirects redirects
+   */
+  async checkUrl(urlInfo: DiscoveredUrl): Promise<PreflightEntry> {
+    const startTime = Date.now();
+    const redirects: RedirectHop[] = [];
+    let current = urlInfo.url;
+
+    const entry = (verdict: PreflightVerdict, status: number, reason?: string): PreflightEntry => ({
+      url: urlInfo.url,
+      domain: urlInfo.domain,
+      verdict,
+      status,
+      redirects,
+      finalUrl: current,
+      reason,
+      durationMs: Date.now() - startTime,
+      checkedAt: new Date().toISOString(),
+    });
+
+    try {
+      for (;;) {
+        const status = await this.requestStatus(current);
+        const location = status.location;
+
+        if (!REDIRECT_STATUSES.includes(status.code) || !location) {
+          const [verdict, reason] = this.classify(status.code, current, redirects.length > 0);
+          return entry(verdict, status.code, reason);
+        }
+
+        if (redirects.length >= config.preflight.maxRedirects) {
+          return entry('dead', status.code, `More than ${config.preflight.maxRedirects} redirects`);
+        }
+
+        redirects.push({ url: current, status: status.code });
+        current = new URL(location, current).toString();
+      }
+    } catch (error) {
+      const message =
+        error instanceof Error ? (error.name === 'AbortError' ? 'Timeout' : error.message) : String(error);
+      return entry('unknown', 0, message);
+    }
+  }
+
+  /**
+   * Status and Location of a URL, without following redirects
+   */
+  private async requestStatus(url: string): Promise<{ code: number; location: string | null }> {
+    let response = await this.http.head(url, { redirect: 'manual' });
+
+    // Some servers only implement GET
+    if (response.status === 405 || response.status === 501) {
+      response = await this.http.get(url, { redirect: 'manual' });
+    }
+    await response.body?.cancel().catch(() => {});
+
+    return { code: response.status, location: response.headers.get('location') };
+  }
+
+  private classify(status: number, finalUrl: string, redirected: boolean): [PreflightVerdict, string?] {
+    if (status === 404 || status === 410 || status >= 500) {
+      return ['dead', `HTTP ${status}`];
+    }
+    if (status >= 200 && status < 300) {
+      return redirected && isHomepageUrl(finalUrl)
+        ? ['dead', `Redirected to homepage: ${finalUrl}`]
+        : ['live'];
+    }
+    // 403/429 are usually bot protection a browser gets past
+    return ['unknown', `HTTP ${status}`];
+  }
+
+  /**
+   * Split array into chunks
+   */
+  private chunkArray<T>(array: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < array.length; i += size) {
+      chunks.push(array.slice(i, i + size));
+    }
+    return chunks;
+  }
+}
+
+/**
+ * Failed result for a dead URL, matching what the pricing spec reports for
+ * the same page so failures are grouped into the same categories
+ */
+export function preflightResult(entry: PreflightEntry): PricingPageResult {
+  const redirectedHome = entry.status >= 200 && entry.status < 300;
+  const failedCheck = redirectedHome
+    ? { id: redirectCheck.id, name: redirectCheck.name, details: `${entry.reason} (pre-flight)` }
+    : entry.status === 404 || entry.status === 410 || entry.status >= 500
+      ? { id: httpStatusCheck.id, name: httpStatusCheck.name, details: `Status: ${entry.status} (pre-flight)` }
+      : { id: 'page-load', name: 'Page load', details: `${entry.reason} (pre-flight)` };
+
+  return {
+    url: entry.url,
+    domain: entry.domain,
+    passed: false,
+    loadTimeMs: entry.durationMs,
+    httpStatus: entry.status,
+    ...(entry.redirects.length > 0 && { finalUrl: entry.finalUrl, redirectChain: entry.redirects }),
+    checks: [{ ...failedCheck, passed: false, severity: 'critical' }],
+    errors: [entry.reason || `HTTP ${entry.status}`],
+    warnings: [],
+    testedAt: entry.checkedAt,
+  };
+}
+
+/**
+ * Save a pre-flight report
+ */
+export async function savePreflightReport(
+  report: PreflightReport,
+  reportPath: string = config.output.preflightFile
+): Promise<void> {
+  await fsp.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+  console.log(`\n📝 Pre-flight report saved to: ${reportPath}`);
+}
+
+/**
+ * Load the pre-flight report for the current manifest. Returns null when
+ * there is none, or when it was made for another manifest or is older than
+ * config.preflight.maxAgeHours, so stale results never hide a page.
+ * Synchronous, as the pricing spec builds its test list at load time.
+ */
+export function loadPreflightReport(
+  reportPath: string = config.output.preflightFile,
+  manifestPath: string = config.output.manifestFile
+): PreflightReport | null {
+  if (!fs.existsSync(reportPath) || !fs.existsSync(manifestPath)) {
+    return null;
+  }
+
+  try {
+    const report: PreflightReport = JSON.parse(fs.readFileSync(reportPath, 'utf-8'));
+    const manifest: UrlManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+
+    if (report.manifestGeneratedAt !== manifest.generatedAt) {
+      console.warn(`⚠️  Ignoring ${reportPath}: it was made for another manifest`);
+      return null;
+    }
+
+    const ageHours = (Date.now() - new Date(report.checkedAt).getTime()) / 3_600_000;
+    if (ageHours > config.preflight.maxAgeHours) {
+      console.warn(`⚠️  Ignoring ${reportPath}: older than ${config.preflight.maxAgeHours}h`);
+      return null;
+    }
+
+    return report;
+  } catch (error) {
+    console.warn(`⚠️  Could not read ${reportPath}:`, error);
+    return null;
+  }
+}
+
+export default PreflightChecker;
@@ -0,0 +1,50 @@
+/**
+ * Run Pre-flight - The `viking-monitor preflight` command
+ *
+ * Requests every URL of the manifest over plain HTTP and writes
+ * preflight.json. The next `npm test` then reports dead URLs (404/410/5xx,
+ * redirected to the homepage) without loading them in a browser, and
+ * tests only the rest.
+ *
+ * Dead URLs are reported by the test run, so this command only fails
+ * when it cannot run at all.
+ *
+ * Usage:
+ *   npm run preflight
+ *   npm run test:preflight    # pre-flight, then the browser tests (check --preflight)
+ */
+
+import { ManifestManager } from '../discovery/index.js';
+import { HttpClient } from '../utils/http-client.js';
+import { PreflightChecker, savePreflightReport } from './preflight-checker.js';
+
+export async function runPreflight(): Promise<void> {
+  console.log('═══════════════════════════════════════════════════════');
+  console.log('       Viking Pricing Page Pre-flight');
+  console.log('═══════════════════════════════════════════════════════\n');
+
+  const manifest = await new ManifestManager().loadManifest();
+  console.log(`📋 Checking ${manifest.urls.length} URLs from the manifest\n`);
+
+  const http = new HttpClient();
+  const report = await new PreflightChecker(http).checkManifest(manifest);
+  await savePreflightReport(report);
+
+  console.log(`   ✅ Live: ${report.live}`);
+  console.log(`   ❌ Dead: ${report.dead} (reported without a browser)`);
+  console.log(`   ❔ Unknown: ${report.unknown} (left to the browser)`);
+
+  const dead = report.entries.filter((e) => e.verdict === 'dead');
+  if (dead.length > 0) {
+    console.log('\n   Dead URLs:');
+    for (const entry of dead.slice(0, 20)) {
+      console.log(`     - ${entry.url} → ${entry.reason}`);
+    }
+    if (dead.length > 20) {
+      console.log(`     … and ${dead.length - 20} more`);
+    }
+  }
+
+  const { requests, retries, giveUps } = http.getStats();
+  console.log(`\n   HTTP: ${requests} requests, ${retries} retries, ${giveUps} gave up`);
+}
@@ -0,0 +1,12 @@
+/**
+ * Selection Module Exports
+ */
+
+export {
+  selectUrls,
+  isSelectionActive,
+  isSelectionFiltered,
+  describeSelection,
+  shardOf,
+} from './url-selection.js';
+export { mergeShardSummaries, type MergeOptions } from './shard-merge.js';
@@ -0,0 +1,36 @@
+/**
+ * Run Merge Results - The `viking-monitor merge-results` command
+ *
+ * Combines the results.json of every shard of a run (VIKING_SHARD) into
+ * one results.json and results.csv, and records the merged run in the
+ * history. Shards skip the history, so a sharded run is recorded once.
+ *
+ * Usage:
+ *   npm run merge-results -- shard-1/results.json shard-2/results.json shard-3/results.json
+ *   npm run merge-results -- --allow-partial shard-1/results.json shard-3/results.json
+ */
+
+import * as fs from 'fs/promises';
+import { recordRun } from '../history/index.js';
+import { Reporter, type TestSummary } from '../utils/reporter.js';
+import { mergeShardSummaries } from './shard-merge.js';
+
+export async function runMerge(files: string[], allowPartial: boolean): Promise<void> {
+  if (files.length === 0) {
+    throw new Error('Pass the results.json of every shard');
+  }
+
+  const summaries: TestSummary[] = [];
+  for (const file of files) {
+    summaries.push(JSON.parse(await fs.readFile(file, 'utf-8')) as TestSummary);
+  }
+  console.log(`📥 Merging ${summaries.length} shard summaries`);
+
+  const summary = mergeShardSummaries(summaries, { allowPartial });
+  await recordRun(summary);
+
+  const reporter = new Reporter();
+  await reporter.writeJsonReport(summary);
+  await reporter.writeCsvReport(summary);
+  reporter.printSummary(summary);
+}
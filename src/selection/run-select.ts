@@ -0,0 +1,75 @@
+/**
+ * Run Selected Tests - The `viking-monitor check` command
+ *
+ * Runs the pricing tests, on the whole manifest or a subset of it. Each
+ * filter sets the VIKING_FILTER_* / VIKING_SHARD variable the spec reads
+ * (see config.selection), --config=path and --set=path=value become
+ * VIKING_CONFIG and VIKING_* config overrides, which Playwright's workers
+ * read too; anything after `--` is passed on to `playwright test`.
+ *
+ * Usage:
+ *   npm run test:select -- --domain=vikingcruises.co.uk --cruise-type=ocean
+ *   npm run test:select -- --url='/europe/' --source=crawl
+ *   npm run test:select -- --failed                  # re-run the last run's failures
+ *   npm run test:select -- --sample=25 --seed=monday
+ *   npm run test:select -- --shard=2/4 -- --workers=4   # one CI machine's share
+ *   npm run test:select -- --domain=viking.com --set=pageLoadTimeout=20000
+ */
+
+import { spawnSync } from 'child_process';
+import { envNameForPath } from '../config-loader.js';
+
+/** Selection flag → the variable config.selection reads it from */
+export const SELECTION_FLAGS = {
+  domain: 'VIKING_FILTER_DOMAIN',
+  url: 'VIKING_FILTER_URL',
+  source: 'VIKING_FILTER_SOURCE',
+  'cruise-type': 'VIKING_FILTER_CRUISE_TYPE',
+  sample: 'VIKING_FILTER_SAMPLE',
+  seed: 'VIKING_SAMPLE_SEED',
+  shard: 'VIKING_SHARD',
+} as const;
+
+export type SelectionFlag = keyof typeof SELECTION_FLAGS;
+
+export interface SelectedTestsOptions {
+  filters: Partial<Record<SelectionFlag, string>>;
+  /** Only the URLs that failed in the last recorded run */
+  failed: boolean;
+  /** Config file for the workers (--config=) */
+  configFile?: string;
+  /** path=value config overrides (--set=) */
+  overrides: string[];
+  /** Passed on to `playwright test` */
+  playwrightArgs: string[];
+}
+
+/**
+ * Run the pricing spec in Playwright; returns its exit status
+ */
+export function runSelectedTests(options: SelectedTestsOptions): number {
+  const env = { ...process.env };
+
+  for (const [flag, value] of Object.entries(options.filters) as [SelectionFlag, string | undefined][]) {
+    if (value !== undefined) {
+      env[SELECTION_FLAGS[flag]] = value;
+    }
+  }
+  if (options.failed) {
+    env.VIKING_FILTER_FAILED = '1';
+  }
+  if (options.configFile) {
+    env.VIKING_CONFIG = options.configFile;
+  }
+  for (const override of options.overrides) {
+    const [fieldPath, ...value] = override.split('=');
+    env[envNameForPath(fieldPath.split('.'))] = value.join('=');
+  }
+
+  const result = spawnSync('npx', ['playwright', 'test', '--project=chromium', ...options.playwrightArgs], {
+    env,
+    stdio: 'inherit',
+  });
+
+  return result.status ?? 1;
+}
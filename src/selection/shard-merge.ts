@@ -0,0 +1,84 @@
+/**
+ * Shard Merge - Combine the summaries of a run split across machines
+ *
+ * Handles:
+ * - Checking the shards belong together: same shard count, no shard
+ *   twice, none missing (unless partial merges are allowed)
+ * - One result per URL, sorted like an unsharded run
+ * - A summary recomputed from the combined results
+ */
+
+import { Reporter, type TestResult, type TestSummary } from '../utils/reporter.js';
+
+export interface MergeOptions {
+  /** Merge even when some shards are missing (e.g. a crashed machine) */
+  allowPartial?: boolean;
+}
+
+/**
+ * Merge shard summaries into the summary of the whole run. runAt is the
+ * earliest shard's, as the run started then.
+ */
+export function mergeShardSummaries(summaries: TestSummary[], options: MergeOptions = {}): TestSummary {
+  if (summaries.length === 0) {
+    throw new Error('No summaries to merge');
+  }
+
+  const missing = missingShards(summaries);
+  if (missing.length > 0) {
+    const message = `Missing shard(s) ${missing.join(', ')} of ${summaries[0].shard!.total}`;
+    if (!options.allowPartial) {
+      throw new Error(`${message}; pass --allow-partial to merge anyway`);
+    }
+    console.warn(`⚠️  ${message}; merging the rest`);
+  }
+
+  const byUrl = new Map<string, TestResult>();
+  for (const summary of summaries) {
+    for (const result of summary.results) {
+      if (byUrl.has(result.url)) {
+        console.warn(`⚠️  ${result.url} appears in more than one shard; keeping the first result`);
+        continue;
+      }
+      byUrl.set(result.url, result);
+    }
+  }
+
+  const results = Array.from(byUrl.values()).sort((a, b) => a.url.localeCompare(b.url));
+  const merged = new Reporter().generateSummary(results);
+  merged.runAt = summaries.map((s) => s.runAt).sort()[0];
+  if (summaries[0].selection) {
+    // Every shard carries the same filters plus its own shard number
+    merged.selection = summaries[0].selection.filter((part) => !part.startsWith('shard '));
+  }
+
+  return merged;
+}
+
+/**
+ * Shard numbers absent from a set of shard summaries, after checking they
+ * are shards of the same run
+ */
+function missingShards(summaries: TestSummary[]): number[] {
+  const shards = summaries.map((s, i) => {
+    if (!s.shard) {
+      throw new Error(`Summary ${i + 1} is not a shard (it has no shard field)`);
+    }
+    return s.shard;
+  });
+
+  const total = shards[0].total;
+  if (shards.some((s) => s.total !== total)) {
+    throw new Error(`Shards disagree on the shard count: ${shards.map((s) => `${s.index}/${s.total}`).join(', ')}`);
+  }
+
+  const seen = new Set<number>();
+  for (const { index } of shards) {
+    if (seen.has(index)) {
+      throw new Error(`Shard ${index}/${total} was given more than once`);
+    }
+    seen.add(index);
+  }
+
+  return Array.from({ length: total }, (_, i) => i + 1).filter((index) => !seen.has(index));
+}
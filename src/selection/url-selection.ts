@@ -0,0 +1,125 @@
+/**
+ * URL Selection - Narrow and shard the URLs the pricing spec tests
+ *
+ * Handles:
+ * - Filters from config.selection: domain, URL pattern, discovery source,
+ *   cruise type, failed in the last recorded run
+ * - A seeded sample, identical on every machine and worker using the seed
+ * - Sharding by URL hash, so a URL stays on its shard as the manifest
+ *   grows or shrinks
+ *
+ * Filters apply first, then the sample, then the shard, so the shards of
+ * one run together test exactly the filtered sample.
+ */
+
+import { createHash } from 'crypto';
+import config, { type UrlSelection } from '../config.js';
+import type { DiscoveredUrl } from '../discovery/index.js';
+import { cruiseTypeOf } from '../discovery/url-metadata.js';
+import { RunHistory } from '../history/index.js';
+
+/**
+ * 1-based shard a URL belongs to
+ */
+export function shardOf(url: string, total: number): number {
+  return (hashOf(url) % total) + 1;
+}
+
+/**
+ * Whether any filter, the sample or sharding is set
+ */
+export function isSelectionActive(selection: UrlSelection = config.selection): boolean {
+  return describeSelection(selection).length > 0;
+}
+
+/**
+ * Whether the run tests only part of the manifest by choice: any filter or
+ * the sample. Such a run is not recorded in the history, as the next full
+ * run would be diffed against it. A shard is part of a run, not a choice.
+ */
+export function isSelectionFiltered(selection: UrlSelection = config.selection): boolean {
+  return (
+    selection.domains.length > 0 ||
+    Boolean(selection.urlPattern) ||
+    selection.sources.length > 0 ||
+    selection.cruiseTypes.length > 0 ||
+    selection.failedInLastRun ||
+    Boolean(selection.sampleSize)
+  );
+}
+
+/**
+ * Human-readable list of the active filters, for logs
+ */
+export function describeSelection(selection: UrlSelection = config.selection): string[] {
+  const parts: string[] = [];
+  if (selection.domains.length > 0) parts.push(`domain=${selection.domains.join(',')}`);
+  if (selection.urlPattern) parts.push(`url=${selection.urlPattern.source}`);
+  if (selection.sources.length > 0) parts.push(`source=${selection.sources.join(',')}`);
+  if (selection.cruiseTypes.length > 0) parts.push(`cruise-type=${selection.cruiseTypes.join(',')}`);
+  if (selection.failedInLastRun) parts.push('failed in last run');
+  if (selection.sampleSize) parts.push(`sample=${selection.sampleSize} (seed ${selection.sampleSeed})`);
+  if (selection.shard) parts.push(`shard ${selection.shard.index}/${selection.shard.total}`);
+  return parts;
+}
+
+/**
+ * Apply config.selection to a list of URLs, keeping their order
+ */
+export function selectUrls(
+  urls: DiscoveredUrl[],
+  selection: UrlSelection = config.selection,
+  history: RunHistory = new RunHistory()
+): DiscoveredUrl[] {
+  const domains = new Set(selection.domains.map(withoutWww));
+  const failed = selection.failedInLastRun ? failedInLastRun(history) : null;
+
+  let selected = urls.filter(
+    (u) =>
+      (domains.size === 0 || domains.has(withoutWww(u.domain))) &&
+      (!selection.urlPattern || selection.urlPattern.test(u.url)) &&
+      (selection.sources.length === 0 || (u.sources ?? [u.source]).some((s) => selection.sources.includes(s))) &&
+      (selection.cruiseTypes.length === 0 || selection.cruiseTypes.some((t) => t === (u.metadata?.cruiseType ?? cruiseTypeOf(u.url)))) &&
+      (!failed || failed.has(u.url))
+  );
+
+  if (selection.sampleSize && selected.length > selection.sampleSize) {
+    const sampled = new Set(
+      [...selected]
+        .sort((a, b) => hashOf(selection.sampleSeed + a.url) - hashOf(selection.sampleSeed + b.url))
+        .slice(0, selection.sampleSize)
+    );
+    selected = selected.filter((u) => sampled.has(u));
+  }
+
+  const shard = selection.shard;
+  if (shard) {
+    selected = selected.filter((u) => shardOf(u.url, shard.total) === shard.index);
+  }
+
+  return selected;
+}
+
+/**
+ * URLs that failed in the most recent run of the history
+ */
+function failedInLastRun(history: RunHistory): Set<string> {
+  const lastRun = history.loadLatestRunSync();
+  if (!lastRun) {
+    console.warn(`⚠️  No runs recorded in ${history.historyPath}; no URL failed in the last run`);
+    return new Set();
+  }
+
+  return new Set(lastRun.results.filter((r) => !r.passed).map((r) => r.url));
+}
+
+/**
+ * Stable 32-bit hash, the same on every machine and Node version
+ */
+function hashOf(value: string): number {
+  return createHash('sha1').update(value).digest().readUInt32BE(0);
+}
+
+function withoutWww(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, '');
+}
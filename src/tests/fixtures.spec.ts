@@ -0,0 +1,46 @@
+/**
+ * Fixture Tests - Regression tests for the checks, fully offline
+ *
+ * Replays the curated snapshots in fixtures/curated through the built-in
+ * checks and asserts the outcome recorded in each fixture's "expected"
+ * block. Uses the built-in checks only, so config.checks does not change
+ * the outcome.
+ */
+
+import { test, expect } from '@playwright/test';
+import config from '../config.js';
+import { BUILTIN_CHECKS, CheckRegistry, testPricingPage } from '../checks/index.js';
+import { FixtureStore } from '../fixtures/index.js';
+
+const store = new FixtureStore(config.fixtures.curatedDir);
+const registry = new CheckRegistry();
+for (const check of BUILTIN_CHECKS) {
+  registry.register(check);
+}
+
+test.describe.configure({ mode: 'parallel' });
+
+for (const fixture of store.load()) {
+  const expected = fixture.expected;
+  if (!expected) continue;
+
+  test(`Fixture: ${fixture.description || fixture.url}`, async ({ page }) => {
+    await store.replay(page);
+
+    const result = await testPricingPage(
+      page,
+      {
+        url: fixture.url,
+        source: 'sitemap',
+        domain: new URL(fixture.url).hostname,
+        discoveredAt: fixture.recordedAt,
+      },
+      undefined,
+      registry
+    );
+
+    const failedChecks = result.checks.filter((c) => !c.passed).map((c) => c.id);
+    expect(failedChecks.sort()).toEqual([...expected.failedChecks].sort());
+    expect(result.passed).toBe(expected.passed);
+  });
+}
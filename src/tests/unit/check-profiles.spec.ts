@@ -0,0 +1,87 @@
+/**
+ * Check profiles - loading JSON and YAML profile files, validation and
+ * resolving the profile for a page
+ */
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_PROFILE, loadCheckProfiles, resolveProfile } from '../../checks/index.js';
+
+let dir: string;
+
+test.beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'check-profiles-'));
+});
+
+test.afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const writeFile = (name: string, content: string) => {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+};
+
+const PROFILES = {
+  default: { ctaLabels: ['Book'] },
+  profiles: [
+    { name: 'UK copy', domains: ['www.vikingcruises.co.uk'], ctaLabels: ['Enquire', 'Book now'] },
+    { name: 'River template', urlPatterns: ['//www\\.vikingrivercruises\\.'], dateSelectors: ['time[datetime]'] },
+  ],
+};
+
+test.describe('loadCheckProfiles', () => {
+  test('reads a JSON file', () => {
+    expect(loadCheckProfiles(writeFile('check-profiles.json', JSON.stringify(PROFILES)))).toEqual(PROFILES);
+  });
+
+  test('reads .yaml and .yml files like the JSON file', () => {
+    const content = [
+      'default:',
+      '  ctaLabels: [Book]',
+      'profiles:',
+      '  - name: UK copy',
+      '    domains: [www.vikingcruises.co.uk]',
+      '    ctaLabels:',
+      '      - Enquire',
+      '      - Book now',
+      '  - name: River template',
+      "    urlPatterns: ['//www\\.vikingrivercruises\\.']",
+      "    dateSelectors: ['time[datetime]']",
+    ].join('\n');
+
+    expect(loadCheckProfiles(writeFile('check-profiles.yaml', content))).toEqual(PROFILES);
+    expect(loadCheckProfiles(writeFile('check-profiles.yml', content))).toEqual(PROFILES);
+  });
+
+  test('treats a missing file as no extra profiles', () => {
+    expect(loadCheckProfiles(path.join(dir, 'missing.yaml'))).toEqual({ profiles: [] });
+  });
+
+  test('names the file and the format on a parse error', () => {
+    expect(() => loadCheckProfiles(writeFile('broken.yaml', 'profiles: [\n'))).toThrow(/broken\.yaml is not valid YAML/);
+    expect(() => loadCheckProfiles(writeFile('broken.json', '{'))).toThrow(/broken\.json is not valid JSON/);
+  });
+
+  test('validates YAML files like JSON files', () => {
+    const filePath = writeFile('check-profiles.yml', 'profiles:\n  - name: UK copy\n    domains: [www.vikingcruises.co.uk]\n    buttons: [Book]\n');
+
+    expect(() => loadCheckProfiles(filePath)).toThrow(/profiles\[0\] has unknown field "buttons"/);
+  });
+});
+
+test('resolveProfile applies the default, then every matching profile in order', () => {
+  const uk = resolveProfile('https://www.vikingcruises.co.uk/oceans/pricing.html', 'www.vikingcruises.co.uk', PROFILES);
+  const river = resolveProfile(
+    'https://www.vikingrivercruises.com/cruise-destinations/europe/rhine-getaway/pricing.html',
+    'www.vikingrivercruises.com',
+    PROFILES
+  );
+
+  expect(uk).toMatchObject({ ctaLabels: ['Enquire', 'Book now'], appliedProfiles: ['UK copy'] });
+  expect(uk.dateSelectors).toEqual(DEFAULT_PROFILE.dateSelectors);
+  expect(river).toMatchObject({ ctaLabels: ['Book'], dateSelectors: ['time[datetime]'], appliedProfiles: ['River template'] });
+});
@@ -0,0 +1,55 @@
+/**
+ * Check registry - loading checks from extra modules
+ */
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import config from '../../config.js';
+import { BUILTIN_CHECKS, createDefaultRegistry } from '../../checks/index.js';
+
+let dir: string;
+
+test.beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'check-registry-'));
+});
+
+test.afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const writeModule = (name: string, source: string) => {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, source);
+  return filePath;
+};
+
+const CHECK = `{
+  id: 'cabin-photos',
+  name: 'Cabin photos present',
+  severity: 'warning',
+  requiresContent: true,
+  urlPatterns: [/oceans/],
+  run: async () => ({ passed: true }),
+}`;
+
+test('registers the checks a module exports, after the built-ins', () => {
+  const modulePath = writeModule('cabin-photos.js', `exports.default = [${CHECK}];`);
+
+  const registry = createDefaultRegistry({ ...config.checks, modules: [modulePath] });
+
+  expect(registry.list().map((c) => c.id)).toEqual([...BUILTIN_CHECKS.map((c) => c.id), 'cabin-photos']);
+});
+
+test('rejects a module export that is not a check, naming the module and the problem', () => {
+  const notACheck = writeModule('not-a-check.js', 'module.exports = 42;');
+  const badSeverity = writeModule('bad-severity.js', `module.exports = [${CHECK.replace("'warning'", "'urgent'")}];`);
+
+  expect(() => createDefaultRegistry({ ...config.checks, modules: [notACheck] })).toThrow(
+    `Check module ${notACheck} must export a PricingCheck or PricingCheck[]: got number`
+  );
+  expect(() => createDefaultRegistry({ ...config.checks, modules: [badSeverity] })).toThrow(
+    `Check module ${badSeverity} must export a PricingCheck or PricingCheck[] (check 1): "cabin-photos": severity must be one of critical, warning, info`
+  );
+});
@@ -0,0 +1,172 @@
+/**
+ * CLI - argument parsing, help, exit codes and the report command
+ */
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EXIT_CODES, runCli } from '../../cli/index.js';
+import config from '../../config.js';
+import { Reporter, type TestResult, type TestSummary } from '../../utils/reporter.js';
+
+const URL_A = 'https://www.vikingcruises.com/oceans/cruise-destinations/caribbean/west-indies-explorer/pricing.html';
+const URL_B = 'https://www.vikingrivercruises.com/cruise-destinations/europe/rhine-getaway/pricing.html';
+
+const result = (url: string, errors: string[] = []): TestResult => ({
+  url,
+  domain: new URL(url).hostname,
+  passed: errors.length === 0,
+  loadTimeMs: 1500,
+  httpStatus: 200,
+  checks: [],
+  errors,
+  warnings: [],
+  testedAt: '2026-01-15T14:05:00.000Z',
+});
+
+const SUMMARY: TestSummary = {
+  runAt: '2026-01-15T14:00:00.000Z',
+  totalTested: 2,
+  passed: 1,
+  failed: 1,
+  warnings: 0,
+  avgLoadTimeMs: 1500.7,
+  diff: {
+    currentRunAt: '2026-01-15T14:00:00.000Z',
+    previousRunAt: '2026-01-14T14:00:00.000Z',
+    newlyFailing: [{ url: URL_B, domain: 'www.vikingrivercruises.com', errors: ['No valid prices'] }],
+    newlyRecovered: [],
+    persistentlyFailing: [],
+  },
+  results: [result(URL_A), result(URL_B, ['No valid prices'])],
+};
+
+let output: string[];
+let errors: string[];
+const { log, error } = console;
+
+test.beforeEach(() => {
+  output = [];
+  errors = [];
+  console.log = (...args: unknown[]) => output.push(args.join(' '));
+  console.error = (...args: unknown[]) => errors.push(args.join(' '));
+});
+
+test.afterEach(() => {
+  console.log = log;
+  console.error = error;
+});
+
+test.describe('help and usage errors', () => {
+  test('lists the commands, and the options of one command', async () => {
+    expect(await runCli(['--help'])).toBe(EXIT_CODES.ok);
+    expect(output.join('\n')).toMatch(/discover .*\n(.*\n)*  check-url /);
+
+    expect(await runCli(['discover', '--help'])).toBe(EXIT_CODES.ok);
+    expect(output.join('\n')).toContain('--max-pages=<n>');
+    expect(output.join('\n')).toContain('--set=<path=value>');
+  });
+
+  test('exit with code 2 without running the command', async () => {
+    expect(await runCli([])).toBe(EXIT_CODES.usage);
+    expect(await runCli(['deploy'])).toBe(EXIT_CODES.usage);
+    expect(errors.join('\n')).toContain('Unknown command "deploy"');
+
+    expect(await runCli(['discover', '--max-pages=lots'])).toBe(EXIT_CODES.usage);
+    expect(await runCli(['discover', '--include-link-crawls'])).toBe(EXIT_CODES.usage);
+    expect(await runCli(['check-url'])).toBe(EXIT_CODES.usage);
+    expect(await runCli(['check-url', 'www.viking.com/pricing.html'])).toBe(EXIT_CODES.usage);
+    expect(await runCli(['check-url', URL_A, '--viewport=wide'])).toBe(EXIT_CODES.usage);
+    expect(await runCli(['check-url', URL_A, '--locale=british'])).toBe(EXIT_CODES.usage);
+    expect(await runCli(['diff', 'latest'])).toBe(EXIT_CODES.usage);
+    expect(await runCli(['diff', '--', '--workers=4'])).toBe(EXIT_CODES.usage);
+    expect(await runCli(['merge-results'])).toBe(EXIT_CODES.usage);
+  });
+
+  test('config masks the notification credentials', async () => {
+    const saved = config.notifications;
+    config.notifications = { ...saved, pagerduty: { ...saved.pagerduty, routingKey: 'R0UTING' } };
+    try {
+      expect(await runCli(['config'])).toBe(EXIT_CODES.ok);
+    } finally {
+      config.notifications = saved;
+    }
+    expect(JSON.parse(output.join('\n')).notifications.pagerduty.routingKey).toBe('<redacted>');
+    expect(output.join('\n')).not.toContain('R0UTING');
+  });
+
+  test('apply --config and --set, with = or a separate value, after parsing', async () => {
+    const saved = { ...config };
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-config-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'ci.json'), JSON.stringify({ pageLoadTimeout: 20000 }));
+
+      expect(await runCli(['config', '--config', path.join(dir, 'ci.json'), '--set', 'http.maxRetries=7'])).toBe(EXIT_CODES.ok);
+      expect(JSON.parse(output.join('\n'))).toMatchObject({ pageLoadTimeout: 20000, http: { maxRetries: 7 } });
+    } finally {
+      Object.assign(config, saved);
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('report an invalid --set or config file as bad usage, leaving the config as it was', async () => {
+    const maxRetries = config.http.maxRetries;
+
+    expect(await runCli(['config', '--set=http.maxRetries=lots'])).toBe(EXIT_CODES.usage);
+    expect(errors[0]).toContain('Invalid --set=http.maxRetries: http.maxRetries must be a number (got "lots")');
+    expect(await runCli(['config', '--set', 'http.maxRetries'])).toBe(EXIT_CODES.usage);
+    expect(await runCli(['config', '--config=missing.yaml'])).toBe(EXIT_CODES.usage);
+    expect(errors[2]).toContain('Config file missing.yaml does not exist');
+    expect(output).toEqual([]);
+    expect(config.http.maxRetries).toBe(maxRetries);
+  });
+
+  test('check rejects bad filters before starting Playwright', async () => {
+    expect(await runCli(['check', '--shard=5/4'])).toBe(EXIT_CODES.usage);
+    expect(errors[0]).toContain('--shard must look like 2/4');
+
+    expect(await runCli(['check', '--cruise-type=lake'])).toBe(EXIT_CODES.usage);
+    expect(errors[1]).toContain('--cruise-type must be ocean, river or expedition');
+  });
+});
+
+test.describe('report', () => {
+  let dir: string;
+  let resultsFile: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-'));
+    resultsFile = path.join(dir, 'results.json');
+    fs.writeFileSync(resultsFile, JSON.stringify(SUMMARY));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('prints the results file as text or JSON', async () => {
+    expect(await runCli(['report', `--results=${resultsFile}`])).toBe(EXIT_CODES.ok);
+    expect(output.join('\n')).toContain('FAILED:        1');
+
+    output = [];
+    expect(await runCli(['report', `--results=${resultsFile}`, '--format=json'])).toBe(EXIT_CODES.ok);
+    expect(JSON.parse(output.join('\n'))).toEqual(SUMMARY);
+  });
+
+  test('fails when there are no results', async () => {
+    expect(await runCli(['report', `--results=${path.join(dir, 'none.json')}`])).toBe(EXIT_CODES.failed);
+    expect(errors.join('\n')).toContain('No results found');
+  });
+
+  test('the Markdown summary leads with the changes since the last run', () => {
+    const markdown = new Reporter().formatMarkdownSummary(SUMMARY);
+
+    expect(markdown).toContain('| 🆕 Newly failing | 1 |');
+    expect(markdown).toContain(`- 🆕 [${URL_B}](${URL_B}): No valid prices`);
+    expect(markdown).toContain('| ⏱️ Avg Load Time | 1500ms |');
+    expect(markdown.indexOf('### Changes Since Last Run')).toBeLessThan(markdown.indexOf('| Metric | Value |'));
+    expect(markdown).toContain('### Failed Pages');
+    expect(markdown).not.toContain('### Price Anomalies');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Config loader - config files, env and --set overrides, validation and
+ * RegExp serialization
+ */
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import config from '../../config.js';
+import { envNameForPath, resolveConfig, serializeConfig, type ConfigSources } from '../../config-loader.js';
+
+let dir: string;
+
+test.beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+});
+
+test.afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const resolve = (sources: ConfigSources = {}) => resolveConfig(config, { env: {}, cwd: dir, ...sources });
+
+const writeFile = (name: string, content: unknown) =>
+  fs.writeFileSync(path.join(dir, name), typeof content === 'string' ? content : JSON.stringify(content));
+
+test('returns a copy of the defaults when nothing overrides them', () => {
+  const resolved = resolve();
+
+  expect(serializeConfig(resolved)).toEqual(serializeConfig(config));
+  expect(resolved.domains).not.toBe(config.domains);
+});
+
+test.describe('config file', () => {
+  test('merges objects field by field and replaces lists', () => {
+    writeFile('viking-monitor.config.json', {
+      useLocalSitemaps: true,
+      http: { maxRetries: 5 },
+      sitemapUrls: ['https://www.viking.com/sitemap.xml'],
+    });
+
+    const resolved = resolve();
+
+    expect(resolved.useLocalSitemaps).toBe(true);
+    expect(resolved.http).toEqual({ ...config.http, maxRetries: 5 });
+    expect(resolved.sitemapUrls).toEqual(['https://www.viking.com/sitemap.xml']);
+  });
+
+  test('reads YAML, with domains keyed by hostname and patterns as strings', () => {
+    writeFile(
+      'viking-monitor.config.yaml',
+      [
+        'domains:',
+        '  vikingcruises.co.uk:',
+        '    enabled: false',
+        'pricingPagePatterns:',
+        '  - /\\/pricing\\.html$/i',
+        '  - \\/fares$',
+      ].join('\n')
+    );
+
+    const resolved = resolve();
+
+    expect(resolved.domains.find((d) => d.baseUrl === 'https://www.vikingcruises.co.uk')?.enabled).toBe(false);
+    expect(resolved.domains.filter((d) => !d.enabled)).toHaveLength(1);
+    expect(resolved.pricingPagePatterns).toEqual([/\/pricing\.html$/i, /\/fares$/]);
+  });
+
+  test('loads the file named by --config or VIKING_CONFIG, which must exist', () => {
+    writeFile('ci.json', { pageLoadTimeout: 20000 });
+    writeFile('local.json', { pageLoadTimeout: 25000 });
+
+    expect(resolve({ configFile: 'ci.json' }).pageLoadTimeout).toBe(20000);
+    expect(resolve({ configFile: 'ci.json', env: { VIKING_CONFIG: 'local.json' } }).pageLoadTimeout).toBe(20000);
+    expect(resolve({ env: { VIKING_CONFIG: 'ci.json' } }).pageLoadTimeout).toBe(20000);
+    expect(() => resolve({ env: { VIKING_CONFIG: 'missing.json' } })).toThrow('Config file missing.json does not exist');
+  });
+
+  test('names the field and the file on invalid values', () => {
+    writeFile('viking-monitor.config.json', { http: { maxRetries: 'five' } });
+    expect(() => resolve()).toThrow(/Invalid config file .*viking-monitor\.config\.json: http\.maxRetries must be a number \(got "five"\)/);
+
+    writeFile('viking-monitor.config.json', { pageLoadTimout: 20000 });
+    expect(() => resolve()).toThrow(/unknown field "pageLoadTimout" \(expected one of domains, .*pageLoadTimeout/);
+
+    writeFile('viking-monitor.config.json', { domains: { 'www.example.com': { enabled: false } } });
+    expect(() => resolve()).toThrow(/domains\.www\.example\.com is not a configured domain/);
+
+    writeFile('viking-monitor.config.json', { fixtures: { mode: 'live' } });
+    expect(() => resolve()).toThrow(/fixtures\.mode must be one of off, record, replay/);
+
+    writeFile('viking-monitor.config.json', '{ "http": ');
+    expect(() => resolve()).toThrow(/could not be parsed/);
+  });
+});
+
+test.describe('overrides', () => {
+  test('environment variables set nested fields, list items and check overrides', () => {
+    const resolved = resolve({
+      env: {
+        VIKING_HTTP__MAX_RETRIES: '5',
+        VIKING_USE_LOCAL_SITEMAPS: 'yes',
+        VIKING_DOMAINS__0__ENABLED: 'false',
+        VIKING_HTTP__RETRY_STATUSES: '429, 503',
+        VIKING_CHECKS__OVERRIDES__LOAD_TIME__SEVERITY: 'warning',
+        // Not config fields
+        VIKING_FILTER_DOMAIN: 'viking.com',
+        VIKING_SHARD: '1/2',
+      },
+    });
+
+    expect(resolved.http.maxRetries).toBe(5);
+    expect(resolved.useLocalSitemaps).toBe(true);
+    expect(resolved.domains[0].enabled).toBe(false);
+    expect(resolved.http.retryStatuses).toEqual([429, 503]);
+    expect(resolved.checks.overrides['load-time']).toEqual({ severity: 'warning' });
+  });
+
+  test('--set wins over env, which wins over the file', () => {
+    writeFile('viking-monitor.config.json', { pageLoadTimeout: 15000, requestTimeout: 15000, maxConcurrentTests: 3 });
+
+    const resolved = resolve({
+      env: { VIKING_PAGE_LOAD_TIMEOUT: '20000', VIKING_REQUEST_TIMEOUT: '20000' },
+      overrides: ['pageLoadTimeout=30000', 'selection.urlPattern=/europe/i'],
+    });
+
+    expect(resolved.maxConcurrentTests).toBe(3);
+    expect(resolved.requestTimeout).toBe(20000);
+    expect(resolved.pageLoadTimeout).toBe(30000);
+    expect(resolved.selection.urlPattern).toEqual(/europe/i);
+  });
+
+  test('never read the process arguments', () => {
+    // The Playwright runner imports the config too; its --config is its own
+    const argv = process.argv;
+    process.argv = [...argv, '--config=playwright.config.ts', '--set=pageLoadTimeout=1'];
+    try {
+      expect(resolve({ env: {} }).pageLoadTimeout).toBe(config.pageLoadTimeout);
+    } finally {
+      process.argv = argv;
+    }
+  });
+
+  test('reject an override without a value', () => {
+    expect(() => resolve({ overrides: ['requestTimeout'] })).toThrow('Invalid --set=requestTimeout: expected --set=path=value');
+  });
+
+  test('reject values of the wrong type and unknown fields', () => {
+    expect(() => resolve({ env: { VIKING_HTTP__MAX_RETRIES: 'lots' } })).toThrow(
+      'Invalid environment variable VIKING_HTTP__MAX_RETRIES: http.maxRetries must be a number (got "lots")'
+    );
+    expect(() => resolve({ overrides: ['linkCrawl.concurrency=0'] })).toThrow(
+      'Invalid --set=linkCrawl.concurrency: linkCrawl.concurrency must be at least 1 (got 0)'
+    );
+    expect(() => resolve({ overrides: ['http.retries=2'] })).toThrow(/unknown field "http\.retries" \(expected one of maxRetries/);
+    expect(() => resolve({ overrides: ['domains.20.enabled=false'] })).toThrow(/domains\.20 does not exist/);
+  });
+
+  test('envNameForPath names the variable for a field', () => {
+    expect(envNameForPath(['http', 'maxRequestsPerSecondPerHost'])).toBe('VIKING_HTTP__MAX_REQUESTS_PER_SECOND_PER_HOST');
+    expect(envNameForPath(['checks', 'overrides', 'load-time', 'severity'])).toBe('VIKING_CHECKS__OVERRIDES__LOAD_TIME__SEVERITY');
+  });
+});
+
+test('serializeConfig writes patterns the config file reads back', () => {
+  writeFile('viking-monitor.config.json', serializeConfig({ ...config, pricingPagePatterns: [/\/tarifs\.html$/i] }));
+
+  expect(resolve().pricingPagePatterns).toEqual([/\/tarifs\.html$/i]);
+});
@@ -0,0 +1,99 @@
+/**
+ * Fare matrix - departure rows, stateroom fares, sold-out categories and
+ * container rows
+ */
+
+import { test, expect } from '@playwright/test';
+import config from '../../config.js';
+import { buildFareMatrix, findUnpricedDepartures } from '../../extraction/index.js';
+
+const US = config.domains.find((d) => d.baseUrl === 'https://www.vikingcruises.com')!;
+const UK = config.domains.find((d) => d.baseUrl === 'https://www.vikingcruises.co.uk')!;
+
+const MARCH = ['Mar 14, 2026', 'Veranda', 'From $5,499 pp', 'Penthouse Veranda', '$7,999', 'Owner’s Suite', 'Sold Out'].join('\n');
+const APRIL = ['Apr 11, 2026', 'Veranda', '$4,999', 'Penthouse Veranda', 'Waitlist'].join('\n');
+
+test.describe('buildFareMatrix', () => {
+  test('reads one departure per row, with a fare per stateroom category', () => {
+    const matrix = buildFareMatrix([MARCH, APRIL], US);
+
+    expect(matrix.departures).toEqual([
+      {
+        date: 'Mar 14, 2026',
+        isoDate: '2026-03-14',
+        fares: [
+          { category: 'Veranda', amount: 5499, currency: 'USD', raw: 'From $5,499 pp', soldOut: false },
+          { category: 'Penthouse Veranda', amount: 7999, currency: 'USD', raw: '$7,999', soldOut: false },
+          { category: 'Owner’s Suite', amount: null, soldOut: true },
+        ],
+      },
+      {
+        date: 'Apr 11, 2026',
+        isoDate: '2026-04-11',
+        fares: [
+          { category: 'Veranda', amount: 4999, currency: 'USD', raw: '$4,999', soldOut: false },
+          { category: 'Penthouse Veranda', amount: null, soldOut: true },
+        ],
+      },
+    ]);
+    expect(matrix.categories).toEqual(['Veranda', 'Penthouse Veranda', 'Owner’s Suite']);
+    expect(matrix.currency).toBe('USD');
+    expect(matrix.lowestFare).toEqual({ amount: 4999, currency: 'USD' });
+  });
+
+  test('skips rows without a date and containers holding several departures', () => {
+    const matrix = buildFareMatrix(['Choose your sailing', [MARCH, APRIL].join('\n'), APRIL], US);
+
+    expect(matrix.departures.map((d) => d.date)).toEqual(['Apr 11, 2026']);
+  });
+
+  test('keeps the most detailed row when nested elements repeat a departure', () => {
+    const matrix = buildFareMatrix(['Mar 14, 2026\nFrom $5,499', MARCH, 'Mar 14, 2026'], US);
+
+    expect(matrix.departures).toHaveLength(1);
+    expect(matrix.departures[0].fares.map((f) => f.category)).toEqual(['Veranda', 'Penthouse Veranda', 'Owner’s Suite']);
+  });
+
+  test('takes the first date of a date range as the departure', () => {
+    const matrix = buildFareMatrix(
+      [
+        '14 Mar 2026 – 28 Mar 2026\nVeranda\n£3,495',
+        '11 Apr 2026 to 25 Apr 2026\nVeranda\n£2,995',
+        '2026-05-09 - 2026-05-23\nVeranda\n£3,195',
+      ],
+      UK
+    );
+
+    expect(matrix.departures.map((d) => [d.date, d.isoDate, d.fares[0].amount])).toEqual([
+      ['14 Mar 2026', '2026-03-14', 3495],
+      ['11 Apr 2026', '2026-04-11', 2995],
+      ['2026-05-09', '2026-05-09', 3195],
+    ]);
+  });
+
+  test('still skips a container listing several date ranges', () => {
+    const container = ['14 Mar 2026 – 28 Mar 2026', 'Veranda £3,495', '11 Apr 2026 – 25 Apr 2026', 'Veranda £2,995'].join('\n');
+
+    expect(buildFareMatrix([container], UK).departures).toEqual([]);
+  });
+
+  test('takes the lowest fare in the site currency only', () => {
+    const matrix = buildFareMatrix(['Mar 14, 2026\nVeranda\n£3,495\nPenthouse\n€2,995'], UK);
+
+    expect(matrix.lowestFare).toEqual({ amount: 3495, currency: 'GBP' });
+    expect(buildFareMatrix(['Mar 14, 2026\nVeranda\n€2,995'], UK).lowestFare).toBeUndefined();
+  });
+
+  test('leaves isoDate unset when the displayed date has no year', () => {
+    const [departure] = buildFareMatrix(['Jun 6\nVeranda\n$3,999'], US).departures;
+
+    expect(departure).toMatchObject({ date: 'Jun 6', isoDate: undefined });
+  });
+});
+
+test('findUnpricedDepartures lists departures without a non-zero fare', () => {
+  const matrix = buildFareMatrix([MARCH, 'May 9, 2026\nVeranda\nSold Out', 'Jun 6, 2026\nVeranda\n$0'], US);
+
+  expect(findUnpricedDepartures(matrix).map((d) => d.date)).toEqual(['May 9, 2026', 'Jun 6, 2026']);
+  expect(matrix.lowestFare).toEqual({ amount: 5499, currency: 'USD' });
+});
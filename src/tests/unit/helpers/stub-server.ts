@@ -0,0 +1,125 @@
+/**
+ * Stub Server - Local HTTP stand-in for Viking sites in unit tests
+ *
+ * Serves canned responses per path and records every request, so
+ * remote sitemaps, link crawling, the HTTP client and webhooks can be
+ * tested without the network.
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+export interface StubResponse {
+  status?: number;
+  body?: string | Buffer;
+  contentType?: string;
+  headers?: Record<string, string>;
+  /** Wait this long before responding, to trigger client timeouts */
+  delayMs?: number;
+}
+
+export class StubServer {
+  private server: http.Server;
+  private responses: Map<string, StubResponse[]> = new Map();
+  private baseUrl = '';
+  private inFlight = 0;
+
+  /** Paths requested so far, in order */
+  readonly requests: string[] = [];
+
+  /** Request start times (ms since epoch), in order */
+  readonly requestTimes: number[] = [];
+
+  /** Request bodies and headers, by the index of the request in requests */
+  readonly requestBodies: string[] = [];
+  readonly requestHeaders: http.IncomingHttpHeaders[] = [];
+
+  /** Most requests handled at the same time */
+  maxInFlight = 0;
+
+  constructor() {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  /**
+   * Start listening on a free port
+   */
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Stop the server, dropping connections still waiting on a delayed response
+   */
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Serve a response for a path (unknown paths return 404). Given a list,
+   * each request takes the next response and the last one repeats.
+   */
+  on(pathname: string, response: StubResponse | StubResponse[]): this {
+    this.responses.set(pathname, Array.isArray(response) ? [...response] : [response]);
+    return this;
+  }
+
+  /**
+   * Absolute URL of a path on this server
+   */
+  url(pathname: string): string {
+    return `${this.baseUrl}${pathname}`;
+  }
+
+  /**
+   * Forget the configured responses and recorded requests
+   */
+  reset(): void {
+    this.responses.clear();
+    this.requests.length = 0;
+    this.requestTimes.length = 0;
+    this.requestBodies.length = 0;
+    this.requestHeaders.length = 0;
+    this.maxInFlight = 0;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const pathname = new URL(req.url || '/', this.baseUrl).pathname;
+    const index = this.requests.push(pathname) - 1;
+    this.requestTimes.push(Date.now());
+    this.requestHeaders[index] = req.headers;
+    this.inFlight++;
+    this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+    res.on('close', () => this.inFlight--);
+
+    // Respond once the body has arrived, so it is recorded by then
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      this.requestBodies[index] = Buffer.concat(chunks).toString('utf-8');
+      this.respond(pathname, res);
+    });
+  }
+
+  private respond(pathname: string, res: http.ServerResponse): void {
+    const queue = this.responses.get(pathname);
+    const response = (queue && queue.length > 1 ? queue.shift() : queue?.[0]) || { status: 404, body: 'Not Found' };
+    const send = () => {
+      if (res.destroyed) return;
+      res.writeHead(response.status || 200, {
+        'Content-Type': response.contentType || 'application/xml',
+        ...response.headers,
+      });
+      res.end(response.body || '');
+    };
+
+    if (response.delayMs) {
+      setTimeout(send, response.delayMs).unref();
+    } else {
+      send();
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * HttpClient - retries, backoff, Retry-After, give-ups and per-host limits
+ */
+
+import { test, expect } from '@playwright/test';
+import { HttpClient } from '../../utils/http-client.js';
+import { StubServer } from './helpers/stub-server.js';
+
+const server = new StubServer();
+
+const busy = { status: 503, body: 'Busy', contentType: 'text/plain' };
+const ok = { body: 'ok', contentType: 'text/plain' };
+
+// Fast retries, no rate cap unless a test sets one
+const client = (options: ConstructorParameters<typeof HttpClient>[0] = {}) =>
+  new HttpClient({ maxRetries: 2, baseDelayMs: 10, maxRequestsPerSecondPerHost: 1000, ...options });
+
+test.beforeAll(async () => {
+  await server.start();
+});
+
+test.afterAll(async () => {
+  await server.stop();
+});
+
+test.beforeEach(() => {
+  server.reset();
+});
+
+test('retries a retriable status until it succeeds', async () => {
+  server.on('/page', [busy, busy, ok]);
+  const http = client();
+
+  const response = await http.get(server.url('/page'));
+
+  expect(response.status).toBe(200);
+  expect(await response.text()).toBe('ok');
+  expect(server.requests).toHaveLength(3);
+  expect(http.getStats()).toMatchObject({ requests: 1, retries: 2, giveUps: 0, statuses: { '200': 1 } });
+});
+
+test('does not retry a 404', async () => {
+  const http = client();
+
+  const response = await http.get(server.url('/missing'));
+
+  expect(response.status).toBe(404);
+  expect(server.requests).toHaveLength(1);
+  expect(http.getStats()).toMatchObject({ retries: 0, giveUps: 0, statuses: { '404': 1 } });
+});
+
+test('returns the last response after maxRetries and counts a give-up', async () => {
+  server.on('/page', busy);
+  const http = client();
+
+  const response = await http.get(server.url('/page'));
+
+  expect(response.status).toBe(503);
+  expect(server.requests).toHaveLength(3);
+  expect(http.getStats()).toMatchObject({ retries: 2, giveUps: 1, statuses: { '503': 1 } });
+});
+
+test('waits for Retry-After before retrying', async () => {
+  server.on('/page', [{ ...busy, status: 429, headers: { 'Retry-After': '1' } }, ok]);
+
+  const response = await client().get(server.url('/page'));
+
+  expect(response.status).toBe(200);
+  expect(server.requestTimes[1] - server.requestTimes[0]).toBeGreaterThanOrEqual(950);
+});
+
+test('gives up at once when Retry-After exceeds maxRetryAfterMs', async () => {
+  server.on('/page', [{ ...busy, headers: { 'Retry-After': '120' } }, ok]);
+  const http = client({ maxRetryAfterMs: 5000 });
+
+  const response = await http.get(server.url('/page'));
+
+  expect(response.status).toBe(503);
+  expect(server.requests).toHaveLength(1);
+  expect(http.getStats().giveUps).toBe(1);
+});
+
+test('retries timeouts and throws once retries run out', async () => {
+  server.on('/slow', { ...ok, delayMs: 5000 });
+  const http = client({ maxRetries: 1, timeoutMs: 1000 });
+
+  await expect(http.get(server.url('/slow'))).rejects.toThrow();
+  expect(server.requests).toHaveLength(2);
+  expect(http.getStats()).toMatchObject({ retries: 1, giveUps: 1, statuses: { error: 1 } });
+});
+
+test('caps concurrent requests per host', async () => {
+  server.on('/page', { ...ok, delayMs: 100 });
+  const http = client({ maxConcurrentPerHost: 2 });
+
+  await Promise.all(Array.from({ length: 6 }, () => http.get(server.url('/page')).then((r) => r.text())));
+
+  expect(server.requests).toHaveLength(6);
+  expect(server.maxInFlight).toBe(2);
+});
+
+test('spaces requests to a host by maxRequestsPerSecondPerHost', async () => {
+  server.on('/page', ok);
+  const http = client({ maxRequestsPerSecondPerHost: 10, maxConcurrentPerHost: 4 });
+
+  const started = Date.now();
+  await Promise.all(Array.from({ length: 4 }, () => http.get(server.url('/page')).then((r) => r.text())));
+
+  // The 4th request may start 300ms after the 1st
+  expect(Date.now() - started).toBeGreaterThanOrEqual(290);
+});
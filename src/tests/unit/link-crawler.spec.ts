@@ -0,0 +1,321 @@
+/**
+ * LinkCrawler - link filtering, seeds and hosts from config.domains,
+ * coverage, referrers, canonicalization, the frontier and its saved state, and a
+ * crawl of a stub site
+ */
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import config from '../../config.js';
+import { LinkCrawler, MAX_REFERRERS, canonicalizeUrl } from '../../discovery/index.js';
+import { StubServer } from './helpers/stub-server.js';
+
+const savedConfig = { ...config };
+
+test.afterEach(() => {
+  Object.assign(config, savedConfig);
+});
+
+const page = (...hrefs: string[]) =>
+  `<html><body>${hrefs.map((href) => `<a href="${href}">${href}</a>`).join('\n')}</body></html>`;
+
+test.describe('shouldFollowLink', () => {
+  const crawler = new LinkCrawler();
+  const follows = (url: string, depth = 0, maxDepth = 3) => crawler['shouldFollowLink'](url, depth, maxDepth);
+
+  test('follows cruise, destination and itinerary paths on Viking domains', () => {
+    expect(follows('https://www.viking.com/oceans/cruise-destinations/caribbean')).toBe(true);
+    expect(follows('https://www.vikingcruises.com/expeditions/antarctica')).toBe(true);
+    expect(follows('https://www.vikingrivercruises.com/rivers/europe')).toBe(true);
+    expect(follows('https://www.viking.com/destinations/europe')).toBe(true);
+    expect(follows('https://www.viking.com/cruises/itineraries/danube')).toBe(true);
+    expect(follows('https://www.viking.com/voyages/grand-european')).toBe(true);
+  });
+
+  test('does not follow other paths', () => {
+    expect(follows('https://www.viking.com/about-us')).toBe(false);
+    expect(follows('https://www.viking.com/contact')).toBe(false);
+  });
+
+  test('does not follow other domains', () => {
+    expect(follows('https://www.example.com/oceans/caribbean')).toBe(false);
+  });
+
+  test('stops one level before maxDepth', () => {
+    expect(follows('https://www.viking.com/oceans/caribbean', 1, 3)).toBe(true);
+    expect(follows('https://www.viking.com/oceans/caribbean', 2, 3)).toBe(false);
+  });
+
+  test('follows links on the seed hosts', () => {
+    const local = new LinkCrawler(['http://127.0.0.1:4000/oceans']);
+    expect(local['shouldFollowLink']('http://127.0.0.1:4000/oceans/caribbean', 0, 3)).toBe(true);
+    expect(local['shouldFollowLink']('http://127.0.0.1:4001/oceans/caribbean', 0, 3)).toBe(false);
+  });
+});
+
+test.describe('seeds and hosts', () => {
+  test('seeds every enabled domain, using its own seed paths when it has them', () => {
+    const seeds = LinkCrawler.seedUrlsFor([
+      { name: 'UK', baseUrl: 'https://www.vikingcruises.co.uk', enabled: true, currency: 'GBP' },
+      {
+        name: 'River CA',
+        baseUrl: 'https://www.vikingrivercruisescanada.com',
+        enabled: true,
+        currency: 'CAD',
+        crawlSeedPaths: ['/rivers'],
+      },
+      { name: 'Off', baseUrl: 'https://www.viking.com', enabled: false, currency: 'USD' },
+    ]);
+
+    expect(seeds).toEqual([
+      ...config.crawlSeedPaths.map((p) => `https://www.vikingcruises.co.uk${p}`),
+      'https://www.vikingrivercruisescanada.com/rivers',
+    ]);
+  });
+
+  test('follows links on every enabled regional domain', () => {
+    const crawler = new LinkCrawler();
+    const follows = (url: string) => crawler['shouldFollowLink'](url, 0, 3);
+
+    expect(follows('https://www.vikingcruises.co.uk/oceans/cruise-destinations/caribbean')).toBe(true);
+    expect(follows('https://www.vikingcruisescanada.com/oceans/cruise-destinations/caribbean')).toBe(true);
+    expect(follows('https://www.vikingrivercruises.com.au/rivers/europe')).toBe(true);
+    expect(follows('https://www.vikingcruises.co.uk.example.com/oceans/caribbean')).toBe(false);
+  });
+});
+
+test.describe('getCoverage', () => {
+  test('counts pages and pricing URLs per domain and lists those missing from sitemaps', () => {
+    const crawler = new LinkCrawler(['https://www.vikingcruises.co.uk/oceans', 'https://www.vikingcruises.co.uk/rivers']);
+    const inSitemap = 'https://www.vikingcruises.co.uk/oceans/cruise-destinations/caribbean/pricing.html';
+    const crawlOnly = 'https://www.vikingcruises.co.uk/oceans/cruise-destinations/iceland/pricing.html';
+
+    crawler['visitedPages'].add('https://www.vikingcruises.co.uk/oceans');
+    crawler['visitedPages'].add('https://www.vikingcruises.co.uk/oceans/cruise-destinations');
+    crawler['addDiscoveredUrl'](inSitemap);
+    crawler['addDiscoveredUrl'](crawlOnly);
+
+    const coverage = crawler.getCoverage([{ url: inSitemap, source: 'sitemap', domain: 'www.vikingcruises.co.uk', discoveredAt: '' }]);
+
+    expect(coverage.find((c) => c.domain === 'www.vikingcruises.co.uk')).toEqual({
+      domain: 'www.vikingcruises.co.uk',
+      seeds: 2,
+      pagesVisited: 2,
+      pagesFailed: 0,
+      pricingUrls: 2,
+      crawlOnlyUrls: [crawlOnly],
+      complete: true,
+    });
+    // Enabled domains the crawl never reached are listed too
+    expect(coverage.find((c) => c.domain === 'www.vikingcruisescanada.com')).toMatchObject({ seeds: 0, pagesVisited: 0 });
+  });
+
+  test('marks domains with pages left in the frontier as incomplete', () => {
+    const crawler = new LinkCrawler(['https://www.vikingcruises.co.uk/oceans']);
+    crawler['incompleteHosts'].add('www.vikingcruises.co.uk');
+
+    const coverage = crawler.getCoverage();
+
+    expect(coverage.find((c) => c.domain === 'www.vikingcruises.co.uk')?.complete).toBe(false);
+    expect(coverage.find((c) => c.domain === 'www.vikingcruisescanada.com')?.complete).toBe(true);
+  });
+});
+
+test('records a page that cannot be opened as failed instead of rejecting its batch', async () => {
+  config.robots = { ...config.robots, respectRules: false };
+  const seed = 'https://www.viking.com/oceans';
+  // Never launched: no browser to open the page in
+  const crawler = new LinkCrawler([seed]);
+
+  await expect(crawler['crawlPage']({ url: seed, depth: 0, seed }, 3)).resolves.toBeUndefined();
+
+  expect(crawler.getCoverage().find((c) => c.domain === 'www.viking.com')).toMatchObject({ pagesVisited: 1, pagesFailed: 1 });
+});
+
+test('records up to MAX_REFERRERS distinct pages linking to a pricing URL', () => {
+  const crawler = new LinkCrawler(['https://www.viking.com/oceans']);
+  const pricing = 'https://www.viking.com/oceans/cruise-destinations/caribbean/pricing.html';
+
+  crawler['addDiscoveredUrl'](pricing, 'https://www.viking.com/oceans');
+  crawler['addDiscoveredUrl'](pricing, 'https://www.viking.com/oceans');
+  for (let i = 0; i < MAX_REFERRERS + 5; i++) {
+    crawler['addDiscoveredUrl'](pricing, `https://www.viking.com/oceans/page-${i}`);
+  }
+
+  const referrers = crawler['discoveredUrls'].get(pricing)!.referrers!;
+  expect(referrers).toHaveLength(MAX_REFERRERS);
+  expect(referrers.slice(0, 2)).toEqual(['https://www.viking.com/oceans', 'https://www.viking.com/oceans/page-0']);
+});
+
+test.describe('canonicalizeUrl', () => {
+  test('drops fragments, tracking parameters and trailing slashes', () => {
+    expect(canonicalizeUrl('https://www.viking.com/oceans/?utm_source=mail&gclid=x#top')).toBe('https://www.viking.com/oceans');
+  });
+
+  test('orders query parameters and keeps the root slash', () => {
+    expect(canonicalizeUrl('https://www.viking.com/search?b=2&a=1')).toBe('https://www.viking.com/search?a=1&b=2');
+    expect(canonicalizeUrl('https://WWW.VIKING.COM')).toBe('https://www.viking.com/');
+  });
+});
+
+test.describe('frontier', () => {
+  const SEED_A = 'https://www.viking.com/oceans';
+  const SEED_B = 'https://www.viking.com/rivers';
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'link-crawl-'));
+    config.linkCrawl = { ...config.linkCrawl, stateFile: path.join(dir, 'state.json') };
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('takes pages oldest first and skips seeds that used up their budget', () => {
+    const crawler = new LinkCrawler([SEED_A, SEED_B]);
+    for (const url of [`${SEED_A}/a1`, `${SEED_A}/a2`, `${SEED_A}/a3`]) crawler['enqueue']({ url, depth: 1, seed: SEED_A });
+    crawler['enqueue']({ url: `${SEED_B}/b1`, depth: 1, seed: SEED_B });
+
+    expect(crawler['takeBatch'](2, 2).map((i) => i.url)).toEqual([`${SEED_A}/a1`, `${SEED_A}/a2`]);
+    // Seed A is out of budget; B still gets its turn
+    expect(crawler['takeBatch'](2, 2).map((i) => i.url)).toEqual([`${SEED_B}/b1`]);
+    expect(crawler['frontier'].map((i) => i.url)).toEqual([`${SEED_A}/a3`]);
+  });
+
+  test('queues a page only once', () => {
+    const crawler = new LinkCrawler([SEED_A]);
+    crawler['enqueue']({ url: `${SEED_A}/a1`, depth: 1, seed: SEED_A });
+    crawler['enqueue']({ url: `${SEED_A}/a1`, depth: 2, seed: SEED_A });
+
+    expect(crawler['frontier']).toHaveLength(1);
+  });
+
+  test('resumes a saved crawl with the same seeds', async () => {
+    const first = new LinkCrawler([SEED_A, SEED_B]);
+    first['enqueue']({ url: `${SEED_B}/b1`, depth: 1, seed: SEED_B });
+    first['visitedPages'].add(SEED_A);
+    first['pagesPerSeed'].set(SEED_A, 1);
+    first['addDiscoveredUrl'](`${SEED_A}/caribbean/pricing.html`);
+    await first['saveState']();
+
+    const resumed = new LinkCrawler([SEED_A, SEED_B]);
+    expect(await resumed['loadState']()).toBe(true);
+    expect(resumed['frontier'].map((i) => i.url)).toEqual([`${SEED_B}/b1`]);
+    expect(resumed['visitedPages'].has(SEED_A)).toBe(true);
+    expect(resumed['pagesPerSeed'].get(SEED_A)).toBe(1);
+    expect(Array.from(resumed['discoveredUrls'].keys())).toEqual([`${SEED_A}/caribbean/pricing.html`]);
+
+    expect(await new LinkCrawler([SEED_A])['loadState']()).toBe(false);
+  });
+});
+
+test.describe('crawl', () => {
+  const server = new StubServer();
+
+  test.beforeAll(async () => {
+    await server.start();
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  let dir: string;
+
+  test.beforeEach(() => {
+    server.reset();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'link-crawl-'));
+    config.linkCrawl = { ...config.linkCrawl, stateFile: path.join(dir, 'state.json') };
+
+    const html = { contentType: 'text/html' };
+    server
+      .on('/oceans', {
+        ...html,
+        body: page(
+          '/oceans/cruise-destinations/caribbean',
+          '/oceans/cruise-destinations/mediterranean/pricing.html',
+          '/about-us',
+          'https://www.example.com/oceans/elsewhere'
+        ),
+      })
+      .on('/oceans/cruise-destinations/caribbean', {
+        ...html,
+        body: page('/oceans/cruise-destinations/caribbean/west-indies-explorer/pricing.html'),
+      });
+  });
+
+  test('finds pricing links on the seed and on followed pages only', async () => {
+    const crawler = new LinkCrawler([server.url('/oceans')]);
+    const urls = await crawler.discoverPricingUrls({ maxPages: 10, maxDepth: 3 });
+
+    expect(urls.map((u) => u.url).sort()).toEqual([
+      server.url('/oceans/cruise-destinations/caribbean/west-indies-explorer/pricing.html'),
+      server.url('/oceans/cruise-destinations/mediterranean/pricing.html'),
+    ]);
+    expect(urls.every((u) => u.source === 'crawl')).toBe(true);
+    expect(server.requests).not.toContain('/about-us');
+  });
+
+  test('does not load pages disallowed by robots.txt', async () => {
+    server.on('/robots.txt', {
+      contentType: 'text/plain',
+      body: 'User-agent: *\nDisallow: /oceans/cruise-destinations/caribbean\n',
+    });
+
+    const crawler = new LinkCrawler([server.url('/oceans')]);
+    const urls = await crawler.discoverPricingUrls({ maxPages: 10, maxDepth: 3 });
+
+    expect(urls.map((u) => u.url)).toEqual([server.url('/oceans/cruise-destinations/mediterranean/pricing.html')]);
+    expect(server.requests).not.toContain('/oceans/cruise-destinations/caribbean');
+    expect(server.requests.filter((p) => p === '/robots.txt')).toHaveLength(1);
+  });
+
+  test('visits every seed before going deeper, within each seed\'s budget', async () => {
+    const html = { contentType: 'text/html' };
+    server
+      .on('/rivers', { ...html, body: page('/rivers/europe/danube-waltz/pricing.html') })
+      .on('/oceans/cruise-destinations/caribbean', {
+        ...html,
+        body: page('/oceans/cruise-destinations/caribbean/islands', '/oceans/cruise-destinations/caribbean/west-indies-explorer/pricing.html'),
+      });
+
+    const crawler = new LinkCrawler([server.url('/oceans'), server.url('/rivers')]);
+    const urls = await crawler.discoverPricingUrls({ maxPages: 10, maxDepth: 3, concurrency: 1, maxPagesPerSeed: 2 });
+
+    expect(server.requests.filter((p) => p !== '/robots.txt').slice(0, 2)).toEqual(['/oceans', '/rivers']);
+    expect(server.requests).not.toContain('/oceans/cruise-destinations/caribbean/islands');
+    expect(urls.map((u) => u.url)).toContain(server.url('/rivers/europe/danube-waltz/pricing.html'));
+    // The over-budget page was dropped, so the crawl finished and left no state
+    expect(fs.existsSync(config.linkCrawl.stateFile)).toBe(false);
+    // ...but not every page of the domain was loaded
+    const host = new URL(server.url('/')).host;
+    expect(crawler.getCoverage().find((c) => c.domain === host)?.complete).toBe(false);
+  });
+
+  test('saves the frontier when the page budget runs out, and resumes from it', async () => {
+    const first = new LinkCrawler([server.url('/oceans')]);
+    await first.discoverPricingUrls({ maxPages: 1, maxDepth: 3 });
+    expect(fs.existsSync(config.linkCrawl.stateFile)).toBe(true);
+
+    const host = new URL(server.url('/')).host;
+    expect(first.getCoverage().find((c) => c.domain === host)?.complete).toBe(false);
+
+    server.requests.length = 0;
+    const resumed = new LinkCrawler([server.url('/oceans')]);
+    const urls = await resumed.discoverPricingUrls({ maxPages: 10, maxDepth: 3 });
+
+    expect(server.requests).not.toContain('/oceans');
+    expect(urls.map((u) => u.url).sort()).toEqual([
+      server.url('/oceans/cruise-destinations/caribbean/west-indies-explorer/pricing.html'),
+      server.url('/oceans/cruise-destinations/mediterranean/pricing.html'),
+    ]);
+    expect(resumed.getCoverage().find((c) => c.domain === host)?.complete).toBe(true);
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
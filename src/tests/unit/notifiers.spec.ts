@@ -0,0 +1,342 @@
+/**
+ * Notifiers - severity thresholds and routes, custom notifiers, and the
+ * Teams, webhook, PagerDuty (stub server) and email (fake SMTP server)
+ * channels
+ */
+
+import { test, expect } from '@playwright/test';
+import * as net from 'net';
+import type { AddressInfo } from 'net';
+import config from '../../config.js';
+import type { NotificationChannelConfig } from '../../config.js';
+import {
+  EmailNotifier,
+  PagerDutyNotifier,
+  TeamsNotifier,
+  WebhookNotifier,
+  matchRoutes,
+  runSeverity,
+  type Notification,
+  type Notifier,
+} from '../../notify/index.js';
+import { Reporter, type TestResult, type TestSummary } from '../../utils/reporter.js';
+import { StubServer } from './helpers/stub-server.js';
+
+const page = (domain: string, slug: string) => `https://${domain}/oceans/cruise-destinations/${slug}/pricing.html`;
+
+const result = (url: string, errors: string[] = []): TestResult => ({
+  url,
+  domain: new URL(url).hostname,
+  passed: errors.length === 0,
+  loadTimeMs: 2000,
+  httpStatus: errors.some((e) => e.startsWith('HTTP')) ? 404 : 200,
+  checks: [],
+  errors,
+  warnings: [],
+  testedAt: '2026-01-15T14:05:00.000Z',
+});
+
+const RESULTS = [
+  result(page('www.viking.com', 'iceland')),
+  result(page('www.viking.com', 'caribbean'), ['No valid prices found']),
+  result(page('www.viking.com', 'alaska'), ['HTTP 404']),
+  result(page('www.vikingcruises.co.uk', 'retired'), ['HTTP 404']),
+];
+
+const summary = (results: TestResult[] = RESULTS): TestSummary => ({
+  runAt: '2026-01-15T14:00:00.000Z',
+  totalTested: results.length,
+  passed: results.filter((r) => r.passed).length,
+  failed: results.filter((r) => !r.passed).length,
+  warnings: 0,
+  avgLoadTimeMs: 2000,
+  results,
+});
+
+const reporter = new Reporter([]);
+
+const notification = (s: TestSummary = summary()): Notification => ({
+  summary: s,
+  severity: runSeverity(s),
+  failureGroups: reporter.groupFailures(s.results),
+  reasons: [],
+});
+
+/**
+ * Notifier recording what it was asked to do
+ */
+function recordingNotifier(name: string, channel: Partial<NotificationChannelConfig> = {}) {
+  const calls: string[] = [];
+  const notifier: Notifier = {
+    name,
+    channelConfig: () => ({ minSeverity: 'info', routes: [], quietWhenUnchanged: false, ...channel }),
+    isConfigured: () => true,
+    send: async (n) => {
+      calls.push(`send ${n.severity}${n.reasons.length > 0 ? `: ${n.reasons.join('; ')}` : ''}`);
+    },
+    resolve: async () => {
+      calls.push('resolve');
+    },
+  };
+  return { notifier, calls };
+}
+
+const { log, error } = console;
+
+test.beforeEach(() => {
+  console.log = () => {};
+  console.error = () => {};
+});
+
+test.afterEach(() => {
+  console.log = log;
+  console.error = error;
+});
+
+test.describe('severity and routes', () => {
+  test('a run is critical with failed pages, warning with warnings or price anomalies', () => {
+    expect(runSeverity(summary())).toBe('critical');
+    expect(runSeverity(summary([RESULTS[0]]))).toBe('info');
+    expect(runSeverity({ ...summary([RESULTS[0]]), warnings: 1 })).toBe('warning');
+  });
+
+  test('routes count the failed pages on their domains and categories', () => {
+    const groups = reporter.groupFailures(RESULTS);
+
+    expect(matchRoutes([], groups)).toEqual([]);
+    expect(matchRoutes([{ domains: ['viking.com'], minFailures: 2 }], groups)).toEqual(['2 failed pages on viking.com']);
+    expect(matchRoutes([{ domains: ['www.viking.com'], minFailures: 3 }], groups)).toBeNull();
+    expect(
+      matchRoutes([{ categories: ['HTTP 404 (Page Not Found)'], minFailures: 2 }, { minFailures: 10 }], groups)
+    ).toEqual(['2 failed pages (HTTP 404 (Page Not Found))']);
+    // Routes only filter runs with failed pages
+    expect(matchRoutes([{ minFailures: 10 }], [])).toEqual([]);
+  });
+
+  test('each channel is notified within its own threshold and routes', async () => {
+    const slack = recordingNotifier('chat');
+    const pager = recordingNotifier('pager', {
+      minSeverity: 'critical',
+      routes: [{ domains: ['www.viking.com'], minFailures: 2 }],
+    });
+    const routedReporter = new Reporter([slack.notifier, pager.notifier]);
+
+    expect(await routedReporter.notify(summary())).toBe(true);
+    expect(slack.calls).toEqual(['send critical']);
+    expect(pager.calls).toEqual(['send critical: 2 failed pages on www.viking.com']);
+
+    // One failure on www.viking.com: under the route, so the page is resolved
+    await routedReporter.notify(summary(RESULTS.slice(2)));
+    expect(pager.calls.slice(1)).toEqual(['resolve']);
+
+    // All passing: below the pager's threshold
+    await routedReporter.notify(summary([RESULTS[0]]));
+    expect(slack.calls.slice(1)).toEqual(['send critical', 'send info']);
+    expect(pager.calls.slice(2)).toEqual(['resolve']);
+  });
+
+  test('a routed channel gets runs without failures by its threshold alone', async () => {
+    const email = recordingNotifier('email', {
+      minSeverity: 'warning',
+      routes: [{ categories: ['HTTP 404 (Page Not Found)'], minFailures: 1 }],
+    });
+    const routedReporter = new Reporter([email.notifier]);
+
+    await routedReporter.notify({ ...summary([RESULTS[0]]), warnings: 1 });
+    await routedReporter.notify(summary([RESULTS[0]]));
+    expect(email.calls).toEqual(['send warning', 'resolve']);
+  });
+
+  test('notifies only the chosen channels, and reports a channel that failed', async () => {
+    const chosen = recordingNotifier('chosen');
+    const other = recordingNotifier('other');
+    const failing: Notifier = { ...recordingNotifier('failing').notifier, send: async () => Promise.reject(new Error('down')) };
+    const channelsReporter = new Reporter([chosen.notifier, other.notifier, failing]);
+
+    expect(await channelsReporter.notify(summary(), { channels: ['chosen'] })).toBe(true);
+    expect(chosen.calls).toHaveLength(1);
+    expect(other.calls).toHaveLength(0);
+
+    expect(await channelsReporter.notify(summary())).toBe(false);
+    expect(other.calls).toHaveLength(1);
+  });
+});
+
+test.describe('channels', () => {
+  const server = new StubServer();
+  let saved: typeof config.notifications;
+
+  test.beforeAll(async () => {
+    await server.start();
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test.beforeEach(() => {
+    server.reset();
+    saved = config.notifications;
+    config.notifications = { ...config.notifications, artifactsUrl: 'https://github.com/viking/e2e-viking/actions/runs/42' };
+  });
+
+  test.afterEach(() => {
+    config.notifications = saved;
+  });
+
+  test('Teams gets an Adaptive Card', async () => {
+    server.on('/teams', { status: 202 });
+    config.notifications.teams = { ...config.notifications.teams, webhookUrl: server.url('/teams'), maxFailuresInMessage: 2 };
+
+    await new TeamsNotifier().send(notification());
+
+    const [attachment] = JSON.parse(server.requestBodies[0]).attachments;
+    expect(attachment.contentType).toBe('application/vnd.microsoft.card.adaptive');
+    expect(attachment.content.type).toBe('AdaptiveCard');
+    const card = JSON.stringify(attachment.content);
+    expect(card).toContain('🚨 3 of 4 pricing pages failed');
+    expect(card).toContain('**HTTP 404 (Page Not Found)** (2)');
+    expect(card).toContain('_...and 1 more_');
+    expect(card).toContain('"url":"https://github.com/viking/e2e-viking/actions/runs/42"');
+  });
+
+  test('the webhook gets the summary as JSON, with the configured headers', async () => {
+    server.on('/hook', { status: 204 });
+    config.notifications.webhook = { ...config.notifications.webhook, url: server.url('/hook'), headers: { authorization: 'Bearer s3cret' } };
+
+    await new WebhookNotifier().send({ ...notification(), reasons: ['2 failed pages on www.viking.com'] });
+
+    expect(server.requestHeaders[0].authorization).toBe('Bearer s3cret');
+    expect(JSON.parse(server.requestBodies[0])).toMatchObject({
+      version: 1,
+      severity: 'critical',
+      reasons: ['2 failed pages on www.viking.com'],
+      failed: 3,
+      failures: [
+        { url: page('www.viking.com', 'alaska'), category: 'HTTP 404 (Page Not Found)', errors: ['HTTP 404'] },
+        { url: page('www.vikingcruises.co.uk', 'retired'), category: 'HTTP 404 (Page Not Found)' },
+        { url: page('www.viking.com', 'caribbean'), category: 'No Valid Prices' },
+      ],
+      artifactsUrl: 'https://github.com/viking/e2e-viking/actions/runs/42',
+    });
+
+    server.on('/hook', { status: 500 });
+    await expect(new WebhookNotifier().send(notification())).rejects.toThrow('answered HTTP 500');
+  });
+
+  test('PagerDuty triggers and resolves one incident', async () => {
+    server.on('/enqueue', { status: 202, body: '{"status":"success"}', contentType: 'application/json' });
+    config.notifications.pagerduty = {
+      ...config.notifications.pagerduty,
+      routingKey: 'R0UTING',
+      eventsUrl: server.url('/enqueue'),
+    };
+    const pagerDuty = new PagerDutyNotifier();
+
+    await pagerDuty.send(notification());
+    await pagerDuty.resolve(notification(summary([RESULTS[0]])));
+
+    const [trigger, resolve] = server.requestBodies.map((b) => JSON.parse(b));
+    expect(trigger).toMatchObject({
+      routing_key: 'R0UTING',
+      event_action: 'trigger',
+      dedup_key: 'viking-pricing-monitor',
+      payload: {
+        summary: 'Viking pricing monitor: 3 of 4 pricing pages failed',
+        severity: 'critical',
+        component: 'www.viking.com, www.vikingcruises.co.uk',
+        class: 'HTTP 404 (Page Not Found)',
+        custom_details: { failures_by_domain: { 'www.viking.com': 2, 'www.vikingcruises.co.uk': 1 } },
+      },
+    });
+    expect(resolve).toEqual({ routing_key: 'R0UTING', event_action: 'resolve', dedup_key: 'viking-pricing-monitor' });
+
+    server.on('/enqueue', { status: 400, body: '{"status":"invalid event","errors":["Event object is invalid"]}' });
+    await expect(pagerDuty.send(notification())).rejects.toThrow('HTTP 400: Event object is invalid');
+  });
+
+  test('email goes out over SMTP with every failed page', async () => {
+    const smtp = await startSmtpServer();
+    try {
+      config.notifications.email = {
+        ...config.notifications.email,
+        smtpHost: '127.0.0.1',
+        smtpPort: smtp.port,
+        secure: false,
+        from: 'monitor@example.com',
+        to: ['ops@example.com', 'qa@example.com'],
+      };
+
+      await new EmailNotifier().send(notification());
+
+      expect(smtp.commands).toEqual([
+        expect.stringMatching(/^EHLO /),
+        'MAIL FROM:<monitor@example.com>',
+        'RCPT TO:<ops@example.com>',
+        'RCPT TO:<qa@example.com>',
+        'DATA',
+        'QUIT',
+      ]);
+      const [headers, body] = smtp.messages[0].split('\r\n\r\n');
+      expect(headers).toContain('Subject: [Viking Pricing Monitor] 3 of 4 pricing pages failed');
+      expect(headers).toContain('To: ops@example.com, qa@example.com');
+      const text = Buffer.from(body, 'base64').toString('utf-8');
+      expect(text).toContain(`HTTP 404 (Page Not Found) (2)\n  - ${page('www.viking.com', 'alaska')}\n    HTTP 404`);
+      expect(text).toContain('  www.viking.com: 3 tested, 1 passed, 2 failed');
+
+      // No STARTTLS on the fake server: the password is not sent
+      config.notifications.email = { ...config.notifications.email, username: 'monitor', password: 'pw' };
+      await expect(new EmailNotifier().send(notification())).rejects.toThrow('offers no TLS');
+      expect(smtp.commands.filter((c) => c.startsWith('AUTH'))).toEqual([]);
+    } finally {
+      await smtp.close();
+    }
+  });
+});
+
+/**
+ * Minimal SMTP server recording commands and messages; no TLS
+ */
+async function startSmtpServer() {
+  const commands: string[] = [];
+  const messages: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let data: string[] | null = null;
+    socket.write('220 smtp.test ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf-8');
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (data) {
+          if (line === '.') {
+            messages.push(data.join('\r\n'));
+            data = null;
+            socket.write('250 Queued\r\n');
+          } else {
+            data.push(line);
+          }
+          continue;
+        }
+
+        commands.push(line);
+        if (line.startsWith('EHLO')) socket.write('250-smtp.test\r\n250 8BITMIME\r\n');
+        else if (line === 'DATA') {
+          data = [];
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (line === 'QUIT') socket.end('221 Bye\r\n');
+        else socket.write('250 OK\r\n');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    messages,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,211 @@
+/**
+ * PreflightChecker - verdicts, redirect chains, failed results and report loading
+ */
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import config from '../../config.js';
+import type { DiscoveredUrl } from '../../discovery/index.js';
+import { PreflightChecker, preflightResult, loadPreflightReport, type PreflightReport } from '../../preflight/index.js';
+import { HttpClient } from '../../utils/http-client.js';
+import { Reporter } from '../../utils/reporter.js';
+import { StubServer } from './helpers/stub-server.js';
+
+const server = new StubServer();
+
+const savedConfig = { ...config };
+
+test.afterEach(() => {
+  Object.assign(config, savedConfig);
+});
+
+const urlInfo = (pathname: string): DiscoveredUrl => ({
+  url: server.url(pathname),
+  source: 'sitemap',
+  domain: '127.0.0.1',
+  discoveredAt: '2026-01-15T00:00:00.000Z',
+});
+
+const redirect = (location: string, status = 301) => ({ status, headers: { Location: location } });
+
+const checker = () => new PreflightChecker(new HttpClient({ maxRetries: 0, maxRequestsPerSecondPerHost: 1000 }));
+
+test.describe('checkUrl', () => {
+  test.beforeAll(async () => {
+    await server.start();
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test.beforeEach(() => {
+    server.reset();
+  });
+
+  test('marks a 200 page live', async () => {
+    server.on('/pricing.html', { body: 'ok', contentType: 'text/html' });
+
+    const entry = await checker().checkUrl(urlInfo('/pricing.html'));
+
+    expect(entry).toMatchObject({ verdict: 'live', status: 200, redirects: [], finalUrl: server.url('/pricing.html') });
+  });
+
+  test('marks 404, 410 and 5xx dead', async () => {
+    server.on('/gone.html', { status: 410 }).on('/broken.html', { status: 500 });
+
+    const results = await Promise.all(['/missing.html', '/gone.html', '/broken.html'].map((p) => checker().checkUrl(urlInfo(p))));
+
+    expect(results.map((e) => [e.verdict, e.reason])).toEqual([
+      ['dead', 'HTTP 404'],
+      ['dead', 'HTTP 410'],
+      ['dead', 'HTTP 500'],
+    ]);
+  });
+
+  test('leaves bot-protection statuses to the browser', async () => {
+    server.on('/blocked.html', { status: 403 });
+
+    const entry = await checker().checkUrl(urlInfo('/blocked.html'));
+
+    expect(entry).toMatchObject({ verdict: 'unknown', reason: 'HTTP 403' });
+  });
+
+  test('records the redirect chain of a page that still exists', async () => {
+    server
+      .on('/old/pricing.html', redirect('/new/pricing.html'))
+      .on('/new/pricing.html', redirect(server.url('/oceans/pricing.html'), 302))
+      .on('/oceans/pricing.html', { body: 'ok', contentType: 'text/html' });
+
+    const entry = await checker().checkUrl(urlInfo('/old/pricing.html'));
+
+    expect(entry.verdict).toBe('live');
+    expect(entry.finalUrl).toBe(server.url('/oceans/pricing.html'));
+    expect(entry.redirects).toEqual([
+      { url: server.url('/old/pricing.html'), status: 301 },
+      { url: server.url('/new/pricing.html'), status: 302 },
+    ]);
+  });
+
+  test('marks a redirect to a (localized) homepage dead', async () => {
+    server
+      .on('/retired/pricing.html', redirect('/en-gb/'))
+      .on('/en-gb/', { body: 'home', contentType: 'text/html' });
+
+    const entry = await checker().checkUrl(urlInfo('/retired/pricing.html'));
+
+    expect(entry).toMatchObject({ verdict: 'dead', reason: `Redirected to homepage: ${server.url('/en-gb/')}` });
+  });
+
+  test('gives up on redirect loops', async () => {
+    config.preflight = { ...config.preflight, maxRedirects: 3 };
+    server.on('/a.html', redirect('/b.html')).on('/b.html', redirect('/a.html'));
+
+    const entry = await checker().checkUrl(urlInfo('/a.html'));
+
+    expect(entry).toMatchObject({ verdict: 'dead', reason: 'More than 3 redirects' });
+    expect(entry.redirects).toHaveLength(3);
+  });
+
+  test('falls back to GET when HEAD is not allowed', async () => {
+    server.on('/pricing.html', [{ status: 405 }, { body: 'ok', contentType: 'text/html' }]);
+
+    const entry = await checker().checkUrl(urlInfo('/pricing.html'));
+
+    expect(entry.verdict).toBe('live');
+    expect(server.requests).toHaveLength(2);
+  });
+});
+
+test.describe('preflightResult', () => {
+  const reporter = new Reporter();
+  const entry = {
+    url: 'https://www.viking.com/oceans/retired/pricing.html',
+    domain: 'www.viking.com',
+    verdict: 'dead' as const,
+    redirects: [],
+    finalUrl: 'https://www.viking.com/oceans/retired/pricing.html',
+    durationMs: 120,
+    checkedAt: '2026-01-15T00:00:00.000Z',
+  };
+
+  test('reports dead statuses as a failed http-status check', () => {
+    const result = preflightResult({ ...entry, status: 404, reason: 'HTTP 404' });
+
+    expect(result).toMatchObject({ passed: false, httpStatus: 404, errors: ['HTTP 404'] });
+    expect(result.checks).toEqual([expect.objectContaining({ id: 'http-status', passed: false, severity: 'critical' })]);
+    expect(reporter.categorizeFailure(result)).toBe('HTTP 404 (Page Not Found)');
+    expect(reporter.categorizeFailure(preflightResult({ ...entry, status: 410, reason: 'HTTP 410' }))).toBe(
+      'HTTP 404 (Page Not Found)'
+    );
+    expect(reporter.categorizeFailure(preflightResult({ ...entry, status: 503, reason: 'HTTP 503' }))).toBe(
+      'HTTP 5xx (Server Error)'
+    );
+  });
+
+  test('reports homepage redirects as a failed redirect check', () => {
+    const result = preflightResult({
+      ...entry,
+      status: 200,
+      finalUrl: 'https://www.viking.com/',
+      reason: 'Redirected to homepage: https://www.viking.com/',
+    });
+
+    expect(result.checks[0].id).toBe('redirect');
+    expect(reporter.categorizeFailure(result)).toBe('Redirected to Homepage');
+  });
+});
+
+test.describe('loadPreflightReport', () => {
+  let dir: string;
+  let reportPath: string;
+  let manifestPath: string;
+
+  const report = (overrides: Partial<PreflightReport> = {}): PreflightReport => ({
+    version: '1.0.0',
+    checkedAt: new Date().toISOString(),
+    manifestGeneratedAt: '2026-01-15T06:00:00.000Z',
+    total: 0,
+    live: 0,
+    dead: 0,
+    unknown: 0,
+    entries: [],
+    ...overrides,
+  });
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'preflight-'));
+    reportPath = path.join(dir, 'preflight.json');
+    manifestPath = path.join(dir, 'pricing-urls.json');
+    fs.writeFileSync(manifestPath, JSON.stringify({ generatedAt: '2026-01-15T06:00:00.000Z', urls: [] }));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('returns the report made for the current manifest', () => {
+    fs.writeFileSync(reportPath, JSON.stringify(report()));
+
+    expect(loadPreflightReport(reportPath, manifestPath)).toMatchObject({ manifestGeneratedAt: '2026-01-15T06:00:00.000Z' });
+  });
+
+  test('ignores a missing report', () => {
+    expect(loadPreflightReport(reportPath, manifestPath)).toBeNull();
+  });
+
+  test('ignores a report made for another manifest', () => {
+    fs.writeFileSync(reportPath, JSON.stringify(report({ manifestGeneratedAt: '2026-01-14T06:00:00.000Z' })));
+
+    expect(loadPreflightReport(reportPath, manifestPath)).toBeNull();
+  });
+
+  test('ignores a report older than maxAgeHours', () => {
+    const checkedAt = new Date(Date.now() - (config.preflight.maxAgeHours + 1) * 3_600_000).toISOString();
+    fs.writeFileSync(reportPath, JSON.stringify(report({ checkedAt })));
+
+    expect(loadPreflightReport(reportPath, manifestPath)).toBeNull();
+  });
+});
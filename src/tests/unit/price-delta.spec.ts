@@ -0,0 +1,107 @@
+/**
+ * Price delta - fare anomalies between runs, per page and per category
+ */
+
+import { test, expect } from '@playwright/test';
+import { analyzePriceChanges, describePriceAnomaly, type RunRecord, type RunRecordResult } from '../../history/index.js';
+
+const URL_A = 'https://www.vikingcruises.com/oceans/cruise-destinations/caribbean/west-indies-explorer/pricing.html';
+const URL_B = 'https://www.vikingrivercruises.com/cruise-destinations/europe/rhine-getaway/pricing.html';
+
+const THRESHOLDS = { percentThreshold: 20, absoluteThreshold: 100 };
+
+const fare = (url: string, amount: number, currency = 'USD', categoryFares?: Record<string, number>): RunRecordResult => ({
+  url,
+  domain: new URL(url).hostname,
+  passed: true,
+  httpStatus: 200,
+  errors: [],
+  lowestFare: { amount, currency },
+  ...(categoryFares && { categoryFares }),
+});
+
+const run = (runAt: string, results: RunRecordResult[]): RunRecord => ({
+  runAt,
+  totalTested: results.length,
+  passed: results.length,
+  failed: 0,
+  results,
+});
+
+const changes = (before: RunRecordResult[], after: RunRecordResult[]) =>
+  analyzePriceChanges(run('2026-01-15T14:00:00.000Z', after), run('2026-01-14T14:00:00.000Z', before), THRESHOLDS);
+
+test.describe('thresholds', () => {
+  test('flag a change beyond both the percent and the absolute threshold, either way', () => {
+    const anomalies = changes([fare(URL_A, 5499), fare(URL_B, 2000)], [fare(URL_A, 3189), fare(URL_B, 2600)]);
+
+    expect(anomalies).toEqual([
+      {
+        url: URL_A,
+        domain: 'www.vikingcruises.com',
+        currency: 'USD',
+        previousAmount: 5499,
+        currentAmount: 3189,
+        changeAmount: -2310,
+        changePercent: expect.closeTo(-42.0, 1),
+      },
+      expect.objectContaining({ url: URL_B, changeAmount: 600, changePercent: 30 }),
+    ]);
+  });
+
+  test('ignore a large percent change below the absolute threshold', () => {
+    // 50% of a small fare is only 50 in its currency
+    expect(changes([fare(URL_A, 100)], [fare(URL_A, 150)])).toEqual([]);
+  });
+
+  test('ignore a large absolute change below the percent threshold', () => {
+    // 500 on a 10,000 fare is only 5%
+    expect(changes([fare(URL_A, 10000)], [fare(URL_A, 10500)])).toEqual([]);
+  });
+
+  test('compare nothing without a previous run or fare', () => {
+    expect(analyzePriceChanges(run('2026-01-15T14:00:00.000Z', [fare(URL_A, 3000)]), undefined, THRESHOLDS)).toEqual([]);
+    expect(changes([{ ...fare(URL_A, 0), lowestFare: undefined }], [fare(URL_A, 3000)])).toEqual([]);
+    expect(changes([fare(URL_A, 3000)], [fare(URL_B, 9000)])).toEqual([]);
+  });
+});
+
+test.describe('categories', () => {
+  test('compare each category present in both runs, sorted by the size of the move', () => {
+    const anomalies = changes(
+      [fare(URL_A, 3000, 'USD', { Veranda: 3000, Penthouse: 8000, Explorer: 12000 })],
+      [fare(URL_A, 3000, 'USD', { Veranda: 4500, Penthouse: 3200, Owners: 20000 })]
+    );
+
+    expect(anomalies.map((a) => [a.category, a.changePercent])).toEqual([
+      ['Penthouse', -60],
+      ['Veranda', 50],
+    ]);
+    expect(anomalies.every((a) => a.url === URL_A && a.currency === 'USD')).toBe(true);
+  });
+
+  test('describe a category anomaly and a page anomaly', () => {
+    const [category] = changes([fare(URL_A, 3000, 'USD', { Veranda: 5499 })], [fare(URL_A, 3000, 'USD', { Veranda: 3189 })]);
+    const [page] = changes([fare(URL_B, 2000, 'EUR')], [fare(URL_B, 2600, 'EUR')]);
+
+    expect(describePriceAnomaly(category)).toBe('Veranda: -42.0% (5,499 → 3,189 USD)');
+    expect(describePriceAnomaly(page)).toBe('Lowest fare: +30.0% (2,000 → 2,600 EUR)');
+  });
+});
+
+test('skip pages whose lowest fare came from another source in the previous run', () => {
+  // The grid was unreadable on one run: the price check's first price is no lowest fare
+  const grid = { ...fare(URL_A, 2999), lowestFare: { amount: 2999, currency: 'USD', source: 'fare-grid' as const } };
+  const priceCheck = { ...fare(URL_A, 5499), lowestFare: { amount: 5499, currency: 'USD', source: 'price-check' as const } };
+
+  expect(changes([grid], [priceCheck])).toEqual([]);
+  expect(changes([priceCheck], [grid])).toEqual([]);
+  expect(changes([grid], [{ ...grid, lowestFare: { ...grid.lowestFare, amount: 4999 } }])).toHaveLength(1);
+});
+
+test('skip pages whose currency changed, fares and categories alike', () => {
+  // A page switching from USD to GBP is a currency problem, reported by the currency check
+  const anomalies = changes([fare(URL_A, 5000, 'USD', { Veranda: 5000 })], [fare(URL_A, 2500, 'GBP', { Veranda: 2500 })]);
+
+  expect(anomalies).toEqual([]);
+});
@@ -0,0 +1,76 @@
+/**
+ * Price parser - currency markers, separator styles, bare dollars and
+ * "from ... pp" phrasing
+ */
+
+import { test, expect } from '@playwright/test';
+import config from '../../config.js';
+import { parseAmount, parsePrices } from '../../utils/index.js';
+
+const domain = (baseUrl: string) => config.domains.find((d) => d.baseUrl === baseUrl)!;
+
+const AU = domain('https://www.vikingcruises.com.au');
+const CA = domain('https://www.vikingcruisescanada.com');
+const UK = domain('https://www.vikingcruises.co.uk');
+
+test.describe('parseAmount', () => {
+  test('reads comma-grouped amounts, with or without cents', () => {
+    expect(parseAmount('5,499')).toBe(5499);
+    expect(parseAmount('5,499.00')).toBe(5499);
+    expect(parseAmount('12,995.50')).toBe(12995.5);
+    expect(parseAmount('899')).toBe(899);
+  });
+
+  test('reads dot-grouped amounts with comma decimals', () => {
+    expect(parseAmount('2.495,00')).toBe(2495);
+    expect(parseAmount('2.495')).toBe(2495);
+    expect(parseAmount('1.234.567,89')).toBe(1234567.89);
+  });
+
+  test('reads amounts grouped with non-breaking spaces', () => {
+    expect(parseAmount('12\u00a0995')).toBe(12995);
+    expect(parseAmount('12\u202f995,00')).toBe(12995);
+  });
+});
+
+test.describe('parsePrices', () => {
+  test('reads explicit currency markers before and after the amount', () => {
+    const prices = parsePrices('Veranda AU$12,995 · Penthouse CA$9,495 · Suite £4,295 · Explorer €3.995,00 · Owner 5,999 USD');
+
+    expect(prices.map((p) => [p.amount, p.currency, p.explicitCurrency])).toEqual([
+      [12995, 'AUD', true],
+      [9495, 'CAD', true],
+      [4295, 'GBP', true],
+      [3995, 'EUR', true],
+      [5999, 'USD', true],
+    ]);
+  });
+
+  test('reads a comma-decimal amount after its marker', () => {
+    expect(parsePrices('Ab € 2.495,00 pro Person')).toMatchObject([{ amount: 2495, currency: 'EUR' }]);
+  });
+
+  test('resolves a bare "$" to the dollar of the site being tested', () => {
+    expect(parsePrices('$5,499', AU)).toMatchObject([{ amount: 5499, currency: 'AUD', explicitCurrency: false }]);
+    expect(parsePrices('$5,499', CA)).toMatchObject([{ currency: 'CAD', explicitCurrency: false }]);
+    // No site, or a site without a dollar: assume USD
+    expect(parsePrices('$5,499')).toMatchObject([{ currency: 'USD', explicitCurrency: false }]);
+    expect(parsePrices('$5,499', UK)).toMatchObject([{ currency: 'USD', explicitCurrency: false }]);
+    // An explicit marker wins over the site's currency
+    expect(parsePrices('US$5,499', AU)).toMatchObject([{ currency: 'USD', explicitCurrency: true }]);
+  });
+
+  test('flags "from" prices and per-person prices', () => {
+    const prices = parsePrices('From AU$12,995 pp, now £2,495 per person, or from 3,995 EUR', AU);
+
+    expect(prices).toEqual([
+      { raw: 'From AU$12,995 pp', amount: 12995, currency: 'AUD', explicitCurrency: true, isFromPrice: true, perPerson: true },
+      { raw: '£2,495 per person', amount: 2495, currency: 'GBP', explicitCurrency: true, isFromPrice: false, perPerson: true },
+      { raw: 'from 3,995 EUR', amount: 3995, currency: 'EUR', explicitCurrency: true, isFromPrice: true, perPerson: false },
+    ]);
+  });
+
+  test('finds nothing in text without a currency', () => {
+    expect(parsePrices('Call 1-800-2-VIKING, departing 2026, 15 days')).toEqual([]);
+  });
+});
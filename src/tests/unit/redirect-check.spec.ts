@@ -0,0 +1,63 @@
+/**
+ * Redirect check - which redirects away from a pricing page fail it
+ */
+
+import { test, expect } from '@playwright/test';
+import type { CheckContext } from '../../checks/index.js';
+import { describeRedirectProblem, isHomepageUrl } from '../../checks/index.js';
+import { redirectCheck } from '../../checks/page-checks.js';
+
+const PRICING = 'https://www.vikingcruises.com/oceans/cruise-destinations/caribbean/west-indies-explorer/pricing.html';
+
+test.describe('describeRedirectProblem', () => {
+  test('accepts a redirect to another pricing page on the same site', () => {
+    const moved = 'https://www.vikingcruises.com/oceans/cruise-destinations/caribbean/west-indies-explorer-2027/pricing.html';
+    expect(describeRedirectProblem(PRICING, moved)).toBeUndefined();
+  });
+
+  test('flags a redirect to another domain', () => {
+    expect(describeRedirectProblem(PRICING, 'https://www.vikingcruises.co.uk/oceans/pricing.html')).toBe(
+      'Redirected to another domain: https://www.vikingcruises.co.uk/oceans/pricing.html'
+    );
+  });
+
+  test('flags a redirect to another locale', () => {
+    const from = 'https://www.viking.com/en-us/oceans/pricing.html';
+    expect(describeRedirectProblem(from, 'https://www.viking.com/en-gb/oceans/pricing.html')).toMatch(/^Redirected to another locale/);
+  });
+
+  test('flags a redirect to the homepage', () => {
+    expect(describeRedirectProblem(PRICING, 'https://www.vikingcruises.com/')).toBe(
+      'Redirected to homepage: https://www.vikingcruises.com/'
+    );
+  });
+
+  test('flags a redirect to a page that is not a pricing page', () => {
+    const overview = 'https://www.vikingcruises.com/oceans/cruise-destinations/caribbean/index.html';
+    expect(describeRedirectProblem(PRICING, overview)).toBe(`Redirected away from pricing: ${overview}`);
+  });
+});
+
+test('isHomepageUrl matches site roots with or without a locale', () => {
+  expect(isHomepageUrl('https://www.viking.com/')).toBe(true);
+  expect(isHomepageUrl('https://www.viking.com/en-gb/')).toBe(true);
+  expect(isHomepageUrl('https://www.viking.com/oceans/')).toBe(false);
+});
+
+test.describe('redirectCheck', () => {
+  const run = (finalUrl: string, redirectChain: CheckContext['redirectChain'] = []) =>
+    redirectCheck.run({
+      urlInfo: { url: PRICING, source: 'sitemap', domain: 'www.vikingcruises.com', discoveredAt: '' },
+      finalUrl,
+      redirectChain,
+    } as unknown as CheckContext);
+
+  test('passes a page that was not redirected', async () => {
+    expect(await run(PRICING)).toMatchObject({ passed: true, details: 'No redirects' });
+  });
+
+  test('fails a page redirected to the homepage, with the reason as details', async () => {
+    const result = await run('https://www.vikingcruises.com/', [{ url: PRICING, status: 301 }]);
+    expect(result).toMatchObject({ passed: false, details: 'Redirected to homepage: https://www.vikingcruises.com/' });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * RobotsTxt - group selection, rule precedence, wildcards and directives
+ */
+
+import { test, expect } from '@playwright/test';
+import { RobotsTxt } from '../../discovery/index.js';
+
+const ROBOTS = `
+# Viking robots.txt
+User-agent: Googlebot
+Disallow: /
+
+User-agent: *
+Disallow: /search
+Disallow: /*.pdf$
+Disallow: /oceans/private
+Allow: /oceans/private/pricing.html
+Crawl-delay: 2
+
+Sitemap: https://www.viking.com/sitemap.xml
+Sitemap: https://www.viking.com/sitemap-rivers.xml.gz
+`;
+
+const url = (path: string) => `https://www.viking.com${path}`;
+
+test.describe('parse', () => {
+  test('collects every Sitemap: directive regardless of group', () => {
+    expect(RobotsTxt.parse(ROBOTS, 'Viking-Pricing-Monitor').sitemaps).toEqual([
+      'https://www.viking.com/sitemap.xml',
+      'https://www.viking.com/sitemap-rivers.xml.gz',
+    ]);
+  });
+
+  test('reads Crawl-delay of the applicable group in milliseconds', () => {
+    expect(RobotsTxt.parse(ROBOTS, 'Viking-Pricing-Monitor').crawlDelayMs).toBe(2000);
+    expect(RobotsTxt.parse('User-agent: *\nDisallow:', 'Viking-Pricing-Monitor').crawlDelayMs).toBeUndefined();
+  });
+
+  test('prefers a group naming our user-agent over the * group', () => {
+    const robots = RobotsTxt.parse(
+      'User-agent: *\nDisallow: /\n\nUser-agent: viking-pricing-monitor\nDisallow: /search\n',
+      'Viking-Pricing-Monitor/1.0'
+    );
+
+    expect(robots.isAllowed(url('/oceans/pricing.html'))).toBe(true);
+    expect(robots.isAllowed(url('/search'))).toBe(false);
+  });
+
+  test('shares rules between consecutive User-agent lines', () => {
+    const robots = RobotsTxt.parse('User-agent: Bingbot\nUser-agent: *\nDisallow: /search\n', 'Viking-Pricing-Monitor');
+
+    expect(robots.isAllowed(url('/search?q=danube'))).toBe(false);
+  });
+});
+
+test.describe('isAllowed', () => {
+  const robots = RobotsTxt.parse(ROBOTS, 'Viking-Pricing-Monitor');
+
+  test('allows paths no rule matches', () => {
+    expect(robots.isAllowed(url('/oceans/cruise-destinations/caribbean/pricing.html'))).toBe(true);
+  });
+
+  test('disallows path prefixes', () => {
+    expect(robots.isAllowed(url('/search'))).toBe(false);
+    expect(robots.isAllowed(url('/search/results'))).toBe(false);
+  });
+
+  test('lets the longest matching rule win', () => {
+    expect(robots.isAllowed(url('/oceans/private/itinerary.html'))).toBe(false);
+    expect(robots.isAllowed(url('/oceans/private/pricing.html'))).toBe(true);
+  });
+
+  test('supports * and $ wildcards', () => {
+    expect(robots.isAllowed(url('/brochures/2027/oceans.pdf'))).toBe(false);
+    expect(robots.isAllowed(url('/brochures/2027/oceans.pdf.html'))).toBe(true);
+  });
+
+  test('allows everything for an empty Disallow or no robots.txt', () => {
+    expect(RobotsTxt.parse('User-agent: *\nDisallow:\n').isAllowed(url('/search'))).toBe(true);
+    expect(RobotsTxt.allowAll().isAllowed(url('/search'))).toBe(true);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Run history - storing runs, and diffing a run against the runs before it
+ */
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import config from '../../config.js';
+import { RunHistory, type RunRecord } from '../../history/index.js';
+import type { TestResult, TestSummary } from '../../utils/reporter.js';
+
+const A = 'https://www.viking.com/a/pricing.html';
+const B = 'https://www.viking.com/b/pricing.html';
+const C = 'https://www.viking.com/c/pricing.html';
+const D = 'https://www.viking.com/d/pricing.html';
+
+/** A run in which the listed URLs failed and the others passed */
+const run = (runAt: string, urls: string[], failed: string[] = []): RunRecord => ({
+  runAt,
+  totalTested: urls.length,
+  passed: urls.length - failed.length,
+  failed: failed.length,
+  results: urls.map((url) => ({
+    url,
+    domain: 'www.viking.com',
+    passed: !failed.includes(url),
+    httpStatus: failed.includes(url) ? 404 : 200,
+    errors: failed.includes(url) ? [`${url.split('/')[3]} failed on ${runAt.slice(0, 10)}`] : [],
+  })),
+});
+
+const history = new RunHistory(path.join(os.tmpdir(), 'unused-history'));
+
+test.describe('diff', () => {
+  test('classifies newly failing, fixed and still failing pages', () => {
+    const previous = run('2026-01-14T06:00:00.000Z', [A, B, C, D], [B, C]);
+    const current = run('2026-01-15T06:00:00.000Z', [A, B, C, D], [A, C]);
+
+    const diff = history.diff(current, [previous]);
+
+    expect(diff.newlyFailing).toEqual([{ url: A, domain: 'www.viking.com', errors: ['a failed on 2026-01-15'] }]);
+    // A fixed page carries the errors it had when it last failed
+    expect(diff.newlyRecovered).toEqual([{ url: B, domain: 'www.viking.com', errors: ['b failed on 2026-01-14'] }]);
+    expect(diff.persistentlyFailing).toEqual([
+      {
+        url: C,
+        domain: 'www.viking.com',
+        errors: ['c failed on 2026-01-15'],
+        failingSince: '2026-01-14T06:00:00.000Z',
+        consecutiveFailures: 2,
+      },
+    ]);
+    expect(diff.previousRunAt).toBe('2026-01-14T06:00:00.000Z');
+    expect(diff.previousTotals).toEqual({ totalTested: 4, passed: 2, failed: 2 });
+  });
+
+  test('counts a failing page new to the manifest as newly failing', () => {
+    const diff = history.diff(run('2026-01-15T06:00:00.000Z', [A, B], [B]), [run('2026-01-14T06:00:00.000Z', [A])]);
+
+    expect(diff.newlyFailing.map((c) => c.url)).toEqual([B]);
+    expect(diff.persistentlyFailing).toEqual([]);
+  });
+
+  test('treats every failure of the first run as newly failing', () => {
+    const diff = history.diff(run('2026-01-15T06:00:00.000Z', [A, B], [A]), []);
+
+    expect(diff.newlyFailing.map((c) => c.url)).toEqual([A]);
+    expect(diff.previousRunAt).toBeUndefined();
+    expect(diff.previousTotals).toBeUndefined();
+  });
+});
+
+test.describe('failure streaks', () => {
+  const runs = [
+    run('2026-01-11T06:00:00.000Z', [A, B, C], [A, B]),
+    run('2026-01-12T06:00:00.000Z', [A, B, C], [A, C]),
+    run('2026-01-13T06:00:00.000Z', [A, B, C], [A, B, C]),
+    run('2026-01-14T06:00:00.000Z', [A, B], [A, B]),
+  ];
+
+  test('count the consecutive failing runs, longest streak first', () => {
+    const diff = history.diff(run('2026-01-15T06:00:00.000Z', [A, B, C], [A, B, C]), runs);
+
+    expect(diff.persistentlyFailing.map((f) => [f.url, f.consecutiveFailures, f.failingSince])).toEqual([
+      // Failed in every run
+      [A, 5, '2026-01-11T06:00:00.000Z'],
+      // Passed on the 12th, so the streak starts on the 13th
+      [B, 3, '2026-01-13T06:00:00.000Z'],
+    ]);
+    // Untested on the 14th: C starts over as newly failing
+    expect(diff.newlyFailing.map((c) => c.url)).toEqual([C]);
+  });
+
+  test('diffLatest diffs the last stored run against the ones before it', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-history-'));
+    try {
+      const stored = [...runs, run('2026-01-15T06:00:00.000Z', [A, B], [A])];
+      // Stored out of order, and with a corrupt line
+      fs.writeFileSync(
+        path.join(dir, 'runs.jsonl'),
+        [...stored].reverse().map((r) => JSON.stringify(r)).join('\n') + '\n{"runAt": \n'
+      );
+
+      const diff = await new RunHistory(dir).diffLatest();
+
+      expect(diff?.currentRunAt).toBe('2026-01-15T06:00:00.000Z');
+      expect(diff?.persistentlyFailing.map((f) => [f.url, f.consecutiveFailures])).toEqual([[A, 5]]);
+      expect(diff?.newlyRecovered.map((c) => c.url)).toEqual([B]);
+      expect(await new RunHistory(path.join(dir, 'none')).diffLatest()).toBeNull();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+test.describe('ingest', () => {
+  const savedMaxRuns = config.historyMaxRuns;
+
+  test.afterEach(() => {
+    config.historyMaxRuns = savedMaxRuns;
+  });
+
+  const summary = (runAt: string, results: TestResult[]): TestSummary => ({
+    runAt,
+    totalTested: results.length,
+    passed: results.filter((r) => r.passed).length,
+    failed: results.filter((r) => !r.passed).length,
+    warnings: 0,
+    avgLoadTimeMs: 1000,
+    results,
+  });
+
+  const result = (url: string, overrides: Partial<TestResult> = {}): TestResult => ({
+    url,
+    domain: 'www.viking.com',
+    passed: true,
+    loadTimeMs: 1000,
+    httpStatus: 200,
+    checks: [],
+    errors: [],
+    warnings: [],
+    testedAt: '2026-01-15T06:00:00.000Z',
+    ...overrides,
+  });
+
+  test('records the lowest fare per category in the site currency, and keeps the last historyMaxRuns runs', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-history-'));
+    try {
+      config.historyMaxRuns = 2;
+      const runHistory = new RunHistory(dir);
+      const priced = result(A, {
+        lowestFare: { amount: 2999, currency: 'USD', source: 'fare-grid' },
+        fareMatrix: {
+          currency: 'USD',
+          categories: ['Veranda', 'Penthouse'],
+          departures: [
+            {
+              date: 'Mar 14, 2026',
+              fares: [
+                { category: 'Veranda', amount: 3499, currency: 'USD', soldOut: false },
+                { category: 'Penthouse', amount: null, soldOut: true },
+              ],
+            },
+            {
+              date: 'Apr 11, 2026',
+              fares: [
+                { category: 'Veranda', amount: 2999, currency: 'USD', soldOut: false },
+                { category: 'Penthouse', amount: 5999, currency: 'USD', soldOut: false },
+                // Not the site's currency: left out of the category fares
+                { category: 'Explorer', amount: 4999, currency: 'EUR', soldOut: false },
+              ],
+            },
+          ],
+        },
+      });
+
+      await runHistory.ingest(summary('2026-01-13T06:00:00.000Z', [result(A)]));
+      await runHistory.ingest(summary('2026-01-14T06:00:00.000Z', [result(A)]));
+      const record = await runHistory.ingest(summary('2026-01-15T06:00:00.000Z', [priced, result(B, { passed: false })]));
+
+      expect(record.results[0]).toMatchObject({
+        url: A,
+        lowestFare: { amount: 2999, currency: 'USD', source: 'fare-grid' },
+        categoryFares: { Veranda: 2999, Penthouse: 5999 },
+      });
+      expect(record.results[1]).toMatchObject({ url: B, passed: false });
+      expect(record.results[1].categoryFares).toBeUndefined();
+      expect((await runHistory.loadRuns()).map((r) => r.runAt)).toEqual(['2026-01-14T06:00:00.000Z', '2026-01-15T06:00:00.000Z']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Shard merge - combining and validating the summaries of a sharded run
+ */
+
+import { test, expect } from '@playwright/test';
+import { mergeShardSummaries } from '../../selection/index.js';
+import type { TestResult, TestSummary } from '../../utils/reporter.js';
+
+const result = (url: string, passed = true): TestResult => ({
+  url,
+  domain: new URL(url).hostname,
+  passed,
+  loadTimeMs: 1000,
+  httpStatus: 200,
+  checks: [],
+  errors: passed ? [] : ['No valid prices'],
+  warnings: [],
+  testedAt: '2026-01-15T14:05:00.000Z',
+});
+
+const shard = (index: number, total: number, runAt: string, results: TestResult[]): TestSummary => ({
+  runAt,
+  totalTested: results.length,
+  passed: results.filter((r) => r.passed).length,
+  failed: results.filter((r) => !r.passed).length,
+  warnings: 0,
+  avgLoadTimeMs: 1000,
+  selection: ['domain=viking.com', `shard ${index}/${total}`],
+  shard: { index, total },
+  results,
+});
+
+const A = 'https://www.viking.com/a/pricing.html';
+const B = 'https://www.viking.com/b/pricing.html';
+const C = 'https://www.viking.com/c/pricing.html';
+
+test('combines the results of every shard into one summary', () => {
+  const merged = mergeShardSummaries([
+    shard(2, 2, '2026-01-15T14:01:00.000Z', [result(C), result(A, false)]),
+    shard(1, 2, '2026-01-15T14:00:00.000Z', [result(B)]),
+  ]);
+
+  expect(merged).toMatchObject({ runAt: '2026-01-15T14:00:00.000Z', totalTested: 3, passed: 2, failed: 1 });
+  expect(merged.results.map((r) => r.url)).toEqual([A, B, C]);
+  expect(merged.selection).toEqual(['domain=viking.com']);
+  expect(merged.shard).toBeUndefined();
+});
+
+test('refuses missing shards unless partial merges are allowed', () => {
+  const shards = [shard(1, 3, '2026-01-15T14:00:00.000Z', [result(A)]), shard(3, 3, '2026-01-15T14:00:00.000Z', [result(C)])];
+
+  expect(() => mergeShardSummaries(shards)).toThrow('Missing shard(s) 2 of 3; pass --allow-partial to merge anyway');
+  expect(mergeShardSummaries(shards, { allowPartial: true }).totalTested).toBe(2);
+});
+
+test('refuses shards of different runs or the same shard twice', () => {
+  const runAt = '2026-01-15T14:00:00.000Z';
+
+  expect(() => mergeShardSummaries([shard(1, 2, runAt, []), shard(2, 3, runAt, [])])).toThrow(/disagree on the shard count/);
+  expect(() => mergeShardSummaries([shard(1, 2, runAt, []), shard(1, 2, runAt, [])])).toThrow('Shard 1/2 was given more than once');
+  expect(() => mergeShardSummaries([{ ...shard(1, 1, runAt, []), shard: undefined }])).toThrow(/is not a shard/);
+});
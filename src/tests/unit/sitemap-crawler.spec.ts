@@ -0,0 +1,340 @@
+/**
+ * SitemapCrawler - local files, remote sitemaps via a stub server,
+ * nested indexes, single-entry urlsets, gzip, depth limits, 403s and timeouts
+ */
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import config from '../../config.js';
+import { SitemapCrawler } from '../../discovery/index.js';
+import { StubServer } from './helpers/stub-server.js';
+
+const urlset = (...locs: string[]) =>
+  '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n' +
+  locs.map((loc) => `  <url><loc>${loc}</loc><lastmod>2026-01-15</lastmod></url>\n`).join('') +
+  '</urlset>\n';
+
+const sitemapIndex = (...locs: string[]) =>
+  '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n' +
+  locs.map((loc) => `  <sitemap><loc>${loc}</loc></sitemap>\n`).join('') +
+  '</sitemapindex>\n';
+
+const OCEAN_PRICING = 'https://www.vikingcruises.com/oceans/cruise-destinations/caribbean/west-indies-explorer/pricing.html';
+const OCEAN_ITINERARY = 'https://www.vikingcruises.com/oceans/cruise-destinations/caribbean/west-indies-explorer/itinerary.html';
+const RIVER_PRICING = 'https://www.vikingrivercruises.com/cruise-destinations/europe/danube-waltz/pricing.html';
+
+const savedConfig = { ...config };
+
+test.afterEach(() => {
+  Object.assign(config, savedConfig);
+});
+
+test.describe('processUrlset', () => {
+  test('keeps only pricing URLs, with domain and lastmod', () => {
+    const crawler = new SitemapCrawler();
+    crawler['processUrlset'](
+      {
+        url: [
+          { loc: OCEAN_PRICING, lastmod: '2026-01-15' },
+          { loc: OCEAN_ITINERARY, lastmod: '2026-01-15' },
+          { loc: RIVER_PRICING },
+        ],
+      },
+      'test.xml'
+    );
+
+    const urls = Array.from(crawler['discoveredUrls'].values());
+    expect(urls.map((u) => u.url).sort()).toEqual([OCEAN_PRICING, RIVER_PRICING].sort());
+    expect(urls.find((u) => u.url === OCEAN_PRICING)).toMatchObject({
+      source: 'sitemap',
+      domain: 'www.vikingcruises.com',
+      lastModified: '2026-01-15',
+    });
+    expect(urls.find((u) => u.url === RIVER_PRICING)?.lastModified).toBeUndefined();
+  });
+
+  test('accepts a single-entry urlset, which the XML parser does not wrap in an array', () => {
+    const crawler = new SitemapCrawler();
+    const parsed = crawler['parser'].parse(urlset(RIVER_PRICING));
+
+    expect(Array.isArray(parsed.urlset.url)).toBe(false);
+    crawler['processUrlset'](parsed.urlset, 'single.xml');
+
+    expect(Array.from(crawler['discoveredUrls'].keys())).toEqual([RIVER_PRICING]);
+  });
+
+  test('accepts entries parsed as bare strings', () => {
+    const crawler = new SitemapCrawler();
+    crawler['processUrlset']({ url: RIVER_PRICING as never }, 'bare.xml');
+
+    expect(crawler['discoveredUrls'].get(RIVER_PRICING)?.lastModified).toBeUndefined();
+  });
+});
+
+test.describe('local sitemaps', () => {
+  test('every sitemap in sitemaps/ yields its pricing URLs', async () => {
+    const files = fs.readdirSync('sitemaps').filter((f) => f.endsWith('.xml'));
+    expect(files.length).toBeGreaterThan(0);
+
+    for (const file of files) {
+      const filePath = path.join('sitemaps', file);
+      const xml = fs.readFileSync(filePath, 'utf-8');
+      const expected = new Set(
+        Array.from(xml.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/g), (m) => m[1]).filter((loc) =>
+          config.pricingPagePatterns.some((pattern) => pattern.test(loc))
+        )
+      );
+
+      const crawler = new SitemapCrawler();
+      await crawler['processLocalSitemap'](filePath);
+
+      expect(expected.size, `${file} has pricing URLs`).toBeGreaterThan(0);
+      expect(new Set(crawler['discoveredUrls'].keys()), file).toEqual(expected);
+    }
+  });
+
+  let dir: string;
+
+  test.beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sitemaps-'));
+    config.localSitemapDir = dir;
+    config.useLocalSitemaps = true;
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('resolves children of a local index to files prefixed with their domain', async () => {
+    fs.writeFileSync(
+      path.join(dir, 'index.xml'),
+      sitemapIndex(
+        'https://www.vikingcruises.com/sitemap-1.xml',
+        'https://www.vikingrivercruises.co.uk/sitemap-1.xml'
+      )
+    );
+    fs.writeFileSync(path.join(dir, 'vikingcruises-sitemap-1.xml'), urlset(OCEAN_PRICING, OCEAN_ITINERARY));
+    fs.writeFileSync(path.join(dir, 'uk-vrc-sitemap-1.xml'), urlset(RIVER_PRICING));
+
+    const urls = await new SitemapCrawler().discoverPricingUrls();
+
+    expect(urls.map((u) => u.url).sort()).toEqual([OCEAN_PRICING, RIVER_PRICING].sort());
+  });
+
+  test('reads a local child through its index even when the child sorts first', async () => {
+    // "vikingcruises-sitemap-1.xml" sorts before "vikingcruises.xml"
+    fs.writeFileSync(path.join(dir, 'vikingcruises.xml'), sitemapIndex('https://www.vikingcruises.com/sitemap-1.xml'));
+    fs.writeFileSync(path.join(dir, 'vikingcruises-sitemap-1.xml'), urlset(OCEAN_PRICING));
+
+    const crawler = new SitemapCrawler();
+    const urls = await crawler.discoverPricingUrls();
+
+    expect(urls.map((u) => u.url)).toEqual([OCEAN_PRICING]);
+    expect(crawler.getStats().map((s) => [path.basename(s.source), s.type, s.depth])).toEqual([
+      ['vikingcruises.xml', 'index', 0],
+      ['vikingcruises-sitemap-1.xml', 'urlset', 1],
+    ]);
+  });
+
+  test('reads gzipped local sitemaps and gzipped children', async () => {
+    fs.writeFileSync(path.join(dir, 'index.xml.gz'), zlib.gzipSync(sitemapIndex('https://www.vikingcruises.com/sitemap-1.xml.gz')));
+    fs.writeFileSync(path.join(dir, 'vikingcruises-sitemap-1.xml.gz'), zlib.gzipSync(urlset(OCEAN_PRICING)));
+
+    const crawler = new SitemapCrawler();
+    const urls = await crawler.discoverPricingUrls();
+
+    expect(urls.map((u) => u.url)).toEqual([OCEAN_PRICING]);
+    expect(crawler.getStats().every((s) => s.gzipped && s.errors.length === 0)).toBe(true);
+  });
+
+  test('stops following indexes below sitemapMaxDepth', async () => {
+    config.sitemapMaxDepth = 1;
+    fs.writeFileSync(path.join(dir, 'index.xml'), sitemapIndex('https://www.viking.com/level-1.xml'));
+    fs.writeFileSync(path.join(dir, 'viking-level-1.xml'), sitemapIndex('https://www.viking.com/level-2.xml'));
+    fs.writeFileSync(path.join(dir, 'viking-level-2.xml'), urlset(OCEAN_PRICING));
+
+    const crawler = new SitemapCrawler();
+    const urls = await crawler.discoverPricingUrls();
+
+    expect(urls).toEqual([]);
+    expect(crawler.getStats().map((s) => [path.basename(s.source), s.depth, s.errors.length])).toEqual([
+      ['index.xml', 0, 0],
+      ['viking-level-1.xml', 1, 0],
+      ['viking-level-2.xml', 2, 1],
+    ]);
+  });
+
+  test('records what each sitemap contributed', async () => {
+    fs.writeFileSync(path.join(dir, 'a-index.xml'), sitemapIndex('https://www.vikingcruises.com/sitemap-1.xml'));
+    fs.writeFileSync(path.join(dir, 'vikingcruises-sitemap-1.xml'), urlset(OCEAN_PRICING, OCEAN_ITINERARY));
+    fs.writeFileSync(path.join(dir, 'b-broken.xml'), '<html>Not found</html>');
+
+    const crawler = new SitemapCrawler();
+    await crawler.discoverPricingUrls();
+
+    expect(crawler.getStats()).toEqual([
+      expect.objectContaining({ type: 'index', depth: 0, childSitemaps: 1, errors: [] }),
+      expect.objectContaining({ type: 'urlset', depth: 1, urlsSeen: 2, pricingUrls: 1, errors: [] }),
+      expect.objectContaining({ type: 'unknown', depth: 0, errors: [expect.stringContaining('Not a sitemap')] }),
+    ]);
+  });
+});
+
+test.describe('remote sitemaps', () => {
+  const server = new StubServer();
+
+  test.beforeAll(async () => {
+    await server.start();
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test.beforeEach(() => {
+    server.reset();
+    config.useLocalSitemaps = false;
+    config.robots = { ...config.robots, discoverSitemaps: false };
+    // Retries are covered by http-client.spec; here a failure should stay a failure
+    config.http = { ...config.http, maxRetries: 0 };
+  });
+
+  test('follows nested sitemap indexes down to the urlsets', async () => {
+    server
+      .on('/sitemap.xml', { body: sitemapIndex(server.url('/sitemap-oceans.xml'), server.url('/regional-index.xml')) })
+      .on('/regional-index.xml', { body: sitemapIndex(server.url('/sitemap-rivers.xml')) })
+      .on('/sitemap-oceans.xml', { body: urlset(OCEAN_PRICING, OCEAN_ITINERARY) })
+      .on('/sitemap-rivers.xml', { body: urlset(RIVER_PRICING) });
+
+    config.sitemapUrls = [server.url('/sitemap.xml')];
+    const urls = await new SitemapCrawler().discoverPricingUrls();
+
+    expect(urls.map((u) => u.url).sort()).toEqual([OCEAN_PRICING, RIVER_PRICING].sort());
+  });
+
+  test('fetches a sitemap referenced more than once only once', async () => {
+    server
+      .on('/sitemap.xml', { body: sitemapIndex(server.url('/a.xml'), server.url('/b.xml')) })
+      .on('/a.xml', { body: sitemapIndex(server.url('/shared.xml')) })
+      .on('/b.xml', { body: sitemapIndex(server.url('/shared.xml')) })
+      .on('/shared.xml', { body: urlset(RIVER_PRICING) });
+
+    config.sitemapUrls = [server.url('/sitemap.xml'), server.url('/sitemap.xml')];
+    await new SitemapCrawler().discoverPricingUrls();
+
+    expect(server.requests.filter((p) => p === '/shared.xml')).toHaveLength(1);
+    expect(server.requests.filter((p) => p === '/sitemap.xml')).toHaveLength(1);
+  });
+
+  test('skips a sitemap answering 403 and keeps the others', async () => {
+    server
+      .on('/blocked.xml', { status: 403, body: 'Access Denied', contentType: 'text/html' })
+      .on('/sitemap-rivers.xml', { body: urlset(RIVER_PRICING) });
+
+    config.sitemapUrls = [server.url('/blocked.xml'), server.url('/sitemap-rivers.xml')];
+    const urls = await new SitemapCrawler().discoverPricingUrls();
+
+    expect(urls.map((u) => u.url)).toEqual([RIVER_PRICING]);
+  });
+
+  test('retries a sitemap that fails transiently', async () => {
+    server.on('/sitemap-rivers.xml', [{ status: 503, body: 'Busy', contentType: 'text/plain' }, { body: urlset(RIVER_PRICING) }]);
+
+    config.http = { ...config.http, maxRetries: 2, baseDelayMs: 10 };
+    config.sitemapUrls = [server.url('/sitemap-rivers.xml')];
+    const urls = await new SitemapCrawler().discoverPricingUrls();
+
+    expect(urls.map((u) => u.url)).toEqual([RIVER_PRICING]);
+    expect(server.requests).toEqual(['/sitemap-rivers.xml', '/sitemap-rivers.xml']);
+  });
+
+  test('gives up on a sitemap after requestTimeout', async () => {
+    server
+      .on('/slow.xml', { body: urlset(OCEAN_PRICING), delayMs: 5000 })
+      .on('/sitemap-rivers.xml', { body: urlset(RIVER_PRICING) });
+
+    config.requestTimeout = 1000;
+    config.sitemapUrls = [server.url('/slow.xml'), server.url('/sitemap-rivers.xml')];
+
+    const started = Date.now();
+    const urls = await new SitemapCrawler().discoverPricingUrls();
+
+    expect(Date.now() - started).toBeLessThan(4000);
+    expect(urls.map((u) => u.url)).toEqual([RIVER_PRICING]);
+  });
+
+  test('reads a gzipped child sitemap served without Content-Encoding', async () => {
+    server
+      .on('/sitemap.xml', { body: sitemapIndex(server.url('/sitemap-rivers.xml.gz')) })
+      .on('/sitemap-rivers.xml.gz', { body: zlib.gzipSync(urlset(RIVER_PRICING)), contentType: 'application/x-gzip' });
+
+    config.sitemapUrls = [server.url('/sitemap.xml')];
+    const crawler = new SitemapCrawler();
+    const urls = await crawler.discoverPricingUrls();
+
+    expect(urls.map((u) => u.url)).toEqual([RIVER_PRICING]);
+    expect(crawler.getStats()[1]).toMatchObject({ gzipped: true, urlsSeen: 1, pricingUrls: 1 });
+  });
+
+  test('records HTTP errors in the sitemap stats', async () => {
+    server.on('/blocked.xml', { status: 403, body: 'Access Denied', contentType: 'text/html' });
+
+    config.sitemapUrls = [server.url('/blocked.xml')];
+    const crawler = new SitemapCrawler();
+    await crawler.discoverPricingUrls();
+
+    expect(crawler.getStats()).toEqual([expect.objectContaining({ source: server.url('/blocked.xml'), errors: ['HTTP 403'] })]);
+  });
+
+  test('adds the sitemaps advertised in robots.txt of enabled domains', async () => {
+    server
+      .on('/robots.txt', {
+        contentType: 'text/plain',
+        body: `User-agent: *\nDisallow: /search\n\nSitemap: ${server.url('/sitemap-rivers.xml')}\n`,
+      })
+      .on('/sitemap-rivers.xml', { body: urlset(RIVER_PRICING) })
+      .on('/sitemap-oceans.xml', { body: urlset(OCEAN_PRICING) });
+
+    config.robots = { ...config.robots, discoverSitemaps: true };
+    config.domains = [
+      { name: 'Stub', baseUrl: server.url('/'), enabled: true, currency: 'USD' },
+      { name: 'Disabled', baseUrl: 'https://disabled.invalid', enabled: false, currency: 'USD' },
+    ];
+    config.sitemapUrls = [server.url('/sitemap-oceans.xml'), server.url('/sitemap-rivers.xml')];
+
+    const crawler = new SitemapCrawler();
+    const urls = await crawler.discoverPricingUrls();
+
+    expect(urls.map((u) => u.url).sort()).toEqual([OCEAN_PRICING, RIVER_PRICING].sort());
+    expect(server.requests.filter((p) => p === '/sitemap-rivers.xml')).toHaveLength(1);
+    expect(crawler.getRobotsStatus()).toEqual([{ domain: '127.0.0.1', sitemaps: [server.url('/sitemap-rivers.xml')] }]);
+    expect(crawler.getDomainsWithoutSitemap()).toEqual([]);
+  });
+
+  test('reports enabled domains whose robots.txt lists no sitemap', async () => {
+    server.on('/robots.txt', { contentType: 'text/plain', body: 'User-agent: *\nDisallow:\n' });
+
+    config.robots = { ...config.robots, discoverSitemaps: true };
+    config.domains = [{ name: 'Stub', baseUrl: server.url('/'), enabled: true, currency: 'USD' }];
+    config.sitemapUrls = [];
+
+    const crawler = new SitemapCrawler();
+    await crawler.discoverPricingUrls();
+
+    expect(crawler.getDomainsWithoutSitemap()).toEqual(['127.0.0.1']);
+  });
+
+  test('ignores a response that is not a sitemap', async () => {
+    server.on('/sitemap.xml', { body: '<html><body>Maintenance</body></html>', contentType: 'text/html' });
+
+    config.sitemapUrls = [server.url('/sitemap.xml')];
+    const urls = await new SitemapCrawler().discoverPricingUrls();
+
+    expect(urls).toEqual([]);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Slack notification - payload builder, quiet mode, and posting to a
+ * webhook and to chat.postMessage with threaded replies (stub server)
+ */
+
+import { test, expect } from '@playwright/test';
+import config from '../../config.js';
+import { buildSlackMessage, buildSlackThread, domainBreakdown, hasChangedSinceLastRun, SlackNotifier } from '../../notify/index.js';
+import { Reporter, type TestResult, type TestSummary } from '../../utils/reporter.js';
+import { StubServer } from './helpers/stub-server.js';
+
+const page = (domain: string, slug: string) => `https://${domain}/oceans/cruise-destinations/${slug}/pricing.html`;
+
+const result = (url: string, errors: string[] = []): TestResult => ({
+  url,
+  domain: new URL(url).hostname,
+  passed: errors.length === 0,
+  loadTimeMs: 2000,
+  httpStatus: errors.some((e) => e.startsWith('HTTP')) ? 404 : 200,
+  checks: [],
+  errors,
+  warnings: [],
+  ...(errors.length > 0 && { screenshotPath: `screenshots/${new URL(url).hostname}_${url.length}.png` }),
+  testedAt: '2026-01-15T14:05:00.000Z',
+});
+
+const NEW_FAILURE = page('www.vikingcruises.com', 'caribbean');
+const RESULTS = [
+  result(page('www.vikingcruises.com', 'iceland')),
+  result(page('www.vikingcruises.co.uk', 'iceland')),
+  result(NEW_FAILURE, ['No valid prices found']),
+  ...Array.from({ length: 14 }, (_, i) => result(page('www.vikingcruises.co.uk', `retired-${i}`), ['HTTP 404'])),
+];
+
+const summary = (overrides: Partial<TestSummary> = {}): TestSummary => ({
+  runAt: '2026-01-15T14:00:00.000Z',
+  totalTested: RESULTS.length,
+  passed: 2,
+  failed: 15,
+  warnings: 0,
+  avgLoadTimeMs: 2000,
+  diff: {
+    currentRunAt: '2026-01-15T14:00:00.000Z',
+    previousRunAt: '2026-01-14T14:00:00.000Z',
+    previousTotals: { totalTested: 17, passed: 3, failed: 14 },
+    newlyFailing: [{ url: NEW_FAILURE, domain: 'www.vikingcruises.com', errors: ['No valid prices found'] }],
+    newlyRecovered: [],
+    persistentlyFailing: [],
+  },
+  results: RESULTS,
+  ...overrides,
+});
+
+const reporter = new Reporter();
+
+const messageOptions = (threaded: boolean) => ({
+  failureGroups: reporter.groupFailures(RESULTS),
+  maxFailures: 5,
+  threaded,
+  artifactsUrl: 'https://github.com/viking/e2e-viking/actions/runs/42',
+  screenshotsBaseUrl: 'https://artifacts.example.com/screenshots/',
+});
+
+const texts = (blocks: Record<string, unknown>[]) => JSON.stringify(blocks);
+
+test.describe('payload builder', () => {
+  test('groups failures by category, with the pass/fail delta and links', () => {
+    const message = buildSlackMessage(summary(), messageOptions(false));
+    const body = texts(message.blocks);
+
+    expect(message.text).toBe('🚨 15 of 17 pricing pages failed');
+    expect(body).toContain('*Passed:*\\n2 (-1)');
+    expect(body).toContain('*Failed:*\\n15 (+1)');
+    expect(body).toContain('*HTTP 404 (Page Not Found)* (14)');
+    expect(body).toContain('*No Valid Prices* (1)');
+    expect(body).toContain(`• 🆕 <${NEW_FAILURE}|/oceans/cruise-destinations/caribbean/pricing.html>: No valid prices found`);
+    expect(body).toContain('<https://artifacts.example.com/screenshots/www.vikingcruises.com_');
+    expect(body).toContain('_...and 10 more, see <https://github.com/viking/e2e-viking/actions/runs/42|the run artifacts>_');
+    expect(body).toContain('|Screenshots, reports and results>');
+  });
+
+  test('breaks the results down per domain, most failures first', () => {
+    expect(domainBreakdown(RESULTS)).toEqual([
+      { domain: 'www.vikingcruises.co.uk', tested: 15, passed: 1, failed: 14 },
+      { domain: 'www.vikingcruises.com', tested: 2, passed: 1, failed: 1 },
+    ]);
+    expect(texts(buildSlackMessage(summary(), messageOptions(false)).blocks)).toContain(
+      '• www.vikingcruises.co.uk: 15 tested · ✅ 1 · ❌ 14 failed'
+    );
+  });
+
+  test('moves the full failure list to the thread', () => {
+    const message = buildSlackMessage(summary(), messageOptions(true));
+    const thread = buildSlackThread(summary(), messageOptions(true));
+
+    expect(texts(message.blocks)).toContain('_All 15 failed pages are listed in the thread_');
+    expect(thread.map((m) => m.text)).toEqual(['HTTP 404 (Page Not Found) (14)', 'No Valid Prices (1)']);
+    expect(texts(thread[0].blocks).match(/• /g)).toHaveLength(14);
+  });
+
+  test('a run is unchanged when nothing failed, recovered or moved in price', () => {
+    const unchanged = summary({ diff: { ...summary().diff!, newlyFailing: [] } });
+
+    expect(hasChangedSinceLastRun(summary())).toBe(true);
+    expect(hasChangedSinceLastRun(unchanged)).toBe(false);
+    expect(hasChangedSinceLastRun({ ...unchanged, diff: undefined })).toBe(true);
+  });
+});
+
+test.describe('posting', () => {
+  const server = new StubServer();
+  const slackReporter = new Reporter([new SlackNotifier()]);
+  let savedSlack: typeof config.notifications.slack;
+  const { log, error } = console;
+
+  test.beforeAll(async () => {
+    await server.start();
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test.beforeEach(() => {
+    server.reset();
+    savedSlack = config.notifications.slack;
+    config.notifications.slack = { ...config.notifications.slack, apiUrl: server.url('/api'), maxFailuresInMessage: 5, quietWhenUnchanged: false };
+    console.log = () => {};
+    console.error = () => {};
+  });
+
+  test.afterEach(() => {
+    config.notifications.slack = savedSlack;
+    console.log = log;
+    console.error = error;
+  });
+
+  test('posts the summary to the webhook', async () => {
+    server.on('/webhook', { status: 200, body: 'ok', contentType: 'text/plain' });
+    config.notifications.slack = { ...config.notifications.slack, webhookUrl: server.url('/webhook'), botToken: undefined };
+
+    expect(await slackReporter.notify(summary())).toBe(true);
+
+    expect(server.requests).toEqual(['/webhook']);
+    const posted = JSON.parse(server.requestBodies[0]);
+    expect(posted.text).toBe('🚨 15 of 17 pricing pages failed');
+    expect(JSON.stringify(posted.blocks)).toContain('_...and 10 more');
+  });
+
+  test('threads the failure details under the bot message', async () => {
+    server.on('/api/chat.postMessage', [
+      { body: JSON.stringify({ ok: true, ts: '1736949600.000100' }), contentType: 'application/json' },
+      { body: JSON.stringify({ ok: true, ts: '1736949601.000200' }), contentType: 'application/json' },
+    ]);
+    config.notifications.slack = { ...config.notifications.slack, botToken: 'xoxb-test', channel: 'C0PRICING', webhookUrl: undefined };
+
+    expect(await slackReporter.notify(summary())).toBe(true);
+
+    const bodies = server.requestBodies.map((b) => JSON.parse(b));
+    expect(bodies).toHaveLength(3);
+    expect(server.requestHeaders[0].authorization).toBe('Bearer xoxb-test');
+    expect(bodies[0]).toMatchObject({ channel: 'C0PRICING', text: '🚨 15 of 17 pricing pages failed' });
+    expect(bodies[0].thread_ts).toBeUndefined();
+    expect(bodies.slice(1).map((b) => b.thread_ts)).toEqual(['1736949600.000100', '1736949600.000100']);
+  });
+
+  test('reports a failed post', async () => {
+    server.on('/api/chat.postMessage', { body: JSON.stringify({ ok: false, error: 'channel_not_found' }), contentType: 'application/json' });
+    config.notifications.slack = { ...config.notifications.slack, botToken: 'xoxb-test', channel: 'C0PRICING' };
+    expect(await slackReporter.notify(summary())).toBe(false);
+
+    server.on('/webhook', { status: 500 });
+    config.notifications.slack = { ...config.notifications.slack, botToken: undefined, webhookUrl: server.url('/webhook') };
+    expect(await slackReporter.notify(summary())).toBe(false);
+  });
+
+  test('stays quiet when nothing changed', async () => {
+    server.on('/webhook', { status: 200, body: 'ok' });
+    config.notifications.slack = { ...config.notifications.slack, webhookUrl: server.url('/webhook') };
+    const unchanged = summary({ diff: { ...summary().diff!, newlyFailing: [] } });
+
+    expect(await slackReporter.notify(unchanged, { quiet: true })).toBe(true);
+    expect(server.requests).toEqual([]);
+
+    expect(await slackReporter.notify(unchanged)).toBe(true);
+    expect(server.requests).toEqual(['/webhook']);
+  });
+});
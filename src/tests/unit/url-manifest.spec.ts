@@ -0,0 +1,215 @@
+/**
+ * ManifestManager - URL normalization, deduplication, cruise metadata, merging,
+ * diffing and reconciliation
+ */
+
+import { test, expect } from '@playwright/test';
+import { DiscoveredUrl, ManifestManager } from '../../discovery/index.js';
+
+const discovered = (url: string, overrides: Partial<DiscoveredUrl> = {}): DiscoveredUrl => ({
+  url,
+  source: 'sitemap',
+  domain: new URL(url).hostname,
+  discoveredAt: '2026-01-15T06:00:00.000Z',
+  ...overrides,
+});
+
+test.describe('normalizeUrl', () => {
+  const manager = new ManifestManager('unused.json');
+  const normalize = (url: string) => manager['normalizeUrl'](url);
+
+  test('removes a trailing slash except on the root path', () => {
+    expect(normalize('https://www.viking.com/oceans/pricing/')).toBe('https://www.viking.com/oceans/pricing');
+    expect(normalize('https://www.viking.com/')).toBe('https://www.viking.com/');
+  });
+
+  test('drops the port', () => {
+    expect(normalize('https://www.viking.com:443/a/pricing.html')).toBe('https://www.viking.com/a/pricing.html');
+    expect(normalize('https://www.viking.com:8443/a/pricing.html')).toBe('https://www.viking.com/a/pricing.html');
+  });
+
+  test('sorts query parameters', () => {
+    expect(normalize('https://www.viking.com/a/pricing.html?b=2&a=1')).toBe(
+      'https://www.viking.com/a/pricing.html?a=1&b=2'
+    );
+  });
+
+  test('returns unparseable URLs unchanged', () => {
+    expect(normalize('not a url')).toBe('not a url');
+  });
+});
+
+test.describe('deduplicateUrls', () => {
+  test('keeps the first of URLs that normalize the same, sorted by URL', () => {
+    const manager = new ManifestManager('unused.json');
+    const urls = manager['deduplicateUrls']([
+      discovered('https://www.viking.com/rivers/pricing.html', { source: 'crawl' }),
+      discovered('https://www.viking.com/oceans/pricing/'),
+      discovered('https://www.viking.com/oceans/pricing'),
+      discovered('https://www.viking.com/rivers/pricing.html'),
+    ]);
+
+    expect(urls).toEqual([
+      discovered('https://www.viking.com/oceans/pricing'),
+      discovered('https://www.viking.com/rivers/pricing.html', { source: 'crawl' }),
+    ]);
+  });
+});
+
+test.describe('mergeUrls', () => {
+  test('keeps the most recent discovery of each URL', () => {
+    const manager = new ManifestManager('unused.json');
+    const older = discovered('https://www.viking.com/oceans/pricing.html');
+    const newer = discovered('https://www.viking.com/oceans/pricing.html', {
+      source: 'crawl',
+      discoveredAt: '2026-01-16T06:00:00.000Z',
+    });
+    const other = discovered('https://www.viking.com/rivers/pricing.html');
+
+    const merged = [
+      { ...newer, sources: ['crawl', 'sitemap'] },
+      { ...other, sources: ['sitemap'] },
+    ];
+    expect(manager.mergeUrls([newer, other], [older])).toEqual(merged);
+    expect(manager.mergeUrls([older], [newer, other])).toEqual(merged);
+  });
+
+  test('keeps the sitemap lastmod and unions crawl referrers', () => {
+    const manager = new ManifestManager('unused.json');
+    const fromSitemap = discovered('https://www.viking.com/oceans/pricing.html', { lastModified: '2026-01-10' });
+    const fromCrawl = discovered('https://www.viking.com/oceans/pricing.html', {
+      source: 'crawl',
+      discoveredAt: '2026-01-16T06:00:00.000Z',
+      referrers: ['https://www.viking.com/oceans/'],
+    });
+
+    const [merged] = manager.mergeUrls([fromSitemap], [fromCrawl]);
+
+    expect(merged).toMatchObject({
+      source: 'crawl',
+      sources: ['crawl', 'sitemap'],
+      lastModified: '2026-01-10',
+      referrers: ['https://www.viking.com/oceans/'],
+    });
+  });
+});
+
+test.describe('reconcile', () => {
+  const manager = new ManifestManager('unused.json');
+  const sitemap = [
+    discovered('https://www.viking.com/a/pricing.html', { lastModified: '2026-01-10' }),
+    discovered('https://www.viking.com/b/pricing.html'),
+    discovered('https://www.vikingcruises.com/c/pricing.html'),
+  ];
+  const crawl = [
+    discovered('https://www.viking.com/a/pricing.html/', { source: 'crawl' }),
+    discovered('https://www.viking.com/d/pricing.html', {
+      source: 'crawl',
+      referrers: ['https://www.viking.com/oceans/'],
+    }),
+  ];
+
+  test('reports orphans and pages missing from sitemaps on crawled domains', () => {
+    const report = manager.reconcile(sitemap, crawl, ['www.viking.com']);
+
+    expect(report.totals).toEqual({ inBoth: 1, sitemapOnly: 1, crawlOnly: 1 });
+    expect(report.orphans).toEqual([
+      { url: 'https://www.viking.com/b/pricing.html', domain: 'www.viking.com', lastModified: undefined },
+    ]);
+    expect(report.missingFromSitemaps).toEqual([
+      {
+        url: 'https://www.viking.com/d/pricing.html',
+        domain: 'www.viking.com',
+        referrers: ['https://www.viking.com/oceans/'],
+      },
+    ]);
+  });
+
+  test('does not report sitemap URLs of domains the crawl never reached', () => {
+    const report = manager.reconcile(sitemap, crawl, ['www.viking.com']);
+
+    expect(report.domainsNotCrawled).toEqual(['www.vikingcruises.com']);
+    expect(report.orphans.map((o) => o.domain)).not.toContain('www.vikingcruises.com');
+    expect(report.byDomain['www.vikingcruises.com']).toBeUndefined();
+  });
+
+  test('does not report orphans on domains whose crawl ran out of budget', () => {
+    const report = manager.reconcile(sitemap, crawl, ['www.viking.com'], ['www.viking.com']);
+
+    expect(report.domainsCrawlIncomplete).toEqual(['www.viking.com']);
+    expect(report.orphans).toEqual([]);
+    expect(report.totals).toEqual({ inBoth: 1, sitemapOnly: 0, crawlOnly: 1 });
+    // Linked pages missing from the sitemaps are still worth reporting
+    expect(report.missingFromSitemaps.map((m) => m.url)).toEqual(['https://www.viking.com/d/pricing.html']);
+  });
+});
+
+test.describe('createManifest', () => {
+  test('counts unique URLs by domain and source', () => {
+    const manager = new ManifestManager('unused.json');
+    const manifest = manager.createManifest([
+      discovered('https://www.viking.com/oceans/pricing.html'),
+      discovered('https://www.viking.com/oceans/pricing.html/'),
+      discovered('https://www.viking.com/rivers/pricing.html', { source: 'crawl' }),
+      discovered('https://www.vikingcruises.com/oceans/pricing.html'),
+    ]);
+
+    expect(manifest.totalUrls).toBe(3);
+    expect(manifest.byDomain).toEqual({ 'www.viking.com': 2, 'www.vikingcruises.com': 1 });
+    expect(manifest.bySource).toEqual({ sitemap: 2, crawl: 1 });
+  });
+
+  test('counts a URL found by several sources under each of them', () => {
+    const manager = new ManifestManager('unused.json');
+    const manifest = manager.createManifest(
+      manager.mergeUrls(
+        [discovered('https://www.viking.com/a/pricing.html'), discovered('https://www.viking.com/b/pricing.html')],
+        [discovered('https://www.viking.com/a/pricing.html', { source: 'crawl' })]
+      )
+    );
+
+    expect(manifest.totalUrls).toBe(2);
+    expect(manifest.bySource).toEqual({ sitemap: 2, crawl: 1 });
+  });
+
+  test('tags URLs with their cruise details and counts them by cruise type and destination', () => {
+    const manager = new ManifestManager('unused.json');
+    const manifest = manager.createManifest([
+      discovered('https://www.vikingcruises.com/oceans/cruise-destinations/caribbean/west-indies-explorer/pricing.html'),
+      discovered('https://www.vikingcruises.com/oceans/cruise-destinations/caribbean/western-caribbean/pricing.html'),
+      discovered('https://www.vikingrivercruises.com/cruise-destinations/europe/rhine-getaway/2026-basel-amsterdam/pricing.html'),
+      discovered('https://www.viking.com/pricing.html'),
+    ]);
+
+    expect(manifest.byCruiseType).toEqual({ ocean: 2, river: 1, unknown: 1 });
+    expect(manifest.byDestination).toEqual({ caribbean: 2, europe: 1, unknown: 1 });
+    expect(manifest.urls.find((u) => u.domain === 'www.vikingrivercruises.com')?.metadata).toMatchObject({
+      brand: 'Viking River Cruises',
+      itinerary: 'rhine-getaway',
+      variant: '2026-basel-amsterdam',
+    });
+  });
+});
+
+test.describe('diffManifests', () => {
+  test('reports added, removed and lastmod changes, and domains over the loss threshold', () => {
+    const manager = new ManifestManager('unused.json');
+    const previous = manager.createManifest([
+      discovered('https://www.viking.com/a/pricing.html', { lastModified: '2026-01-01' }),
+      discovered('https://www.viking.com/b/pricing.html'),
+      discovered('https://www.vikingcruises.com/c/pricing.html'),
+    ]);
+    const current = manager.createManifest([
+      discovered('https://www.viking.com/a/pricing.html', { lastModified: '2026-01-10' }),
+      discovered('https://www.viking.com/b/pricing.html'),
+      discovered('https://www.viking.com/d/pricing.html'),
+    ]);
+
+    const diff = manager.diffManifests(previous, current, 20);
+
+    expect(diff.totals).toEqual({ added: 1, removed: 1, changedLastmod: 1 });
+    expect(diff.byDomain['www.viking.com'].added).toEqual(['https://www.viking.com/d/pricing.html']);
+    expect(diff.byDomain['www.vikingcruises.com']).toMatchObject({ removed: ['https://www.vikingcruises.com/c/pricing.html'], lossPercent: 100 });
+    expect(diff.domainsOverLossThreshold).toEqual(['www.vikingcruises.com']);
+  });
+});
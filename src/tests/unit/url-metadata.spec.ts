@@ -0,0 +1,48 @@
+/**
+ * URL metadata - brand, market, locale and cruise details from pricing URLs
+ */
+
+import { test, expect } from '@playwright/test';
+import { cruiseTypeOf, parseUrlMetadata } from '../../discovery/index.js';
+
+test('parses an ocean pricing URL', () => {
+  expect(parseUrlMetadata('https://www.vikingcruises.com/oceans/cruise-destinations/caribbean/western-caribbean/pricing.html')).toEqual({
+    brand: 'Viking Cruises',
+    market: 'US',
+    locale: 'en-US',
+    cruiseType: 'ocean',
+    destination: 'caribbean',
+    itinerary: 'western-caribbean',
+  });
+});
+
+test('parses a river pricing URL with a sailing variant, typed by its site', () => {
+  expect(
+    parseUrlMetadata('https://www.vikingrivercruises.com.au/cruise-destinations/europe/danube-waltz/2026-budapest-passau/pricing.html')
+  ).toEqual({
+    brand: 'Viking River Cruises',
+    market: 'AU',
+    locale: 'en-AU',
+    cruiseType: 'river',
+    destination: 'europe',
+    itinerary: 'danube-waltz',
+    variant: '2026-budapest-passau',
+  });
+});
+
+test('reads the market and locale from a locale prefix', () => {
+  expect(parseUrlMetadata('https://www.viking.com/en-gb/expeditions/cruise-destinations/antarctica/antarctic-explorer/pricing.html')).toMatchObject({
+    brand: 'Viking',
+    market: 'UK',
+    locale: 'en-GB',
+    cruiseType: 'expedition',
+    destination: 'antarctica',
+  });
+  expect(parseUrlMetadata('https://www.vikingcruisescanada.com/oceans/pricing.html')).toMatchObject({ market: 'CA', locale: 'en-CA' });
+});
+
+test('leaves out what the path does not have', () => {
+  expect(parseUrlMetadata('https://www.viking.com/pricing.html')).toEqual({ brand: 'Viking', market: 'US', locale: 'en-US' });
+  expect(cruiseTypeOf('https://www.viking.com/cruise-destinations/pricing.html')).toBeUndefined();
+  expect(cruiseTypeOf('https://www.viking.com/en-gb/rivers/cruise-destinations/europe/pricing.html')).toBe('river');
+});
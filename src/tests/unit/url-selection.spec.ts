@@ -0,0 +1,168 @@
+/**
+ * URL selection - env parsing, filters, the seeded sample and sharding
+ */
+
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { selectionFromEnv, type UrlSelection } from '../../config.js';
+import type { DiscoveredUrl } from '../../discovery/index.js';
+import { RunHistory } from '../../history/index.js';
+import { isSelectionFiltered, selectUrls, shardOf } from '../../selection/index.js';
+
+const discovered = (url: string, source: DiscoveredUrl['source'] = 'sitemap'): DiscoveredUrl => ({
+  url,
+  source,
+  domain: new URL(url).hostname,
+  discoveredAt: '2026-01-15T06:00:00.000Z',
+});
+
+const OCEAN_US = discovered('https://www.vikingcruises.com/oceans/cruise-destinations/caribbean/west-indies-explorer/pricing.html');
+const OCEAN_UK = discovered('https://www.vikingcruises.co.uk/oceans/cruise-destinations/iceland/iceland-circumnavigation/pricing.html');
+const EXPEDITION = discovered('https://www.vikingcruises.com/expeditions/cruise-destinations/antarctica/antarctic-explorer/pricing.html', 'crawl');
+const RIVER = discovered('https://www.vikingrivercruises.com/cruise-destinations/europe/rhine-getaway/pricing.html');
+const URLS = [OCEAN_US, OCEAN_UK, EXPEDITION, RIVER];
+
+const selection = (overrides: Partial<UrlSelection> = {}): UrlSelection => ({
+  ...selectionFromEnv({}),
+  ...overrides,
+});
+
+test.describe('selectionFromEnv', () => {
+  test('selects everything when nothing is set', () => {
+    expect(selectUrls(URLS, selection())).toEqual(URLS);
+  });
+
+  test('reads lists, the URL pattern, the sample and the shard', () => {
+    const parsed = selectionFromEnv({
+      VIKING_FILTER_DOMAIN: 'vikingcruises.com, www.vikingcruises.co.uk',
+      VIKING_FILTER_URL: '/iceland/',
+      VIKING_FILTER_CRUISE_TYPE: 'Ocean',
+      VIKING_FILTER_FAILED: 'true',
+      VIKING_FILTER_SAMPLE: '20',
+      VIKING_SAMPLE_SEED: 'monday',
+      VIKING_SHARD: '2/4',
+    });
+
+    expect(parsed).toMatchObject({
+      domains: ['vikingcruises.com', 'www.vikingcruises.co.uk'],
+      cruiseTypes: ['ocean'],
+      failedInLastRun: true,
+      sampleSize: 20,
+      sampleSeed: 'monday',
+      shard: { index: 2, total: 4 },
+    });
+    expect(parsed.urlPattern?.test(OCEAN_UK.url)).toBe(true);
+  });
+
+  test('rejects malformed values', () => {
+    expect(() => selectionFromEnv({ VIKING_FILTER_SOURCE: 'manifest' })).toThrow(/VIKING_FILTER_SOURCE/);
+    expect(() => selectionFromEnv({ VIKING_FILTER_CRUISE_TYPE: 'lake' })).toThrow(/VIKING_FILTER_CRUISE_TYPE/);
+    expect(() => selectionFromEnv({ VIKING_FILTER_URL: '(' })).toThrow(/VIKING_FILTER_URL/);
+    expect(() => selectionFromEnv({ VIKING_FILTER_SAMPLE: '0' })).toThrow(/VIKING_FILTER_SAMPLE/);
+    expect(() => selectionFromEnv({ VIKING_SHARD: '5/4' })).toThrow(/VIKING_SHARD/);
+    expect(() => selectionFromEnv({ VIKING_SHARD: '1-4' })).toThrow(/VIKING_SHARD/);
+  });
+});
+
+test.describe('filters', () => {
+  test('match domains with or without www', () => {
+    expect(selectUrls(URLS, selection({ domains: ['vikingcruises.co.uk'] }))).toEqual([OCEAN_UK]);
+  });
+
+  test('combine URL pattern, source and cruise type', () => {
+    expect(selectUrls(URLS, selection({ urlPattern: /cruise-destinations/, cruiseTypes: ['ocean', 'expedition'] }))).toEqual([
+      OCEAN_US,
+      OCEAN_UK,
+      EXPEDITION,
+    ]);
+    expect(selectUrls(URLS, selection({ sources: ['crawl'] }))).toEqual([EXPEDITION]);
+  });
+
+  test('match a source filter against every source of a merged entry', () => {
+    const merged: DiscoveredUrl = { ...RIVER, sources: ['crawl', 'sitemap'] };
+
+    expect(selectUrls([OCEAN_US, merged], selection({ sources: ['crawl'] }))).toEqual([merged]);
+    expect(selectUrls([OCEAN_US, merged], selection({ sources: ['sitemap'] }))).toEqual([OCEAN_US, merged]);
+  });
+
+  test('select the URLs that failed in the last recorded run', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'selection-'));
+    const run = (runAt: string, failedUrls: string[]) =>
+      JSON.stringify({
+        runAt,
+        totalTested: URLS.length,
+        passed: URLS.length - failedUrls.length,
+        failed: failedUrls.length,
+        results: URLS.map((u) => ({ url: u.url, domain: u.domain, passed: !failedUrls.includes(u.url), httpStatus: 200, errors: [] })),
+      });
+
+    try {
+      fs.writeFileSync(
+        path.join(dir, 'runs.jsonl'),
+        [run('2026-01-14T14:00:00.000Z', [RIVER.url]), run('2026-01-15T14:00:00.000Z', [OCEAN_UK.url])].join('\n') + '\n'
+      );
+
+      expect(selectUrls(URLS, selection({ failedInLastRun: true }), new RunHistory(dir))).toEqual([OCEAN_UK]);
+      expect(selectUrls(URLS, selection({ failedInLastRun: true }), new RunHistory(path.join(dir, 'none')))).toEqual([]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('filters and the sample mark a run as filtered, a shard alone does not', () => {
+    expect(isSelectionFiltered(selection())).toBe(false);
+    expect(isSelectionFiltered(selection({ shard: { index: 1, total: 4 } }))).toBe(false);
+    expect(isSelectionFiltered(selection({ domains: ['vikingcruises.com'] }))).toBe(true);
+    expect(isSelectionFiltered(selection({ urlPattern: /iceland/ }))).toBe(true);
+    expect(isSelectionFiltered(selection({ failedInLastRun: true }))).toBe(true);
+    expect(isSelectionFiltered(selection({ sampleSize: 25, shard: { index: 2, total: 4 } }))).toBe(true);
+  });
+});
+
+test.describe('sample and shards', () => {
+  const many = Array.from({ length: 200 }, (_, i) =>
+    discovered(`https://www.vikingcruises.com/oceans/cruise-destinations/itinerary-${i}/pricing.html`)
+  );
+
+  test('the same seed picks the same sample, in manifest order', () => {
+    const first = selectUrls(many, selection({ sampleSize: 20, sampleSeed: 'monday' }));
+    const again = selectUrls([...many].reverse(), selection({ sampleSize: 20, sampleSeed: 'monday' })).reverse();
+    const otherSeed = selectUrls(many, selection({ sampleSize: 20, sampleSeed: 'tuesday' }));
+
+    expect(first).toHaveLength(20);
+    expect(again).toEqual(first);
+    expect(otherSeed).not.toEqual(first);
+    expect(first.map((u) => many.indexOf(u))).toEqual(first.map((u) => many.indexOf(u)).sort((a, b) => a - b));
+  });
+
+  test('shards split the URLs without overlap', () => {
+    const shards = [1, 2, 3].map((index) => selectUrls(many, selection({ shard: { index, total: 3 } })));
+
+    expect(shards.flat()).toHaveLength(many.length);
+    expect(new Set(shards.flat().map((u) => u.url)).size).toBe(many.length);
+    for (const shard of shards) {
+      expect(shard.length).toBeGreaterThan(40);
+    }
+  });
+
+  test('URLs keep their shard when the manifest shrinks', () => {
+    const shard2of4 = selection({ shard: { index: 2, total: 4 } });
+
+    const before = selectUrls(many, shard2of4);
+    const after = selectUrls(many.slice(50), shard2of4);
+
+    expect(after).toEqual(before.filter((u) => many.indexOf(u) >= 50));
+    expect(after.every((u) => shardOf(u.url, 4) === 2)).toBe(true);
+  });
+
+  test('shards of a sample together test exactly the sample', () => {
+    const sample = selectUrls(many, selection({ sampleSize: 30, sampleSeed: 'monday' }));
+    const shards = [1, 2].map((index) =>
+      selectUrls(many, selection({ sampleSize: 30, sampleSeed: 'monday', shard: { index, total: 2 } }))
+    );
+
+    expect(shards.flat().map((u) => u.url).sort()).toEqual(sample.map((u) => u.url).sort());
+  });
+});
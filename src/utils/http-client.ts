@@ -0,0 +1,239 @@
+/**
+ * HTTP Client - Shared fetch wrapper for discovery and pre-flight checks
+ *
+ * Handles:
+ * - Timeouts (config.requestTimeout)
+ * - Retries on network errors and retriable statuses (403/429/5xx by default)
+ *   with exponential backoff and jitter, honoring Retry-After
+ * - Per-host concurrency and request-rate caps
+ * - Counting requests, retries and give-ups per host
+ */
+
+import config, { VikingConfig } from '../config.js';
+
+export type HttpClientOptions = VikingConfig['http'] & {
+  timeoutMs: number;
+};
+
+export interface HostStats {
+  requests: number;
+  retries: number;
+  /** Requests that still failed after the last retry */
+  giveUps: number;
+  /** Final status per request ("error" for network errors and timeouts) */
+  statuses: Record<string, number>;
+}
+
+export interface HttpStats extends HostStats {
+  byHost: Record<string, HostStats>;
+}
+
+export interface RequestOptions {
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  /** 'manual' returns 3xx responses instead of following them */
+  redirect?: RequestRedirect;
+}
+
+interface HostState {
+  active: number;
+  waiting: (() => void)[];
+  /** Earliest time the next request to this host may start */
+  nextStartAt: number;
+  stats: HostStats;
+}
+
+/**
+ * Browser-like headers; several Viking sites answer 403 to anything else
+ */
+const DEFAULT_HEADERS: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+  'Accept-Encoding': 'gzip, deflate, br',
+  'Cache-Control': 'no-cache',
+  'Pragma': 'no-cache',
+};
+
+export class HttpClient {
+  private options: HttpClientOptions;
+  private hosts: Map<string, HostState> = new Map();
+
+  constructor(options: Partial<HttpClientOptions> = {}) {
+    this.options = { ...config.http, timeoutMs: config.requestTimeout, ...options };
+  }
+
+  /**
+   * GET a URL, retrying transient failures. Resolves with the final
+   * response (which may still be an error status after the last retry);
+   * rejects only if the last attempt failed without a response.
+   */
+  async get(url: string, options: RequestOptions = {}): Promise<Response> {
+    return this.send('GET', url, options);
+  }
+
+  /**
+   * HEAD a URL, with the same retries as get()
+   */
+  async head(url: string, options: RequestOptions = {}): Promise<Response> {
+    return this.send('HEAD', url, options);
+  }
+
+  /**
+   * Request counts so far, overall and per host
+   */
+  getStats(): HttpStats {
+    const byHost: Record<string, HostStats> = {};
+    const total: HostStats = { requests: 0, retries: 0, giveUps: 0, statuses: {} };
+
+    for (const [host, state] of this.hosts) {
+      byHost[host] = { ...state.stats, statuses: { ...state.stats.statuses } };
+      total.requests += state.stats.requests;
+      total.retries += state.stats.retries;
+      total.giveUps += state.stats.giveUps;
+      for (const [status, count] of Object.entries(state.stats.statuses)) {
+        total.statuses[status] = (total.statuses[status] || 0) + count;
+      }
+    }
+
+    return { ...total, byHost };
+  }
+
+  /**
+   * One request with retries, shared by get() and head()
+   */
+  private async send(method: 'GET' | 'HEAD', url: string, options: RequestOptions): Promise<Response> {
+    const host = this.hostState(new URL(url).host);
+    host.stats.requests++;
+
+    for (let attempt = 0; ; attempt++) {
+      const isLastAttempt = attempt >= this.options.maxRetries;
+      let retryAfterMs: number | undefined;
+
+      try {
+        const response = await this.withHostSlot(host, () => this.fetchOnce(method, url, options));
+
+        if (!this.options.retryStatuses.includes(response.status)) {
+          this.recordFinal(host, String(response.status), false);
+          return response;
+        }
+
+        retryAfterMs = this.parseRetryAfter(response.headers.get('retry-after'));
+        const giveUp =
+          isLastAttempt || (retryAfterMs !== undefined && retryAfterMs > this.options.maxRetryAfterMs);
+
+        if (giveUp) {
+          this.recordFinal(host, String(response.status), true);
+          return response;
+        }
+
+        // Free the connection before retrying
+        await response.body?.cancel().catch(() => {});
+        console.warn(`  ↻ HTTP ${response.status} for ${url}, retrying (${attempt + 1}/${this.options.maxRetries})`);
+      } catch (error) {
+        if (isLastAttempt) {
+          this.recordFinal(host, 'error', true);
+          throw error;
+        }
+        console.warn(`  ↻ ${this.describeError(error)} for ${url}, retrying (${attempt + 1}/${this.options.maxRetries})`);
+      }
+
+      host.stats.retries++;
+      await sleep(Math.max(retryAfterMs ?? 0, this.backoffDelay(attempt)));
+    }
+  }
+
+  /**
+   * A single attempt with a timeout
+   */
+  private async fetchOnce(method: 'GET' | 'HEAD', url: string, options: RequestOptions): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? this.options.timeoutMs);
+
+    try {
+      return await fetch(url, {
+        method,
+        redirect: options.redirect,
+        signal: controller.signal,
+        headers: { ...DEFAULT_HEADERS, ...options.headers },
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Run a request once the host has a free slot and its rate allows it
+   */
+  private async withHostSlot<T>(host: HostState, run: () => Promise<T>): Promise<T> {
+    while (host.active >= this.options.maxConcurrentPerHost) {
+      await new Promise<void>((resolve) => host.waiting.push(resolve));
+    }
+    host.active++;
+
+    try {
+      const minInterval = 1000 / this.options.maxRequestsPerSecondPerHost;
+      const startAt = Math.max(Date.now(), host.nextStartAt);
+      host.nextStartAt = startAt + minInterval;
+      await sleep(startAt - Date.now());
+
+      return await run();
+    } finally {
+      host.active--;
+      host.waiting.shift()?.();
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter: a random delay between 50% and 100%
+   * of baseDelayMs * 2^attempt, capped at maxDelayMs
+   */
+  private backoffDelay(attempt: number): number {
+    const delay = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  /**
+   * Retry-After as milliseconds, from either delay-seconds or an HTTP date
+   */
+  private parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+
+    if (/^\d+$/.test(value.trim())) {
+      return parseInt(value, 10) * 1000;
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private recordFinal(host: HostState, status: string, gaveUp: boolean): void {
+    host.stats.statuses[status] = (host.stats.statuses[status] || 0) + 1;
+    if (gaveUp) host.stats.giveUps++;
+  }
+
+  private describeError(error: unknown): string {
+    if (error instanceof Error && error.name === 'AbortError') return 'Timeout';
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private hostState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = {
+        active: 0,
+        waiting: [],
+        nextStartAt: 0,
+        stats: { requests: 0, retries: 0, giveUps: 0, statuses: {} },
+      };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+export default HttpClient;
@@ -2,4 +2,7 @@
  * Utils Module Exports
  */
 
-export { Reporter, type TestResult, type TestSummary } from './reporter.js';
+export { Reporter, RESULT_ATTACHMENT, type TestResult, type TestSummary } from './reporter.js';
+export { ResultsReporter } from './results-reporter.js';
+export { parsePrices, parseAmount, type ParsedPrice } from './price-parser.js';
+export { HttpClient, type HttpClientOptions, type HttpStats, type HostStats, type RequestOptions } from './http-client.js';
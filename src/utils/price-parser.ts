@@ -0,0 +1,116 @@
+/**
+ * Price Parser - Locale-aware extraction of fares from page text
+ *
+ * Handles:
+ * - Currency markers: $, US$, AU$, CA$, £, €, and ISO codes (USD, GBP, ...)
+ * - Thousand separators in both styles (5,499.00 and 2.495,00)
+ * - "From £2,495" and "$5,499 per person" phrasing
+ * - Resolving a bare "$" to the dollar currency of the site being tested
+ */
+
+import { CurrencyCode, DomainConfig } from '../config.js';
+
+export interface ParsedPrice {
+  /** Text as it appeared on the page, e.g. "From AU$12,995 pp" */
+  raw: string;
+  amount: number;
+  currency: CurrencyCode;
+  /** False when the currency was inferred from a bare "$" */
+  explicitCurrency: boolean;
+  isFromPrice: boolean;
+  perPerson: boolean;
+}
+
+const CURRENCY_MARKERS: Record<string, CurrencyCode> = {
+  'US$': 'USD',
+  'USD': 'USD',
+  'AU$': 'AUD',
+  'A$': 'AUD',
+  'AUD': 'AUD',
+  'CA$': 'CAD',
+  'C$': 'CAD',
+  'CAD': 'CAD',
+  '£': 'GBP',
+  'GBP': 'GBP',
+  '€': 'EUR',
+  'EUR': 'EUR',
+};
+
+const DOLLAR_CURRENCIES: CurrencyCode[] = ['USD', 'AUD', 'CAD'];
+
+const MARKER = 'US\\$|AU\\$|A\\$|CA\\$|C\\$|USD|AUD|CAD|GBP|EUR|£|€|\\$';
+const AMOUNT = '\\d{1,3}(?:[,.\\u00a0\\u202f]\\d{3})+(?:[.,]\\d{2})?|\\d+(?:[.,]\\d{2})?';
+const FROM = '(?:(from)\\s+)?';
+const PER_PERSON = '(?:\\s*(pp|pps|per person|per guest))?';
+
+/**
+ * Matches "[from] <marker> <amount> [pp]" or "[from] <amount> <ISO code> [pp]"
+ */
+const PRICE_PATTERN = new RegExp(
+  `${FROM}(?:(${MARKER})\\s?(${AMOUNT})|(${AMOUNT})\\s?(USD|AUD|CAD|GBP|EUR|€))${PER_PERSON}`,
+  'gi'
+);
+
+/**
+ * Extract every price in a block of text.
+ * The domain's currency decides what a bare "$" means (AUD on the AU site).
+ */
+export function parsePrices(text: string, domain?: DomainConfig): ParsedPrice[] {
+  const prices: ParsedPrice[] = [];
+
+  for (const match of text.matchAll(PRICE_PATTERN)) {
+    const [raw, from, prefixMarker, prefixAmount, suffixAmount, suffixMarker, perPerson] = match;
+    const marker = (prefixMarker || suffixMarker).toUpperCase();
+    const amount = parseAmount(prefixAmount || suffixAmount);
+
+    if (amount === null) continue;
+
+    const explicitCurrency = marker !== '$';
+    const currency = explicitCurrency
+      ? CURRENCY_MARKERS[marker]
+      : resolveBareDollar(domain);
+
+    prices.push({
+      raw: raw.trim(),
+      amount,
+      currency,
+      explicitCurrency,
+      isFromPrice: !!from,
+      perPerson: !!perPerson,
+    });
+  }
+
+  return prices;
+}
+
+/**
+ * Convert "5,499", "2.495,00" or a non-breaking-space grouped "12 995" into a number.
+ * A trailing separator followed by exactly two digits is a decimal point;
+ * every other separator groups thousands.
+ */
+export function parseAmount(text: string): number | null {
+  const compact = text.replace(/[\u00a0\u202f]/g, '');
+  const decimalMatch = compact.match(/[.,](\d{2})$/);
+
+  let integerPart = compact;
+  let fraction = '';
+  if (decimalMatch) {
+    integerPart = compact.slice(0, -3);
+    fraction = decimalMatch[1];
+  }
+
+  const digits = integerPart.replace(/[.,]/g, '');
+  if (!/^\d+$/.test(digits)) return null;
+
+  return parseFloat(fraction ? `${digits}.${fraction}` : digits);
+}
+
+/**
+ * A bare "$" is the site's own dollar; on non-dollar sites assume USD
+ */
+function resolveBareDollar(domain?: DomainConfig): CurrencyCode {
+  if (domain && DOLLAR_CURRENCIES.includes(domain.currency)) {
+    return domain.currency;
+  }
+  return 'USD';
+}
@@ -2,30 +2,33 @@
  * Custom Reporter - Handles test results and notifications
  *
  * Features:
- * - JSON/CSV result generation
- * - Slack webhook integration
- * - Summary statistics
+ * - JSON/CSV result generation, and reading results.json back
+ * - Notifying the configured channels (Slack, Teams, webhook, email,
+ *   PagerDuty; see src/notify), each within its severity threshold and routes
+ * - Summary statistics, on the console or as Markdown (GitHub job summary)
  */
 
 import * as fs from 'fs/promises';
 import config from '../config.js';
+import type { PricingPageResult } from '../checks/index.js';
+import { describePriceAnomaly, type PriceAnomaly, type RunDiff } from '../history/index.js';
+import {
+  createNotifiers,
+  hasChangedSinceLastRun,
+  matchRoutes,
+  meetsSeverity,
+  runSeverity,
+  type Notifier,
+  type NotifyOptions,
+} from '../notify/index.js';
 
-export interface TestResult {
-  url: string;
-  domain: string;
-  passed: boolean;
-  loadTimeMs: number;
-  httpStatus: number;
-  checks: {
-    name: string;
-    passed: boolean;
-    details?: string;
-  }[];
-  errors: string[];
-  warnings: string[];
-  screenshotPath?: string;
-  testedAt: string;
-}
+/**
+ * Name of the test attachment carrying a serialized TestResult.
+ * The pricing spec attaches it; ResultsReporter collects it across workers.
+ */
+export const RESULT_ATTACHMENT = 'pricing-result';
+
+export type TestResult = PricingPageResult;
 
 export interface TestSummary {
   runAt: string;
@@ -34,10 +37,88 @@ export interface TestSummary {
   failed: number;
   warnings: number;
   avgLoadTimeMs: number;
+  /** Changes since the previous run in the history, when one exists */
+  diff?: RunDiff;
+  /** Fares that moved beyond config.priceAlerts since the previous run */
+  priceAnomalies?: PriceAnomaly[];
+  /** Filters the run was narrowed with (see config.selection) */
+  selection?: string[];
+  /** Set on the summary of one shard; `npm run merge-results` combines them */
+  shard?: { index: number; total: number };
   results: TestResult[];
 }
 
 export class Reporter {
+  /**
+   * @param notifiers Channels notify() can send to (default: createNotifiers(),
+   * built on first use)
+   */
+  constructor(private notifiers?: Notifier[]) {}
+
+  /**
+   * Categorize a failed result by its first recognizable error
+   */
+  categorizeFailure(result: TestResult): string {
+    const errorStr = result.errors.join(', ');
+
+    if (errorStr.includes('HTTP 404') || errorStr.includes('HTTP 410')) return 'HTTP 404 (Page Not Found)';
+    if (errorStr.includes('HTTP 5')) return 'HTTP 5xx (Server Error)';
+    if (errorStr.includes('Redirected to homepage')) return 'Redirected to Homepage';
+    if (errorStr.includes('Redirected to another') || errorStr.includes('Redirected away from pricing')) {
+      return 'Redirected Away from Pricing';
+    }
+    if (errorStr.includes('Unavailable panel visible')) return 'Pricing Unavailable (Call for fares)';
+    if (errorStr.includes('No departure dates')) return 'No Departure Dates';
+    if (errorStr.includes('No valid prices')) return 'No Valid Prices';
+    if (errorStr.includes('Currency mismatch')) return 'Currency Mismatch';
+    if (errorStr.includes('timeout') || errorStr.includes('Timeout')) return 'Page Load Timeout';
+    return 'Other';
+  }
+
+  /**
+   * Group failed results by error category, largest group first
+   */
+  groupFailures(results: TestResult[]): [string, TestResult[]][] {
+    const errorGroups: Map<string, TestResult[]> = new Map();
+
+    for (const r of results.filter((r) => !r.passed)) {
+      const errorType = this.categorizeFailure(r);
+      if (!errorGroups.has(errorType)) errorGroups.set(errorType, []);
+      errorGroups.get(errorType)!.push(r);
+    }
+
+    return Array.from(errorGroups.entries()).sort((a, b) => b[1].length - a[1].length);
+  }
+
+  /**
+   * Format the changes since the previous run as console lines
+   */
+  formatDiff(diff: RunDiff): string[] {
+    const lines: string[] = [];
+
+    if (!diff.previousRunAt) {
+      lines.push('CHANGES SINCE LAST RUN: no previous run recorded');
+      return lines;
+    }
+
+    lines.push(`CHANGES SINCE LAST RUN (${diff.previousRunAt}):`);
+    lines.push(`   Newly failing:        ${diff.newlyFailing.length}`);
+    lines.push(`   Newly recovered:      ${diff.newlyRecovered.length}`);
+    lines.push(`   Persistently failing: ${diff.persistentlyFailing.length}`);
+
+    for (const r of diff.newlyFailing) {
+      lines.push(`   ✗ NEW     ${r.url} (${r.errors.join(', ')})`);
+    }
+    for (const r of diff.newlyRecovered) {
+      lines.push(`   ✓ FIXED   ${r.url}`);
+    }
+    for (const r of diff.persistentlyFailing) {
+      lines.push(`   ⏳ STILL   ${r.url} (${r.consecutiveFailures} runs, since ${r.failingSince})`);
+    }
+
+    return lines;
+  }
+
   /**
    * Generate summary from test results
    */
@@ -66,6 +147,24 @@ export class Reporter {
     console.log(`📄 JSON report written to: ${config.output.resultsJson}`);
   }
 
+  /**
+   * Read a summary written by writeJsonReport
+   */
+  async readJsonReport(filePath: string = config.output.resultsJson): Promise<TestSummary> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      throw new Error(`No results found at ${filePath}; run the pricing tests first`);
+    }
+
+    try {
+      return JSON.parse(content) as TestSummary;
+    } catch (error) {
+      throw new Error(`Invalid results file ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Write results to CSV file
    */
@@ -76,11 +175,21 @@ export class Reporter {
       'Passed',
       'Load Time (ms)',
       'HTTP Status',
+      'Final URL',
+      'Redirects',
       'Errors',
       'Warnings',
+      'Lowest Fare',
+      'Currency',
+      'Price Anomalies',
       'Tested At',
     ].join(',');
 
+    const anomaliesByUrl = new Map<string, PriceAnomaly[]>();
+    for (const anomaly of summary.priceAnomalies || []) {
+      anomaliesByUrl.set(anomaly.url, [...(anomaliesByUrl.get(anomaly.url) || []), anomaly]);
+    }
+
     const rows = summary.results.map((r) =>
       [
         `"${r.url}"`,
@@ -88,8 +197,13 @@ export class Reporter {
         r.passed,
         r.loadTimeMs,
         r.httpStatus,
+        `"${r.finalUrl ?? ''}"`,
+        `"${(r.redirectChain || []).map((hop) => `${hop.status} ${hop.url}`).join(' → ')}"`,
         `"${r.errors.join('; ')}"`,
         `"${r.warnings.join('; ')}"`,
+        r.lowestFare?.amount ?? '',
+        r.lowestFare?.currency ?? '',
+        `"${(anomaliesByUrl.get(r.url) || []).map(describePriceAnomaly).join('; ')}"`,
         `"${r.testedAt}"`,
       ].join(',')
     );
@@ -103,122 +217,179 @@ export class Reporter {
   }
 
   /**
-   * Post summary to Slack webhook
+   * Names of the channels notify() can send to
    */
-  async postToSlack(summary: TestSummary): Promise<void> {
-    const webhookUrl = config.slackWebhookUrl;
-
-    if (!webhookUrl) {
-      console.log('⚠️  No Slack webhook configured, skipping notification');
-      return;
-    }
-
-    const statusEmoji = summary.failed === 0 ? '✅' : '🚨';
-    const failedUrls = summary.results
-      .filter((r) => !r.passed)
-      .slice(0, 5) // Limit to first 5 failures
-      .map((r) => `• <${r.url}|${new URL(r.url).pathname}>: ${r.errors.join(', ')}`);
-
-    const message = {
-      blocks: [
-        {
-          type: 'header',
-          text: {
-            type: 'plain_text',
-            text: `${statusEmoji} Viking Pricing Page Monitor`,
-            emoji: true,
-          },
-        },
-        {
-          type: 'section',
-          fields: [
-            {
-              type: 'mrkdwn',
-              text: `*Total Tested:*\n${summary.totalTested}`,
-            },
-            {
-              type: 'mrkdwn',
-              text: `*Passed:*\n${summary.passed}`,
-            },
-            {
-              type: 'mrkdwn',
-              text: `*Failed:*\n${summary.failed}`,
-            },
-            {
-              type: 'mrkdwn',
-              text: `*Avg Load Time:*\n${Math.round(summary.avgLoadTimeMs)}ms`,
-            },
-          ],
-        },
-      ],
-    };
+  channelNames(): string[] {
+    return this.getNotifiers().map((n) => n.name);
+  }
 
-    // Add failed URLs section if there are failures
-    if (failedUrls.length > 0) {
-      message.blocks.push({
-        type: 'section',
-        text: {
-          type: 'mrkdwn',
-          text: `*Failed Pages:*\n${failedUrls.join('\n')}${summary.failed > 5 ? `\n_...and ${summary.failed - 5} more_` : ''}`,
-        },
-      } as any);
-    }
-
-    // Add timestamp
-    message.blocks.push({
-      type: 'context',
-      elements: [
-        {
-          type: 'mrkdwn',
-          text: `Run at: ${new Date(summary.runAt).toLocaleString('en-US', { timeZone: 'America/Los_Angeles' })} PT`,
-        },
-      ],
-    } as any);
+  /**
+   * Send the summary to every configured channel (or the chosen ones) whose
+   * severity threshold and routes the run meets. A channel the run no longer
+   * meets may resolve what it raised before (PagerDuty). Returns false when
+   * a channel could not be notified.
+   */
+  async notify(summary: TestSummary, options: NotifyOptions = {}): Promise<boolean> {
+    const notifiers = options.channels
+      ? this.getNotifiers().filter((n) => options.channels!.includes(n.name))
+      : this.getNotifiers().filter((n) => n.isConfigured());
 
-    try {
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(message),
-      });
-
-      if (response.ok) {
-        console.log('📤 Slack notification sent successfully');
-      } else {
-        console.error(`❌ Slack notification failed: ${response.status}`);
+    if (notifiers.length === 0) {
+      console.log('⚠️  No notification channel configured, skipping notification');
+      return true;
+    }
+
+    const severity = runSeverity(summary);
+    const failureGroups = this.groupFailures(summary.results);
+    const changed = hasChangedSinceLastRun(summary);
+    let allSent = true;
+
+    for (const notifier of notifiers) {
+      if (!notifier.isConfigured() && !options.dryRun) {
+        console.log(`⚠️  ${notifier.name} is not configured, skipping`);
+        continue;
       }
-    } catch (error) {
-      console.error('❌ Failed to send Slack notification:', error);
+
+      const channel = notifier.channelConfig();
+      const reasons = meetsSeverity(severity, channel.minSeverity) ? matchRoutes(channel.routes, failureGroups) : null;
+      const notification = { summary, severity, failureGroups, reasons: reasons || [] };
+
+      try {
+        if (!reasons) {
+          console.log(
+            meetsSeverity(severity, channel.minSeverity)
+              ? `🔕 ${notifier.name}: no routing rule matched, skipping`
+              : `🔕 ${notifier.name}: run severity ${severity} is below ${channel.minSeverity}, skipping`
+          );
+          await notifier.resolve?.(notification, options);
+          continue;
+        }
+
+        if ((options.quiet ?? channel.quietWhenUnchanged) && !changed) {
+          console.log(`🤫 ${notifier.name}: nothing changed since the last run, skipping`);
+          continue;
+        }
+
+        await notifier.send(notification, options);
+        if (!options.dryRun) {
+          console.log(`📤 ${notifier.name} notification sent`);
+        }
+      } catch (error) {
+        console.error(`❌ Failed to notify ${notifier.name}:`, error instanceof Error ? error.message : error);
+        allSent = false;
+      }
+    }
+
+    return allSent;
+  }
+
+  /**
+   * Format the summary as Markdown, for the GitHub Actions job summary
+   */
+  formatMarkdownSummary(summary: TestSummary): string {
+    const link = (url: string) => `[${url}](${url})`;
+    const lines = ['## Viking Pricing Page Monitor Results', ''];
+
+    if (summary.diff?.previousRunAt) {
+      const { newlyFailing, newlyRecovered, persistentlyFailing } = summary.diff;
+      lines.push('### Changes Since Last Run', '');
+      lines.push('| Change | URLs |', '|--------|------|');
+      lines.push(`| 🆕 Newly failing | ${newlyFailing.length} |`);
+      lines.push(`| ✅ Newly recovered | ${newlyRecovered.length} |`);
+      lines.push(`| ⏳ Persistently failing | ${persistentlyFailing.length} |`, '');
+      lines.push(...newlyFailing.map((r) => `- 🆕 ${link(r.url)}: ${r.errors.join(', ')}`));
+      lines.push(...newlyRecovered.map((r) => `- ✅ ${link(r.url)}`));
+      lines.push('');
+    }
+
+    lines.push('| Metric | Value |', '|--------|-------|');
+    lines.push(`| Total Tested | ${summary.totalTested} |`);
+    lines.push(`| ✅ Passed | ${summary.passed} |`);
+    lines.push(`| ❌ Failed | ${summary.failed} |`);
+    lines.push(`| ⏱️ Avg Load Time | ${Math.floor(summary.avgLoadTimeMs)}ms |`);
+
+    const anomalies = summary.priceAnomalies || [];
+    if (anomalies.length > 0) {
+      lines.push('', '### Price Anomalies', '');
+      lines.push(...anomalies.map((a) => `- ${link(a.url)}: ${describePriceAnomaly(a)}`));
     }
+
+    if (summary.failed > 0) {
+      lines.push('', '### Failed Pages', '');
+      lines.push(...summary.results.filter((r) => !r.passed).map((r) => `- ${link(r.url)}: ${r.errors.join(', ')}`));
+    }
+
+    return lines.join('\n') + '\n';
   }
 
   /**
    * Print summary to console
    */
   printSummary(summary: TestSummary): void {
-    console.log('\n═══════════════════════════════════════════════════════');
-    console.log('           Viking Pricing Page Monitor Results');
-    console.log('═══════════════════════════════════════════════════════\n');
+    const passedResults = summary.results.filter((r) => r.passed);
+    const lines: string[] = [];
+
+    lines.push('');
+    lines.push('═══════════════════════════════════════════════════════════════');
+    lines.push('              Viking Pricing Page Monitor Results');
+    lines.push('═══════════════════════════════════════════════════════════════');
+    lines.push(`  Total Tested:  ${summary.totalTested}`);
+    lines.push(`  PASSED:        ${summary.passed}`);
+    lines.push(`  FAILED:        ${summary.failed}`);
+    lines.push(`  Avg Load:      ${Math.round(summary.avgLoadTimeMs)}ms`);
+    lines.push('═══════════════════════════════════════════════════════════════');
+
+    if (summary.diff) {
+      lines.push('');
+      lines.push(...this.formatDiff(summary.diff));
+    }
 
-    console.log(`📊 Summary:`);
-    console.log(`   Total Tested: ${summary.totalTested}`);
-    console.log(`   ✅ Passed:    ${summary.passed}`);
-    console.log(`   ❌ Failed:    ${summary.failed}`);
-    console.log(`   ⚠️  Warnings:  ${summary.warnings}`);
-    console.log(`   ⏱️  Avg Load:  ${Math.round(summary.avgLoadTimeMs)}ms`);
+    if (passedResults.length > 0) {
+      lines.push('');
+      lines.push(`PASSED URLs: ${passedResults.length} URLs passed all checks`);
+      const maxToShow = 10;
+      for (const r of passedResults.slice(0, maxToShow)) {
+        lines.push(`   ✓ ${r.url}`);
+      }
+      if (passedResults.length > maxToShow) {
+        lines.push(`   ... and ${passedResults.length - maxToShow} more passed URLs`);
+      }
+    }
 
     if (summary.failed > 0) {
-      console.log('\n❌ Failed Pages:');
-      for (const result of summary.results.filter((r) => !r.passed)) {
-        console.log(`\n   ${result.url}`);
-        console.log(`   Errors: ${result.errors.join(', ')}`);
-        if (result.screenshotPath) {
-          console.log(`   Screenshot: ${result.screenshotPath}`);
+      lines.push('');
+      lines.push('FAILED URLs (grouped by error type):');
+
+      for (const [errorType, urls] of this.groupFailures(summary.results)) {
+        lines.push('');
+        lines.push(`   [${errorType}] (${urls.length} URLs):`);
+        for (const r of urls) {
+          lines.push(`      - ${r.url}`);
         }
       }
     }
 
-    console.log('\n═══════════════════════════════════════════════════════\n');
+    if (summary.priceAnomalies && summary.priceAnomalies.length > 0) {
+      lines.push('');
+      lines.push(`PRICE ANOMALIES (${summary.priceAnomalies.length} fare changes beyond thresholds):`);
+      for (const anomaly of summary.priceAnomalies) {
+        lines.push(`   ⚠ ${anomaly.url}`);
+        lines.push(`      ${describePriceAnomaly(anomaly)}`);
+      }
+    }
+
+    lines.push('');
+    lines.push('───────────────────────────────────────────────────────────────');
+    lines.push(`Full results: ${config.output.resultsJson}`);
+    lines.push(`CSV export:   ${config.output.resultsCsv}`);
+    lines.push('───────────────────────────────────────────────────────────────');
+
+    console.log(lines.join('\n'));
+  }
+
+  private getNotifiers(): Notifier[] {
+    this.notifiers ??= createNotifiers();
+    return this.notifiers;
   }
 }
 
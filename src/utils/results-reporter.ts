@@ -0,0 +1,162 @@
+/**
+ * Results Reporter - Playwright reporter that aggregates pricing results
+ *
+ * Runs in the main Playwright process, so it sees every test from every
+ * worker. Each pricing test attaches its TestResult as JSON; this reporter
+ * collects them and writes one merged summary at the end of the run.
+ *
+ * Handles:
+ * - Results from all parallel workers
+ * - Retried tests (only the final attempt is counted)
+ * - Tests that crashed before attaching a result
+ * - URLs the pre-flight found dead, which the spec did not test, limited
+ *   to the URLs config.selection selects
+ * - Recording the run in the history and diffing it against the last run
+ * - Flagging fares that moved beyond config.priceAlerts since the last run
+ *
+ * Fixture replay runs are reported but not recorded in the history. Nor
+ * are runs narrowed by a filter or sample, which would make the next full
+ * run's diff report every untested URL, nor shards (VIKING_SHARD):
+ * `npm run merge-results` records the merged run.
+ */
+
+import type {
+  FullResult,
+  Reporter as PlaywrightReporter,
+  TestCase,
+  TestResult as PlaywrightTestResult,
+} from '@playwright/test/reporter';
+import * as fs from 'fs';
+import config from '../config.js';
+import type { UrlManifest } from '../discovery/index.js';
+import { Reporter, RESULT_ATTACHMENT, type TestResult } from './reporter.js';
+import { RunHistory, recordRun } from '../history/index.js';
+import { loadPreflightReport, preflightResult } from '../preflight/index.js';
+import { describeSelection, isSelectionActive, isSelectionFiltered, selectUrls } from '../selection/index.js';
+
+export class ResultsReporter implements PlaywrightReporter {
+  private reporter = new Reporter();
+  private history = new RunHistory();
+  private results: Map<string, TestResult> = new Map();
+
+  /**
+   * Record the result of a test attempt, replacing any earlier attempt
+   */
+  onTestEnd(test: TestCase, result: PlaywrightTestResult): void {
+    if (result.status === 'skipped') {
+      return;
+    }
+
+    const attached = this.readAttachedResult(result);
+    if (attached) {
+      this.results.set(test.id, attached);
+      return;
+    }
+
+    // No attachment: the test died before it could report (timeout, crash)
+    const url = test.annotations.find((a) => a.type === 'url')?.description;
+    if (url) {
+      this.results.set(test.id, this.createCrashResult(url, result));
+    }
+  }
+
+  /**
+   * Write the merged summary once all workers have finished
+   */
+  async onEnd(_result: FullResult): Promise<void> {
+    if (this.results.size === 0) {
+      return;
+    }
+
+    // Only runs that tested pricing pages get here (not unit or fixture runs)
+    if (config.fixtures.mode !== 'replay') {
+      this.addPreflightFailures();
+    }
+
+    const results = Array.from(this.results.values()).sort((a, b) => a.url.localeCompare(b.url));
+    const summary = this.reporter.generateSummary(results);
+
+    if (isSelectionActive()) {
+      summary.selection = describeSelection();
+    }
+    if (config.selection.shard) {
+      summary.shard = config.selection.shard;
+    } else if (isSelectionFiltered()) {
+      console.log('🎯 Selection filters are set; this run is not recorded in the history');
+    } else if (config.fixtures.mode !== 'replay') {
+      await recordRun(summary, this.history);
+    }
+
+    await this.reporter.writeJsonReport(summary);
+    await this.reporter.writeCsvReport(summary);
+    this.reporter.printSummary(summary);
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+
+  /**
+   * Add a failed result for each URL the pre-flight found dead; the spec
+   * skipped them using the same report
+   */
+  private addPreflightFailures(): void {
+    const report = loadPreflightReport();
+    if (!report) {
+      return;
+    }
+
+    let dead = report.entries.filter((e) => e.verdict === 'dead');
+    if (isSelectionActive()) {
+      // loadPreflightReport checked the manifest exists and matches
+      const manifest: UrlManifest = JSON.parse(fs.readFileSync(config.output.manifestFile, 'utf-8'));
+      const selected = new Set(selectUrls(manifest.urls).map((u) => u.url));
+      dead = dead.filter((e) => selected.has(e.url));
+    }
+
+    for (const entry of dead) {
+      this.results.set(`preflight:${entry.url}`, preflightResult(entry));
+    }
+    if (dead.length > 0) {
+      console.log(`🛫 ${dead.length} URLs failed pre-flight and were reported without a browser`);
+    }
+  }
+
+  /**
+   * Parse the pricing result attachment, if the test produced one
+   */
+  private readAttachedResult(result: PlaywrightTestResult): TestResult | null {
+    const attachment = result.attachments.find((a) => a.name === RESULT_ATTACHMENT);
+    if (!attachment?.body) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(attachment.body.toString('utf-8')) as TestResult;
+    } catch (error) {
+      console.error(`❌ Could not parse ${RESULT_ATTACHMENT} attachment:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Build a failed result for a test that ended without attaching one
+   */
+  private createCrashResult(url: string, result: PlaywrightTestResult): TestResult {
+    const errorMsg = result.error?.message || `Test ${result.status}`;
+
+    return {
+      url,
+      domain: new URL(url).hostname,
+      passed: false,
+      loadTimeMs: result.duration,
+      httpStatus: 0,
+      checks: [{ name: 'Page load', passed: false, details: errorMsg }],
+      errors: [errorMsg],
+      warnings: [],
+      testedAt: result.startTime.toISOString(),
+    };
+  }
+}
+
+export default ResultsReporter;